@@ -32,7 +32,7 @@
  * @public
  */
 
-import type { ICommand, ICommandOptions } from './interfaces.js';
+import type { ICommand, ICommandExecutionOptions, ICommandOptions } from './interfaces.js';
 
 /**
  * Abstract base class that provides common functionality for all commands.
@@ -45,6 +45,7 @@ export abstract class BaseCommand implements ICommand {
   public abstract executeToolViaMCP(
     toolName: string,
     args: Record<string, unknown>,
+    options?: ICommandExecutionOptions,
   ): Promise<import('@modelcontextprotocol/sdk/types.js').CallToolResult>;
   public abstract executeViaCLI(args: string[]): Promise<void>;
   public abstract getMCPDefinitions(): import('@modelcontextprotocol/sdk/types.js').Tool[];
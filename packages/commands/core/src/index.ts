@@ -54,6 +54,7 @@
 // Re-export core types and interfaces
 export type {
   ICommand,
+  ICommandExecutionOptions,
   ICommandMetadata,
   ICommandOptions,
   Tool,
@@ -17,9 +17,14 @@ export interface ICommand {
    * Called when an AI assistant invokes a tool through the MCP interface.
    * @param toolName - Name of the specific tool to execute
    * @param args - Arguments passed from the MCP client as a JSON object
+   * @param options - Per-call execution options such as the cancellation signal
    * @returns MCP-compliant tool result containing text or resource content
    */
-  executeToolViaMCP(toolName: string, args: Record<string, unknown>): Promise<CallToolResult>;
+  executeToolViaMCP(
+    toolName: string,
+    args: Record<string, unknown>,
+    options?: ICommandExecutionOptions,
+  ): Promise<CallToolResult>;
 
   /**
    * Execute the command via CLI interface.
@@ -38,6 +43,14 @@ export interface ICommand {
   getMCPDefinitions(): Tool[];
 }
 
+/**
+ * Per-call options passed to {@link ICommand.executeToolViaMCP}.
+ */
+export interface ICommandExecutionOptions {
+  /** Aborted when the MCP client cancels the tool call */
+  signal?: AbortSignal;
+}
+
 /**
  * Metadata interface for command packages.
  * Provides additional information about command authorship, versioning, and categorization.
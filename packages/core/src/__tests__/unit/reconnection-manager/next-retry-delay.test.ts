@@ -58,4 +58,17 @@ describe('ReconnectionManager - Next Retry Delay', () => {
     expect(lastEvent?.to).toBe(ConnectionState.Failed);
     expect(lastEvent?.nextRetryDelay).toBeUndefined();
   });
+
+  it('reports the time left until the scheduled attempt', async () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 1000, jitter: 0 });
+    expect(manager.getNextRetryDelay()).toBeUndefined();
+
+    const promise = manager.scheduleReconnect(vi.fn().mockResolvedValue(undefined));
+    vi.advanceTimersByTime(400);
+    expect(manager.getNextRetryDelay()).toBe(600);
+
+    vi.advanceTimersByTime(600);
+    await promise;
+    expect(manager.getNextRetryDelay()).toBeUndefined();
+  });
 });
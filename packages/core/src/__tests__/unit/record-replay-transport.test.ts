@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { RecordingTransport, ReplayClientTransport, type SessionFixtureEntry } from '../../index';
+
+/**
+ * Starts an in-memory server with one `echo` tool that counts its calls.
+ * @returns The server and the client side of its transport
+ */
+async function startEchoServer() {
+  const server = new Server({ name: 'echo', version: '1.0.0' }, { capabilities: { tools: {} } });
+  let calls = 0;
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', inputSchema: { type: 'object', properties: { text: {} } } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: 'text', text: `${++calls}: ${request.params.arguments?.text}` }],
+  }));
+  const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  return { server, clientSide };
+}
+
+const newClient = () => new Client({ name: 'test-client', version: '1.0.0' });
+
+describe('RecordingTransport and ReplayClientTransport', () => {
+  let dir: string;
+  let fixture: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-funnel-replay-'));
+    fixture = join(dir, 'sessions', 'echo.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Records a session with the echo server: list tools, then call echo three times.
+   */
+  async function recordSession(): Promise<void> {
+    const { server, clientSide } = await startEchoServer();
+    const client = newClient();
+    await client.connect(new RecordingTransport(clientSide, fixture));
+    await client.listTools();
+    await client.callTool({ name: 'echo', arguments: { text: 'a' } });
+    await client.callTool({ name: 'echo', arguments: { text: 'a' } });
+    await client.callTool({ name: 'echo', arguments: { text: 'b' } });
+    await client.close();
+    await server.close();
+  }
+
+  it('should record every message sent and received, in order', async () => {
+    await recordSession();
+
+    const entries: SessionFixtureEntry[] = readFileSync(fixture, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(
+      entries.map((e) => [e.dir, 'method' in e.message ? e.message.method : 'response']),
+    ).toEqual([
+      ['out', 'initialize'],
+      ['in', 'response'],
+      ['out', 'notifications/initialized'],
+      ['out', 'tools/list'],
+      ['in', 'response'],
+      ['out', 'tools/call'],
+      ['in', 'response'],
+      ['out', 'tools/call'],
+      ['in', 'response'],
+      ['out', 'tools/call'],
+      ['in', 'response'],
+    ]);
+  });
+
+  it('should serve initialize, listTools and callTool from the recording', async () => {
+    await recordSession();
+    const client = newClient();
+    await client.connect(new ReplayClientTransport({ fixture }));
+
+    expect(client.getServerVersion()).toEqual({ name: 'echo', version: '1.0.0' });
+    expect((await client.listTools()).tools.map((t) => t.name)).toEqual(['echo']);
+
+    const text = async (value: string) => {
+      const result = await client.callTool({ name: 'echo', arguments: { text: value } });
+      return (result.content as Array<{ text: string }>)[0].text;
+    };
+    // Repeated calls get the recorded responses in order, then the last one again
+    expect(await text('a')).toBe('1: a');
+    expect(await text('a')).toBe('2: a');
+    expect(await text('a')).toBe('2: a');
+    expect(await text('b')).toBe('3: b');
+    await expect(text('c')).rejects.toThrow('No recorded response for tools/call');
+    await expect(client.ping()).resolves.toEqual({});
+    await client.close();
+  });
+
+  it('should fail to start when the fixture is missing', async () => {
+    await expect(newClient().connect(new ReplayClientTransport({ fixture }))).rejects.toThrow(
+      'Cannot read replay fixture',
+    );
+  });
+});
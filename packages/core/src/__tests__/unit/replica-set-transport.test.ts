@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ReplicaSetTransport, type LoadBalancingStrategy } from '../../index';
+
+interface Replica {
+  /** Servers started for this replica, the latest last */
+  servers: Server[];
+  /** Holds calls until resolved, when set */
+  gate?: Promise<void>;
+  /** Connections to hand out that never answer, before serving again */
+  silent?: number;
+}
+
+/**
+ * Creates a replica whose `whoami` tool answers with the replica's name.
+ * @param name - Replica name
+ * @returns The replica and an endpoint starting a fresh server per connection
+ */
+function createReplica(name: string) {
+  const replica: Replica = { servers: [] };
+  const endpoint = {
+    endpoint: name,
+    createTransport: async () => {
+      const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+      if (replica.silent) {
+        replica.silent--;
+        await serverSide.start();
+        return clientSide;
+      }
+      const server = new Server({ name, version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(CallToolRequestSchema, async () => {
+        await replica.gate;
+        return { content: [{ type: 'text', text: name }] };
+      });
+      await server.connect(serverSide);
+      replica.servers.push(server);
+      return clientSide;
+    },
+  };
+  return { replica, endpoint };
+}
+
+/**
+ * Connects a client to a set of replicas.
+ * @param names - Replica names
+ * @param strategy - Load balancing strategy
+ * @returns The client, its transport and the replicas by name
+ */
+async function connect(names: string[], strategy?: LoadBalancingStrategy) {
+  const replicas = names.map(createReplica);
+  const transport = new ReplicaSetTransport({
+    replicas: replicas.map((r) => r.endpoint),
+    strategy,
+    reconnection: { initialDelayMs: 1, jitter: 0 },
+    syncTimeoutMs: 50,
+  });
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(transport);
+  return { client, transport, replicas: replicas.map((r) => r.replica) };
+}
+
+const whoami = async (client: Client) => {
+  const result = (await client.callTool({ name: 'whoami' })) as CallToolResult;
+  return (result.content[0] as { text: string }).text;
+};
+
+describe('ReplicaSetTransport', () => {
+  it('should initialize every replica and route calls round-robin', async () => {
+    const { client, replicas } = await connect(['a', 'b']);
+
+    expect(replicas.map((r) => r.servers[0].getClientVersion()?.name)).toEqual([
+      'test-client',
+      'test-client',
+    ]);
+    expect([await whoami(client), await whoami(client), await whoami(client)]).toEqual([
+      'a',
+      'b',
+      'a',
+    ]);
+    await client.close();
+  });
+
+  it('should route calls to the replica with the fewest calls in flight', async () => {
+    const { client, transport, replicas } = await connect(['a', 'b'], 'least-busy');
+    let release!: () => void;
+    replicas[0].gate = new Promise((resolve) => (release = resolve));
+
+    const slow = whoami(client);
+    await vi.waitFor(() => expect(transport.getReplicaStatus()[0].inFlight).toBe(1));
+
+    expect([await whoami(client), await whoami(client)]).toEqual(['b', 'b']);
+    release();
+    expect(await slow).toBe('a');
+    await client.close();
+  });
+
+  it('should fail over to other replicas and reconnect the dropped one', async () => {
+    const { client, transport, replicas } = await connect(['a', 'b']);
+    replicas[0].gate = new Promise(() => {});
+    const pending = whoami(client);
+
+    await replicas[0].servers[0].close();
+
+    await expect(pending).rejects.toThrow('Replica a disconnected');
+    expect(await whoami(client)).toBe('b');
+    await vi.waitFor(() => expect(transport.getReplicaStatus()[0].status).toBe('connected'));
+    expect(replicas[0].servers[1].getClientVersion()?.name).toBe('test-client');
+
+    replicas[0].gate = undefined;
+    expect([await whoami(client), await whoami(client)].sort()).toEqual(['a', 'b']);
+    await client.close();
+  });
+
+  it('should stop counting cancelled calls as in flight', async () => {
+    const { client, transport, replicas } = await connect(['a', 'b'], 'least-busy');
+    replicas[0].gate = new Promise(() => {});
+    const controller = new AbortController();
+
+    const cancelled = client.callTool({ name: 'whoami' }, undefined, {
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(transport.getReplicaStatus()[0].inFlight).toBe(1));
+    controller.abort(new Error('cancelled'));
+
+    await expect(cancelled).rejects.toThrow('cancelled');
+    await vi.waitFor(() => expect(transport.getReplicaStatus()[0].inFlight).toBe(0));
+    await client.close();
+  });
+
+  it('should retry replicas that do not answer the replayed handshake', async () => {
+    const { client, transport, replicas } = await connect(['a', 'b']);
+    replicas[0].silent = 1;
+
+    await replicas[0].servers[0].close();
+
+    // The silent connection times out, and the next attempt serves again
+    await vi.waitFor(() => expect(transport.getReplicaStatus()[0].status).toBe('connected'));
+    expect(replicas[0].silent).toBe(0);
+    expect(replicas[0].servers).toHaveLength(2);
+    await client.close();
+  });
+
+  it('should close once no replica is connected', async () => {
+    const { client, transport, replicas } = await connect(['a', 'b']);
+    const onclose = vi.fn();
+    client.onclose = onclose;
+
+    await replicas[0].servers[0].close();
+    await replicas[1].servers[0].close();
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalledOnce());
+    expect(transport.getReplicaStatus()).toEqual([
+      expect.objectContaining({ endpoint: 'a', status: 'disconnected' }),
+      expect.objectContaining({ endpoint: 'b', status: 'disconnected' }),
+    ]);
+  });
+
+  it('should fail to start when no replica can be reached', async () => {
+    const transport = new ReplicaSetTransport({
+      replicas: [
+        {
+          endpoint: 'down',
+          createTransport: async () => {
+            throw new Error('ECONNREFUSED');
+          },
+        },
+      ],
+    });
+
+    await expect(transport.start()).rejects.toThrow(
+      'No replica could be started (down: ECONNREFUSED)',
+    );
+  });
+});
@@ -32,6 +32,7 @@ export class ReconnectionManager {
   private retryCount = 0;
   private currentState = ConnectionState.Disconnected;
   private retryTimeout?: NodeJS.Timeout;
+  private retryAt?: number;
   private config: {
     initialDelay: number;
     maxDelay: number;
@@ -105,6 +106,7 @@ export class ReconnectionManager {
     if (this.retryTimeout) {
       clearTimeout(this.retryTimeout);
       this.retryTimeout = undefined;
+      this.retryAt = undefined;
     }
 
     const newState =
@@ -163,7 +165,9 @@ export class ReconnectionManager {
 
       this.setState(ConnectionState.Reconnecting);
 
+      this.retryAt = Date.now() + delay;
       this.retryTimeout = setTimeout(async () => {
+        this.retryAt = undefined;
         try {
           await connectFn();
           resolve();
@@ -183,6 +187,7 @@ export class ReconnectionManager {
     if (this.retryTimeout) {
       clearTimeout(this.retryTimeout);
       this.retryTimeout = undefined;
+      this.retryAt = undefined;
     }
   }
 
@@ -207,6 +212,15 @@ export class ReconnectionManager {
     return this.retryCount;
   }
 
+  /**
+   * Gets the time left until the scheduled reconnection attempt runs.
+   * @returns Remaining delay in milliseconds, or undefined when no attempt is scheduled
+   * @public
+   */
+  public getNextRetryDelay(): number | undefined {
+    return this.retryAt === undefined ? undefined : Math.max(0, this.retryAt - Date.now());
+  }
+
   /**
    * Schedules reconnection (simple wrapper for scheduleReconnect).
    *
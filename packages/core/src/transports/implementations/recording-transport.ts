@@ -0,0 +1,102 @@
+import {
+  type Transport,
+  type TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import { type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { appendFileSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { logEvent } from '../../logger.js';
+import type { SessionFixtureEntry } from './utils/session-fixture.js';
+
+/**
+ * RecordingTransport wraps any client transport and writes every JSON-RPC message it
+ * sends and receives to a session fixture, which ReplayClientTransport can serve later.
+ *
+ * The fixture is truncated when the transport starts, so it always holds the latest
+ * session. Writes are synchronous to keep the recorded order; a failing write is
+ * logged and does not affect the session.
+ * @public
+ * @see file:./replay-client-transport.ts - Serves recorded sessions
+ */
+export class RecordingTransport implements Transport {
+  // Transport interface callbacks
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: Transport['onmessage'];
+
+  /**
+   * @param inner - Transport that talks to the real server
+   * @param fixturePath - File the session is recorded to
+   */
+  public constructor(
+    private readonly inner: Transport,
+    private readonly fixturePath: string,
+  ) {
+    inner.onclose = () => this.onclose?.();
+    inner.onerror = (error) => this.onerror?.(error);
+    inner.onmessage = (message, extra) => {
+      this.record({ dir: 'in', message });
+      this.onmessage?.(message, extra);
+    };
+  }
+
+  public get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  /**
+   * Truncates the fixture and starts the wrapped transport.
+   * @public
+   */
+  public async start(): Promise<void> {
+    try {
+      mkdirSync(dirname(this.fixturePath), { recursive: true });
+      writeFileSync(this.fixturePath, '', 'utf8');
+    } catch (error) {
+      this.logWriteFailure(error);
+    }
+    await this.inner.start();
+  }
+
+  /**
+   * Records and sends a message.
+   * @param message - Message to send
+   * @param options - Send options, passed on unchanged
+   * @public
+   */
+  public async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    this.record({ dir: 'out', message });
+    await this.inner.send(message, options);
+  }
+
+  /**
+   * Closes the wrapped transport.
+   * @public
+   */
+  public async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  /**
+   * @param version - Negotiated protocol version, passed on to the wrapped transport
+   * @public
+   */
+  public setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  private record(entry: SessionFixtureEntry): void {
+    try {
+      appendFileSync(this.fixturePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    } catch (error) {
+      this.logWriteFailure(error);
+    }
+  }
+
+  private logWriteFailure(error: unknown): void {
+    logEvent('warn', 'transport:record_failed', {
+      path: this.fixturePath,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  type Transport,
+  type TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCError,
+  type JSONRPCMessage,
+  type JSONRPCResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import { TransportError } from '../errors/transport-error.js';
+import { readSessionFixture, requestKey } from './utils/session-fixture.js';
+
+/**
+ * Configuration options for ReplayClientTransport.
+ * @public
+ */
+export interface ReplayTransportOptions {
+  /** Session fixture written by RecordingTransport */
+  fixture: string;
+}
+
+/**
+ * A recorded answer to a request: a result or a JSON-RPC error, without the id.
+ * @internal
+ */
+type RecordedReply = Omit<JSONRPCResponse, 'id'> | Omit<JSONRPCError, 'id'>;
+
+/**
+ * ReplayClientTransport serves a recorded session instead of talking to a server, so
+ * configs and the proxy can be tested offline and deterministically.
+ *
+ * Each request is answered with the recorded response to a request with the same
+ * method and params (see requestKey). Repeated requests get the recorded responses in
+ * order, then the last one again. Requests without a recording get a JSON-RPC error,
+ * `ping` always succeeds, and notifications are dropped. Server-initiated messages
+ * from the recording are not replayed.
+ * @public
+ * @see file:./recording-transport.ts - Records sessions
+ */
+export class ReplayClientTransport implements Transport {
+  private replies = new Map<string, RecordedReply[]>();
+  private isClosed = false;
+
+  // Transport interface callbacks
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (message: JSONRPCMessage) => void;
+  // Stays undefined: the SDK client skips `initialize` on transports with a session id
+  public sessionId?: string;
+
+  public constructor(private readonly options: ReplayTransportOptions) {}
+
+  /**
+   * Loads the fixture.
+   * @throws \{TransportError\} When the fixture cannot be read
+   * @public
+   */
+  public async start(): Promise<void> {
+    let entries;
+    try {
+      entries = readSessionFixture(this.options.fixture);
+    } catch (error) {
+      throw TransportError.connectionFailed(
+        `Cannot read replay fixture ${this.options.fixture}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    // Pair each recorded request with the response carrying its id
+    this.replies.clear();
+    const pending = new Map<string | number, string>();
+    for (const { dir, message } of entries) {
+      if (dir === 'out' && isJSONRPCRequest(message)) {
+        pending.set(message.id, requestKey(message.method, message.params));
+      } else if (dir === 'in' && (isJSONRPCResponse(message) || isJSONRPCError(message))) {
+        const key = pending.get(message.id);
+        if (key === undefined) continue;
+        pending.delete(message.id);
+        const { id: _id, ...reply } = message;
+        this.replies.set(key, [...(this.replies.get(key) ?? []), reply]);
+      }
+    }
+    this.isClosed = false;
+  }
+
+  /**
+   * Answers a request from the recording.
+   * @param message - Message from the client
+   * @param _options - Unused
+   * @throws \{TransportError\} When the transport is closed
+   * @public
+   */
+  public async send(message: JSONRPCMessage, _options?: TransportSendOptions): Promise<void> {
+    if (this.isClosed) {
+      throw TransportError.connectionFailed('Replay transport is closed');
+    }
+    if (!isJSONRPCRequest(message)) return;
+
+    const reply = this.nextReply(message.method, message.params);
+    // Deliver asynchronously, like a real server would
+    queueMicrotask(() => {
+      if (!this.isClosed) this.onmessage?.({ ...reply, id: message.id } as JSONRPCMessage);
+    });
+  }
+
+  /**
+   * Closes the transport.
+   * @public
+   */
+  public async close(): Promise<void> {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.onclose?.();
+  }
+
+  private nextReply(method: string, params?: Record<string, unknown>): RecordedReply {
+    const queue = this.replies.get(requestKey(method, params));
+    if (queue?.length) return queue.length > 1 ? queue.shift()! : queue[0];
+    if (method === 'ping') return { jsonrpc: '2.0', result: {} };
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: `No recorded response for ${method} in ${this.options.fixture}`,
+      },
+    };
+  }
+}
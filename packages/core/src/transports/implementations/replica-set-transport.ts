@@ -0,0 +1,383 @@
+import {
+  type Transport,
+  type TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type JSONRPCNotification,
+  type JSONRPCRequest,
+  type MessageExtraInfo,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ServerReplicaStatus } from '@mcp-funnel/models';
+import { logEvent } from '../../logger.js';
+import { ReconnectionManager } from '../../reconnection-manager/index.js';
+import type {
+  PendingSync,
+  Replica,
+  ReplicaSetTransportOptions,
+} from './utils/replica-set-types.js';
+
+export type {
+  LoadBalancingStrategy,
+  ReplicaEndpoint,
+  ReplicaSetTransportOptions,
+} from './utils/replica-set-types.js';
+
+// Requests every replica has to see; only the first response is passed on
+const BROADCAST_METHODS = new Set(['initialize', 'logging/setLevel']);
+
+const DEFAULT_SYNC_TIMEOUT_MS = 30_000;
+
+/**
+ * ReplicaSetTransport presents several interchangeable servers as one.
+ *
+ * `initialize` and `logging/setLevel` go to every connected replica; all other requests
+ * go to one replica, picked round-robin or by fewest requests in flight. Replicas that
+ * (re)connect after the handshake are initialized with the recorded session first; ones that
+ * do not answer it within `syncTimeoutMs` are dropped and retried.
+ * When a replica drops, its requests in flight fail, the others take over, and it is
+ * reconnected with backoff. The transport closes once no replica is connected.
+ * @public
+ * @see file:./recording-transport.ts - Also wraps other transports
+ */
+export class ReplicaSetTransport implements Transport {
+  // Transport interface callbacks
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: Transport['onmessage'];
+
+  private readonly replicas: Replica[];
+  private readonly routed = new Map<RequestId, Replica>();
+  private readonly broadcasts = new Map<RequestId, Set<Replica>>();
+  private readonly serverRequests = new Map<RequestId, { replica: Replica; id: RequestId }>();
+  private readonly syncs = new Map<RequestId, PendingSync>();
+  private session: JSONRPCMessage[] = [];
+  private protocolVersion?: string;
+  private cursor = 0;
+  private nextId = 0;
+  private started = false;
+  private closed = false;
+
+  public constructor(private readonly options: ReplicaSetTransportOptions) {
+    this.replicas = options.replicas.map((replica) => ({
+      ...replica,
+      status: 'disconnected',
+      inFlight: 0,
+    }));
+  }
+
+  /**
+   * Starts all replicas; the ones that fail are retried in the background.
+   * @throws Error when no replica could be started
+   * @public
+   */
+  public async start(): Promise<void> {
+    await Promise.all(this.replicas.map((replica) => this.connect(replica)));
+    if (!this.replicas.some((replica) => replica.status === 'connected')) {
+      const errors = this.replicas.map(({ endpoint, error }) => `${endpoint}: ${error}`);
+      throw new Error(`No replica could be started (${errors.join('; ')})`);
+    }
+    this.started = true;
+    this.replicas
+      .filter((replica) => replica.status === 'disconnected')
+      .forEach((replica) => this.scheduleReconnect(replica));
+  }
+
+  /**
+   * Sends a message to the replica(s) it belongs to.
+   * @param message - Message to send
+   * @param options - Send options, passed on unchanged
+   * @returns Resolves once the message is sent
+   * @throws Error when no replica is connected
+   * @public
+   */
+  public async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCRequest(message)) {
+      this.remember(message);
+      return BROADCAST_METHODS.has(message.method)
+        ? this.broadcast(message, options)
+        : this.route(message, options);
+    }
+    if (isJSONRPCNotification(message)) {
+      this.remember(message);
+      return this.notify(message, options);
+    }
+
+    // Response to a request one of the replicas sent
+    const origin = this.serverRequests.get(message.id);
+    this.serverRequests.delete(message.id);
+    await origin?.replica.transport?.send({ ...message, id: origin.id }, options);
+  }
+
+  /**
+   * Closes all replicas and stops reconnecting them.
+   * @public
+   */
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    const transports: Transport[] = [];
+    for (const replica of this.replicas) {
+      replica.reconnection?.destroy();
+      if (replica.transport) transports.push(replica.transport);
+      replica.transport = undefined;
+      replica.status = 'disconnected';
+    }
+    await Promise.allSettled(transports.map((transport) => transport.close()));
+    this.onclose?.();
+  }
+
+  /**
+   * @param version - Negotiated protocol version, passed on to all replicas
+   * @public
+   */
+  public setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+    this.replicas.forEach((replica) => replica.transport?.setProtocolVersion?.(version));
+  }
+
+  /**
+   * @returns Connection state and load of each replica
+   * @public
+   */
+  public getReplicaStatus(): ServerReplicaStatus[] {
+    return this.replicas.map(({ endpoint, status, inFlight, error }) => ({
+      endpoint,
+      status,
+      inFlight,
+      ...(error && { error }),
+    }));
+  }
+
+  private async connect(replica: Replica): Promise<void> {
+    replica.status = 'connecting';
+    let transport: Transport | undefined;
+    try {
+      transport = await replica.createTransport();
+      const current = transport;
+      replica.transport = current;
+      current.onmessage = (message, extra) => this.receive(replica, message, extra);
+      current.onerror = (error) => this.onerror?.(error);
+      current.onclose = () => {
+        if (replica.transport === current) this.drop(replica, 'Connection closed');
+      };
+
+      await current.start();
+      if (this.protocolVersion) current.setProtocolVersion?.(this.protocolVersion);
+      await this.sync(replica);
+    } catch (error) {
+      if (!transport || replica.transport === transport) {
+        this.drop(replica, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    if (this.closed) {
+      await transport.close();
+      return;
+    }
+    replica.status = 'connected';
+    replica.error = undefined;
+    replica.reconnection?.reset();
+    logEvent('info', 'transport:replica_connected', { endpoint: replica.endpoint });
+  }
+
+  private drop(replica: Replica, error: string): void {
+    const transport = replica.transport;
+    replica.transport = undefined;
+    replica.status = 'disconnected';
+    replica.error = error;
+    this.failPending(replica, error);
+    transport?.close().catch(() => {
+      // Already closed
+    });
+    if (this.closed) return;
+
+    logEvent('warn', 'transport:replica_disconnected', { endpoint: replica.endpoint, error });
+    if (!this.started) return;
+    if (!this.replicas.some((other) => other.status === 'connected')) {
+      void this.close();
+      return;
+    }
+    this.scheduleReconnect(replica);
+  }
+
+  private scheduleReconnect(replica: Replica): void {
+    if (!this.options.reconnection) return;
+    replica.reconnection ??= new ReconnectionManager(this.options.reconnection);
+    replica.reconnection.scheduleReconnection(() => this.connect(replica));
+  }
+
+  /**
+   * Replays the handshake and log level of the session to a (re)connected replica.
+   * @param replica - Replica with a started transport
+   * @throws Error when the replica rejects a replayed request or does not answer in time
+   */
+  private async sync(replica: Replica): Promise<void> {
+    for (const message of this.session) {
+      if (!isJSONRPCRequest(message)) {
+        await replica.transport?.send(message);
+        continue;
+      }
+      const id = `replica-sync-${this.nextId++}`;
+      const timeoutMs = this.options.syncTimeoutMs ?? DEFAULT_SYNC_TIMEOUT_MS;
+      let timer: NodeJS.Timeout | undefined;
+      await new Promise<void>((resolve, reject) => {
+        this.syncs.set(id, { replica, resolve, reject });
+        // A replica that never answers is dropped and retried like a failed connect
+        timer = setTimeout(() => {
+          this.syncs.delete(id);
+          reject(new Error(`No response to replayed ${message.method} within ${timeoutMs}ms`));
+        }, timeoutMs);
+        replica.transport?.send({ ...message, id }).catch(reject);
+      }).finally(() => clearTimeout(timer));
+    }
+  }
+
+  private remember(message: JSONRPCRequest | JSONRPCNotification): void {
+    if (message.method === 'initialize') {
+      this.session = [message];
+    } else if (message.method === 'notifications/initialized') {
+      this.session.push(message);
+    } else if (message.method === 'logging/setLevel') {
+      this.session = this.session.filter((m) => !('method' in m) || m.method !== message.method);
+      this.session.push(message);
+    }
+  }
+
+  private async route(request: JSONRPCRequest, options?: TransportSendOptions): Promise<void> {
+    const replica = this.pick();
+    this.routed.set(request.id, replica);
+    replica.inFlight++;
+    try {
+      await replica.transport!.send(request, options);
+    } catch (error) {
+      this.routed.delete(request.id);
+      replica.inFlight--;
+      throw error;
+    }
+  }
+
+  private async broadcast(request: JSONRPCRequest, options?: TransportSendOptions): Promise<void> {
+    const targets = this.connected();
+    if (!targets.length) throw new Error('No replica is connected');
+    this.broadcasts.set(request.id, new Set(targets));
+    await Promise.any(targets.map((replica) => replica.transport!.send(request, options)));
+  }
+
+  private async notify(
+    notification: JSONRPCNotification,
+    options?: TransportSendOptions,
+  ): Promise<void> {
+    let targets = this.connected();
+    if (notification.method === 'notifications/cancelled') {
+      const requestId = notification.params?.requestId as RequestId;
+      const routed = this.routed.get(requestId);
+      targets = routed ? [routed] : Array.from(this.broadcasts.get(requestId) ?? []);
+      // A cancelled request gets no response, so it is no longer in flight
+      this.routed.delete(requestId);
+      this.broadcasts.delete(requestId);
+      if (routed) routed.inFlight--;
+    }
+    await Promise.allSettled(
+      targets.map((replica) => replica.transport?.send(notification, options)),
+    );
+  }
+
+  private receive(replica: Replica, message: JSONRPCMessage, extra?: MessageExtraInfo): void {
+    if (isJSONRPCRequest(message)) {
+      // Replicas number their requests independently; give each a unique ID upstream
+      const id = `replica-request-${this.nextId++}`;
+      this.serverRequests.set(id, { replica, id: message.id });
+      this.onmessage?.({ ...message, id }, extra);
+      return;
+    }
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this.settle(replica, message, extra);
+      return;
+    }
+    this.onmessage?.(message, extra);
+  }
+
+  private settle(
+    replica: Replica,
+    response: Extract<JSONRPCMessage, { id: RequestId }>,
+    extra?: MessageExtraInfo,
+  ): void {
+    const sync = this.syncs.get(response.id);
+    if (sync) {
+      this.syncs.delete(response.id);
+      if (isJSONRPCError(response)) sync.reject(new Error(response.error.message));
+      else sync.resolve();
+      return;
+    }
+
+    if (this.routed.get(response.id) === replica) {
+      this.routed.delete(response.id);
+      replica.inFlight--;
+      this.onmessage?.(response, extra);
+    } else if (this.broadcasts.get(response.id)?.has(replica)) {
+      this.broadcasts.delete(response.id);
+      this.onmessage?.(response, extra);
+    }
+  }
+
+  /**
+   * Fails the requests a dropped replica will not answer anymore.
+   * @param replica - Dropped replica
+   * @param error - Why it dropped
+   */
+  private failPending(replica: Replica, error: string): void {
+    const fail = (id: RequestId) =>
+      this.onmessage?.({
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: ErrorCode.ConnectionClosed,
+          message: `Replica ${replica.endpoint} disconnected: ${error}`,
+        },
+      });
+
+    for (const [id, target] of Array.from(this.routed)) {
+      if (target !== replica) continue;
+      this.routed.delete(id);
+      fail(id);
+    }
+    replica.inFlight = 0;
+    for (const [id, waiting] of Array.from(this.broadcasts)) {
+      if (!waiting.delete(replica) || waiting.size) continue;
+      this.broadcasts.delete(id);
+      fail(id);
+    }
+    for (const [id, origin] of Array.from(this.serverRequests)) {
+      if (origin.replica === replica) this.serverRequests.delete(id);
+    }
+    for (const [id, sync] of Array.from(this.syncs)) {
+      if (sync.replica !== replica) continue;
+      this.syncs.delete(id);
+      sync.reject(new Error(error));
+    }
+  }
+
+  private connected(): Replica[] {
+    return this.replicas.filter((replica) => replica.status === 'connected');
+  }
+
+  private pick(): Replica {
+    const connected = this.connected();
+    if (!connected.length) throw new Error('No replica is connected');
+
+    // Rotate so that round-robin, and ties under least-busy, move on to the next replica
+    const start = this.cursor++ % connected.length;
+    const ordered = [...connected.slice(start), ...connected.slice(0, start)];
+    if (this.options.strategy !== 'least-busy') return ordered[0];
+    return ordered.reduce((best, replica) => (replica.inFlight < best.inFlight ? replica : best));
+  }
+}
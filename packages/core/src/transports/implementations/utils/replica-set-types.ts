@@ -0,0 +1,62 @@
+/**
+ * Types of the ReplicaSetTransport.
+ * @internal
+ */
+
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { ReconnectionConfig, ServerReplicaStatus } from '@mcp-funnel/models';
+import type { ReconnectionManager } from '../../../reconnection-manager/index.js';
+
+/**
+ * How requests are spread over the connected replicas.
+ * @public
+ */
+export type LoadBalancingStrategy = 'round-robin' | 'least-busy';
+
+/**
+ * One replica of a ReplicaSetTransport.
+ * @public
+ * @see file:../replica-set-transport.ts - ReplicaSetTransport
+ */
+export interface ReplicaEndpoint {
+  /** Label for status and logs, e.g. the replica's URL */
+  endpoint: string;
+  /** Creates a fresh, not yet started transport to the replica */
+  createTransport: () => Promise<Transport>;
+}
+
+/**
+ * Options for the ReplicaSetTransport.
+ * @public
+ */
+export interface ReplicaSetTransportOptions {
+  replicas: ReplicaEndpoint[];
+  /** Routing of requests (default round-robin) */
+  strategy?: LoadBalancingStrategy;
+  /** Backoff for reconnecting dropped replicas; they stay down when omitted */
+  reconnection?: ReconnectionConfig;
+  /** Time a (re)connecting replica has to answer each replayed request (default 30s) */
+  syncTimeoutMs?: number;
+}
+
+/**
+ * State of one replica.
+ * @internal
+ */
+export interface Replica extends ReplicaEndpoint {
+  status: ServerReplicaStatus['status'];
+  transport?: Transport;
+  inFlight: number;
+  error?: string;
+  reconnection?: ReconnectionManager;
+}
+
+/**
+ * Replayed request a (re)connecting replica has yet to answer.
+ * @internal
+ */
+export interface PendingSync {
+  replica: Replica;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
@@ -0,0 +1,74 @@
+/**
+ * Session Fixture Utilities for Record/Replay Transports
+ *
+ * A fixture is a JSONL file with one entry per JSON-RPC message exchanged with a
+ * server, in the order they were sent or received.
+ * @internal
+ */
+
+import { readFileSync } from 'fs';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * One line of a session fixture.
+ * @public
+ */
+export interface SessionFixtureEntry {
+  /** `out` for messages the client sent, `in` for messages it received */
+  dir: 'out' | 'in';
+  message: JSONRPCMessage;
+}
+
+/**
+ * Reads a session fixture.
+ * @param path - Path of the fixture file
+ * @returns Entries in recorded order; empty and malformed lines are skipped
+ * @throws \{Error\} When the file cannot be read
+ * @internal
+ */
+export function readSessionFixture(path: string): SessionFixtureEntry[] {
+  const entries: SessionFixtureEntry[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as SessionFixtureEntry;
+      if ((entry.dir === 'out' || entry.dir === 'in') && entry.message) entries.push(entry);
+    } catch {
+      // A half-written last line of an interrupted recording
+    }
+  }
+  return entries;
+}
+
+/**
+ * Key under which a request's recorded response is looked up.
+ *
+ * `initialize` is keyed by method alone, since client info and capabilities differ
+ * between the recording and the replaying client. Other requests are keyed by method
+ * and params, ignoring `_meta` (progress tokens and the like).
+ * @param method - Request method
+ * @param params - Request params
+ * @returns Lookup key
+ * @internal
+ */
+export function requestKey(method: string, params?: Record<string, unknown>): string {
+  if (method === 'initialize' || !params) return method;
+  const { _meta: _ignored, ...rest } = params;
+  return `${method} ${stableStringify(rest)}`;
+}
+
+/**
+ * @param value - JSON value
+ * @returns JSON with object keys sorted, so equal values always give equal strings
+ * @internal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -10,3 +10,7 @@ export * from './implementations/stdio-client-transport.js';
 export * from './implementations/sse-client-transport.js';
 export * from './implementations/websocket-client-transport.js';
 export * from './implementations/streamable-http-client-transport.js';
+export * from './implementations/recording-transport.js';
+export * from './implementations/replay-client-transport.js';
+export * from './implementations/replica-set-transport.js';
+export type { SessionFixtureEntry } from './implementations/utils/session-fixture.js';
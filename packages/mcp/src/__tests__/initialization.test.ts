@@ -15,6 +15,8 @@ vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
     setRequestHandler: vi.fn(),
     connect: vi.fn(),
     sendToolListChanged: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    getClientCapabilities: vi.fn(),
     notification: vi.fn(),
   })),
 }));
@@ -26,6 +28,9 @@ vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
 vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
   Client: vi.fn(() => ({
     connect: vi.fn(),
+    getServerCapabilities: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    setRequestHandler: vi.fn(),
     listTools: vi.fn(),
     callTool: vi.fn(),
   })),
@@ -102,6 +107,10 @@ describe('MCPProxy', () => {
             tools: {
               listChanged: true,
             },
+            resources: {},
+            prompts: {},
+            completions: {},
+            logging: {},
           },
         },
       );
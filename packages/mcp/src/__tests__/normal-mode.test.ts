@@ -16,6 +16,8 @@ vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
     setRequestHandler: vi.fn(),
     connect: vi.fn(),
     sendToolListChanged: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    getClientCapabilities: vi.fn(),
     notification: vi.fn(),
   })),
 }));
@@ -27,6 +29,9 @@ vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
 vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
   Client: vi.fn(() => ({
     connect: vi.fn(),
+    getServerCapabilities: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    setRequestHandler: vi.fn(),
     listTools: vi.fn(),
     callTool: vi.fn(),
   })),
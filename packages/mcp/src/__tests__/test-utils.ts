@@ -6,11 +6,16 @@ export type MockServer = {
   setRequestHandler: ReturnType<typeof vi.fn>;
   connect: ReturnType<typeof vi.fn>;
   sendToolListChanged: ReturnType<typeof vi.fn>;
+  setNotificationHandler: ReturnType<typeof vi.fn>;
+  getClientCapabilities: ReturnType<typeof vi.fn>;
   notification: ReturnType<typeof vi.fn>;
 } & Server;
 
 export type MockClient = {
   connect: ReturnType<typeof vi.fn>;
+  getServerCapabilities: ReturnType<typeof vi.fn>;
+  setNotificationHandler: ReturnType<typeof vi.fn>;
+  setRequestHandler: ReturnType<typeof vi.fn>;
   listTools: ReturnType<typeof vi.fn>;
   callTool: ReturnType<typeof vi.fn>;
 } & Client;
@@ -25,6 +30,8 @@ export function createMockServer(): MockServer {
     setRequestHandler: vi.fn(),
     connect: vi.fn(),
     sendToolListChanged: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    getClientCapabilities: vi.fn(),
     notification: vi.fn(),
   } as MockServer;
 }
@@ -37,6 +44,9 @@ export function createMockServer(): MockServer {
 export function createMockClient(): MockClient {
   return {
     connect: vi.fn(),
+    getServerCapabilities: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    setRequestHandler: vi.fn(),
     listTools: vi.fn().mockResolvedValue({
       tools: [
         {
@@ -15,6 +15,8 @@ vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
     setRequestHandler: vi.fn(),
     connect: vi.fn(),
     sendToolListChanged: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    getClientCapabilities: vi.fn(),
     notification: vi.fn(),
   })),
 }));
@@ -26,6 +28,9 @@ vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
 vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
   Client: vi.fn(() => ({
     connect: vi.fn(),
+    getServerCapabilities: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    setRequestHandler: vi.fn(),
     listTools: vi.fn(),
     callTool: vi.fn(),
   })),
@@ -110,10 +115,14 @@ describe('MCPProxy', () => {
         {},
       );
 
-      expect(mockClient.callTool).toHaveBeenCalledWith({
-        name: 'test_tool',
-        arguments: { input: 'test' },
-      });
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        {
+          name: 'test_tool',
+          arguments: { input: 'test' },
+        },
+        undefined,
+        expect.any(Object),
+      );
       expect(result).toEqual({
         content: [{ type: 'text', text: 'Tool executed' }],
       });
@@ -0,0 +1,218 @@
+import { existsSync } from 'fs';
+import { appendFile, mkdir, rename, rm, stat } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { logEvent } from '@mcp-funnel/core';
+import { getUserDir } from '../config-loader.js';
+import { limitSize, redactSecrets } from './redaction.js';
+import type { AuditCallSource, AuditLogSettings, AuditRecord } from './types.js';
+export type { AuditCallSource, AuditLogSettings, AuditRecord } from './types.js';
+export { redactSecrets, limitSize, REDACTED } from './redaction.js';
+export { queryAuditLog, parseTimeArg, type AuditQuery } from './query.js';
+
+/**
+ * Identity of a call, as passed to {@link AuditLog.record}.
+ * @public
+ */
+export interface AuditCallInfo {
+  tool: string;
+  server: string;
+  source: AuditCallSource;
+  client?: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Resolves the `auditLog` setting.
+ * @param config - Proxy configuration
+ * @param configPath - Path of the config file, for resolving a relative `path`
+ * @returns Settings with defaults applied, or undefined when the audit log is off
+ * @public
+ */
+export function resolveAuditLogSettings(
+  config: ProxyConfig,
+  configPath: string,
+): AuditLogSettings | undefined {
+  const setting = config.auditLog;
+  if (!setting) return undefined;
+  const options = typeof setting === 'object' ? setting : {};
+  return {
+    path: options.path
+      ? resolve(dirname(configPath), options.path)
+      : join(getUserDir(), 'audit', 'tool-calls.jsonl'),
+    maxFieldChars: options.maxFieldChars ?? 2000,
+    captureResults: options.captureResults ?? true,
+    maxFileBytes: options.maxFileBytes ?? 10 * 1024 * 1024,
+    maxFiles: options.maxFiles ?? 5,
+    redactKeys: options.redactKeys ?? [],
+  };
+}
+
+/**
+ * Lists the log file and its rotated predecessors.
+ * @param settings - Audit log settings
+ * @returns Existing files, oldest first
+ * @public
+ */
+export function listAuditLogFiles(settings: AuditLogSettings): string[] {
+  const rotated = Array.from({ length: settings.maxFiles }, (_, i) => `${settings.path}.${i + 1}`);
+  return [...rotated.reverse(), settings.path].filter((file) => existsSync(file));
+}
+
+/**
+ * Writes one JSONL record per tool call.
+ *
+ * Backend, command and composite calls are recorded by executeTool, core tool calls by
+ * the `tools/call` handler. The config object is read on every call, so hot-reloaded
+ * settings apply to the next call. Writes are queued, so records of one process never
+ * interleave and rotation never races an append; a failing write is logged and does not
+ * fail the call.
+ * @public
+ * @see file:../utils/tool-executor.ts - executeTool
+ * @see file:../commands/audit.ts - `mcp-funnel audit`
+ */
+export class AuditLog {
+  private writes: Promise<void> = Promise.resolve();
+
+  public constructor(
+    private readonly config: ProxyConfig,
+    private readonly configPath: string,
+  ) {}
+
+  /**
+   * @returns True when the `auditLog` setting is on
+   * @public
+   */
+  public get enabled(): boolean {
+    return resolveAuditLogSettings(this.config, this.configPath) !== undefined;
+  }
+
+  /**
+   * Runs a call and records its outcome.
+   * @param info - Tool, source and arguments of the call
+   * @param call - Performs the call
+   * @returns The call's result
+   * @throws The call's error, after recording it
+   * @public
+   */
+  public async record(
+    info: AuditCallInfo,
+    call: () => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const settings = resolveAuditLogSettings(this.config, this.configPath);
+    if (!settings) return call();
+
+    const started = new Date();
+    const base = {
+      ts: started.toISOString(),
+      tool: info.tool,
+      server: info.server,
+      source: info.source,
+      ...(info.client && { client: info.client }),
+      args: limitSize(redactSecrets(info.args ?? {}, settings.redactKeys), settings.maxFieldChars),
+    };
+    try {
+      const result = await call();
+      await this.write(settings, {
+        ...base,
+        durationMs: Date.now() - started.getTime(),
+        status: result.isError ? 'error' : 'ok',
+        ...describeResult(result, settings),
+      });
+      return result;
+    } catch (error) {
+      await this.write(settings, {
+        ...base,
+        durationMs: Date.now() - started.getTime(),
+        status: 'exception',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a record once earlier writes have finished.
+   * @param settings - Audit log settings
+   * @param record - Record to append
+   * @returns Promise settling when the record is written or the write failed
+   * @internal
+   */
+  private write(settings: AuditLogSettings, record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    this.writes = this.writes.then(async () => {
+      try {
+        await mkdir(dirname(settings.path), { recursive: true });
+        const size = await fileSize(settings.path);
+        if (size > 0 && size + Buffer.byteLength(line) > settings.maxFileBytes) {
+          await rotate(settings);
+        }
+        await appendFile(settings.path, line, { encoding: 'utf8' });
+      } catch (error) {
+        logEvent('warn', 'audit:write_failed', {
+          path: settings.path,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return this.writes;
+  }
+}
+
+/**
+ * @param result - Tool result
+ * @param settings - Audit log settings
+ * @returns Size of the result text and, with `captureResults`, the redacted text itself
+ * @internal
+ */
+function describeResult(
+  result: CallToolResult,
+  settings: AuditLogSettings,
+): Pick<AuditRecord, 'resultChars' | 'result'> {
+  const text = (result.content ?? [])
+    .flatMap((item) => (item.type === 'text' ? [item.text] : []))
+    .join('\n');
+  if (!settings.captureResults) return { resultChars: text.length };
+  const redacted = redactSecrets(text, settings.redactKeys) as string;
+  return {
+    resultChars: text.length,
+    result:
+      redacted.length > settings.maxFieldChars
+        ? `${redacted.slice(0, settings.maxFieldChars)}…`
+        : redacted,
+  };
+}
+
+/**
+ * @param path - File path
+ * @returns Size of the file, 0 when it does not exist
+ * @internal
+ */
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Shifts `file.1` to `file.2` and so on, dropping the oldest, then moves the log to `file.1`.
+ * @param settings - Audit log settings
+ * @internal
+ */
+async function rotate(settings: AuditLogSettings): Promise<void> {
+  const { path, maxFiles } = settings;
+  if (maxFiles === 0) {
+    await rm(path, { force: true });
+    return;
+  }
+  await rm(`${path}.${maxFiles}`, { force: true });
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    await rename(`${path}.${i}`, `${path}.${i + 1}`).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+  }
+  await rename(path, `${path}.1`);
+}
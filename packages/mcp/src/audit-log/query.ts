@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import { matchesPattern } from '../utils/pattern-matcher.js';
+import type { AuditRecord } from './types.js';
+
+/**
+ * Filter for {@link queryAuditLog}; all given criteria must match.
+ * @public
+ */
+export interface AuditQuery {
+  /** Tool name or pattern, e.g. `github__*` */
+  tool?: string;
+  server?: string;
+  since?: Date;
+  until?: Date;
+  /** Only calls that returned an error result or threw */
+  errorsOnly?: boolean;
+  /** Return only the newest records */
+  limit?: number;
+}
+
+/**
+ * Units accepted by {@link parseTimeArg}.
+ * @internal
+ */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parses a time given on the command line.
+ * @param value - Duration before now (`30m`, `2h`, `7d`) or a date (`2025-01-31`, ISO timestamp)
+ * @param now - Reference time for durations
+ * @returns Parsed time
+ * @throws Error when the value is neither a duration nor a date
+ * @public
+ */
+export function parseTimeArg(value: string, now: number = Date.now()): Date {
+  const duration = /^(\d+)([smhd])$/.exec(value.trim());
+  if (duration) return new Date(now - Number(duration[1]) * DURATION_UNITS[duration[2]]);
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}": use a duration like 2h or 7d, or a date`);
+  }
+  return date;
+}
+
+/**
+ * Reads and filters audit records.
+ * @param files - Log files, oldest first (see listAuditLogFiles)
+ * @param query - Filter
+ * @returns Matching records, oldest first; unreadable lines are skipped
+ * @public
+ */
+export function queryAuditLog(files: string[], query: AuditQuery = {}): AuditRecord[] {
+  const matches: AuditRecord[] = [];
+  for (const file of files) {
+    for (const line of readFileSync(file, 'utf8').split('\n')) {
+      const record = parseRecord(line);
+      if (record && matchesQuery(record, query)) matches.push(record);
+    }
+  }
+  // slice(-0) would return every record
+  return query.limit !== undefined
+    ? matches.slice(Math.max(0, matches.length - query.limit))
+    : matches;
+}
+
+/**
+ * @param line - One line of a log file
+ * @returns The record, or undefined for empty or malformed lines
+ * @internal
+ */
+function parseRecord(line: string): AuditRecord | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const record = JSON.parse(line) as AuditRecord;
+    return typeof record.tool === 'string' && typeof record.ts === 'string' ? record : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @param record - Audit record
+ * @param query - Filter
+ * @returns True when the record matches all given criteria
+ * @internal
+ */
+function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+  const ts = new Date(record.ts).getTime();
+  return (
+    (!query.tool || matchesPattern(record.tool, query.tool)) &&
+    (!query.server || record.server === query.server) &&
+    (!query.since || ts >= query.since.getTime()) &&
+    (!query.until || ts <= query.until.getTime()) &&
+    (!query.errorsOnly || record.status !== 'ok')
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Argument keys whose values are always redacted. Matched against whole words of a key, so
+ * `githubToken`, `api_key` and `Set-Cookie` are redacted but `max_tokens` is not.
+ * @internal
+ */
+const SECRET_KEYS = [
+  'token',
+  'secret',
+  'password',
+  'passwd',
+  'apikey',
+  'authorization',
+  'cookie',
+  'credential',
+  'credentials',
+  'privatekey',
+];
+
+/**
+ * Values that look like credentials regardless of their key.
+ * @internal
+ */
+const SECRET_VALUES = [
+  /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+  /\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})\b/g,
+  /\b(sk|pk|rk)[-_](live_|test_)?[A-Za-z0-9_-]{16,}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+];
+
+/**
+ * Replacement for redacted values.
+ * @public
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Replaces secrets in a value: values under secret-looking keys, and strings that look
+ * like bearer tokens or well-known API keys.
+ * @param value - Arguments or other data to record
+ * @param extraKeys - Additional key names from the `redactKeys` setting
+ * @returns Redacted copy of the value
+ * @public
+ */
+export function redactSecrets(value: unknown, extraKeys: string[] = []): unknown {
+  const keys = new Set([...SECRET_KEYS, ...extraKeys.map((key) => keyWords(key).join(''))]);
+  const redact = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      return SECRET_VALUES.reduce((text, pattern) => text.replace(pattern, REDACTED), node);
+    }
+    if (Array.isArray(node)) return node.map(redact);
+    if (!node || typeof node !== 'object') return node;
+    return Object.fromEntries(
+      Object.entries(node).map(([key, item]) => [
+        key,
+        isSecretKey(key, keys) ? REDACTED : redact(item),
+      ]),
+    );
+  };
+  return redact(value);
+}
+
+/**
+ * @param key - Object key, in any of camelCase, snake_case or kebab-case
+ * @returns Lowercase words of the key
+ * @internal
+ */
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * @param key - Object key
+ * @param secrets - Secret key names, lowercase and without separators
+ * @returns True when consecutive words of the key spell a secret key name
+ * @internal
+ */
+function isSecretKey(key: string, secrets: Set<string>): boolean {
+  const words = keyWords(key);
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= words.length; end++) {
+      if (secrets.has(words.slice(start, end).join(''))) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Limits the size of a captured value.
+ * @param value - Value to record
+ * @param maxChars - Maximum length of its JSON form
+ * @returns The value when small enough, otherwise a JSON preview ending in `…`
+ * @public
+ */
+export function limitSize(value: unknown, maxChars: number): unknown {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= maxChars) return value;
+  return `${json.slice(0, maxChars)}…`;
+}
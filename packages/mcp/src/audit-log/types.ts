@@ -0,0 +1,46 @@
+import type { ToolCallSource } from '../tool-middleware/index.js';
+
+/**
+ * Where a call entered the proxy; `core` marks calls of the proxy's own core tools.
+ * @public
+ */
+export type AuditCallSource = ToolCallSource | 'core';
+
+/**
+ * One line of the audit log.
+ * @public
+ */
+export interface AuditRecord {
+  /** ISO timestamp of the start of the call */
+  ts: string;
+  /** Prefixed tool name, e.g. `github__create_issue` */
+  tool: string;
+  server: string;
+  source: AuditCallSource;
+  /** MCP client as `name/version`, when known */
+  client?: string;
+  durationMs: number;
+  /** `error` for error results, `exception` when the call threw */
+  status: 'ok' | 'error' | 'exception';
+  /** Arguments with secrets redacted; a string preview when they were too large */
+  args?: unknown;
+  /** Total length of the result's text content */
+  resultChars?: number;
+  /** Result text, cut to `maxFieldChars` */
+  result?: string;
+  /** Message of the thrown error */
+  error?: string;
+}
+
+/**
+ * Effective audit log settings.
+ * @public
+ */
+export interface AuditLogSettings {
+  path: string;
+  maxFieldChars: number;
+  captureResults: boolean;
+  maxFileBytes: number;
+  maxFiles: number;
+  redactKeys: string[];
+}
@@ -1,11 +1,18 @@
 import { Command } from 'commander';
-import { MCPProxy, getUserBasePath, resolveMergedProxyConfig } from './index.js';
+import {
+  MCPProxy,
+  getUserBasePath,
+  resolveMergedProxyConfig,
+  watchProxyConfig,
+  type ConfigWatcher,
+} from './index.js';
 import { mkdirSync, existsSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { logError, logEvent } from '@mcp-funnel/core';
 import { normalizeServers } from './utils/normalizeServers.js';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { AuditCommandOptions } from './commands/audit.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const LOG_DIR = resolve(__dirname, '../.logs');
@@ -124,6 +131,21 @@ program
     await runInit();
   });
 
+program
+  .command('audit [configPath]')
+  .description('Query the tool call audit log')
+  .option('--tool <pattern>', 'Only calls of matching tools, e.g. "github__*"')
+  .option('--server <name>', 'Only calls of tools from this server')
+  .option('--since <time>', 'Only calls after this time, e.g. 2h, 7d or 2025-01-31')
+  .option('--until <time>', 'Only calls before this time')
+  .option('--errors', 'Only calls that failed')
+  .option('--limit <count>', 'Show the newest calls only', '50')
+  .option('--json', 'Print the raw JSONL records')
+  .action(async (configPath: string | undefined, options: AuditCommandOptions) => {
+    const { runAudit } = await import('./commands/audit.js');
+    await runAudit(configPath ?? '.mcp-funnel.json', options);
+  });
+
 program
   .argument('[configPath]', 'Path to MCP Funnel configuration file', '.mcp-funnel.json')
   .action(async (configPathArg: string) => {
@@ -165,11 +187,15 @@ async function startProxy(configPathArg: string): Promise<void> {
   logEvent('info', 'cli:proxy_starting');
   await proxy.start();
   logEvent('info', 'cli:proxy_started');
+
+  // Apply edits to the project or user config without restarting
+  configWatcher = watchProxyConfig(actualConfigPath, (next) => proxy.reloadConfig(next));
 }
 
 // Setup shutdown handlers
 let isShuttingDown = false;
 let proxyInstance: MCPProxy | undefined;
+let configWatcher: ConfigWatcher | undefined;
 /**
  * Handles graceful shutdown of the MCP proxy server.
  *
@@ -183,6 +209,7 @@ async function handleShutdown(signal: string, proxy?: MCPProxy) {
   isShuttingDown = true;
 
   logEvent('info', `cli:shutdown`, { signal, exit_code: 0 });
+  configWatcher?.close();
 
   if (proxy) {
     await proxy.shutdown();
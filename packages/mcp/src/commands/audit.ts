@@ -0,0 +1,101 @@
+/**
+ * `mcp-funnel audit` - query the tool call audit log
+ */
+
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { getUserBasePath, resolveMergedProxyConfig } from '../config-loader.js';
+import {
+  listAuditLogFiles,
+  parseTimeArg,
+  queryAuditLog,
+  resolveAuditLogSettings,
+  type AuditRecord,
+} from '../audit-log/index.js';
+
+/**
+ * Options of `mcp-funnel audit`, as parsed by commander.
+ * @public
+ */
+export interface AuditCommandOptions {
+  tool?: string;
+  server?: string;
+  since?: string;
+  until?: string;
+  errors?: boolean;
+  limit?: string;
+  json?: boolean;
+}
+
+/**
+ * Prints audit records matching the options.
+ *
+ * The log location comes from the `auditLog` setting of the given config; without a
+ * config, the default location is used.
+ * @param configPath - Path to the project configuration file
+ * @param options - Filters and output format
+ * @throws Error when a time or limit option is invalid
+ * @public
+ */
+export async function runAudit(configPath: string, options: AuditCommandOptions): Promise<void> {
+  const resolvedPath = resolve(process.cwd(), configPath);
+  const config = loadConfig(resolvedPath);
+  // An audit log that is switched off now may still have records from earlier runs
+  const settings = resolveAuditLogSettings(
+    { ...config, auditLog: config.auditLog || true },
+    resolvedPath,
+  )!;
+
+  const files = listAuditLogFiles(settings);
+  if (files.length === 0) {
+    console.error(`No audit log found at ${settings.path}`);
+    return;
+  }
+
+  const limit = options.limit !== undefined ? Number(options.limit) : 50;
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`Invalid limit "${options.limit}"`);
+  }
+
+  const records = queryAuditLog(files, {
+    tool: options.tool,
+    server: options.server,
+    since: options.since ? parseTimeArg(options.since) : undefined,
+    until: options.until ? parseTimeArg(options.until) : undefined,
+    errorsOnly: options.errors,
+    limit,
+  });
+
+  for (const record of records) {
+    process.stdout.write(`${options.json ? JSON.stringify(record) : formatRecord(record)}\n`);
+  }
+  if (!options.json) console.error(`${records.length} calls`);
+}
+
+/**
+ * @param configPath - Absolute path of the project config
+ * @returns The merged config, or an empty one when no config file exists
+ * @internal
+ */
+function loadConfig(configPath: string): ProxyConfig {
+  if (!existsSync(configPath) && !existsSync(getUserBasePath())) return { servers: [] };
+  return resolveMergedProxyConfig(configPath).config;
+}
+
+/**
+ * @param record - Audit record
+ * @returns One line: time, status, duration, tool, source and client
+ * @internal
+ */
+function formatRecord(record: AuditRecord): string {
+  const origin = record.client ? `${record.source} ${record.client}` : record.source;
+  const error = record.error ? `  ${record.error}` : '';
+  return [
+    record.ts,
+    record.status.padEnd(9),
+    `${record.durationMs}ms`.padStart(8),
+    record.tool,
+    `[${origin}]${error}`,
+  ].join('  ');
+}
@@ -246,6 +246,7 @@ export function createDefaultFunnelConfig(): Record<string, unknown> {
       'discover_tools_by_words',
       'get_tool_schema',
       'load_toolset',
+      'unload_toolset',
       'bridge_tool_request',
     ],
   };
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../tool-registry/index.js';
+import { executeTool } from '../utils/tool-executor.js';
+import { ToolCallLimiter } from '../utils/execution-limits.js';
+import { renderTemplate } from './index.js';
+
+const ok = (text: string): CallToolResult => ({ content: [{ type: 'text', text }] });
+
+describe('renderTemplate', () => {
+  const scope = {
+    inputs: { issue: 42, repo: 'acme/web' },
+    steps: { issue: { text: '{"title":"Crash","labels":["bug"]}', json: { title: 'Crash' } } },
+  };
+
+  it('should keep the type of whole-string expressions and interpolate the rest', () => {
+    expect(
+      renderTemplate(
+        {
+          number: '{{inputs.issue}}',
+          title: 'Re: {{ steps.issue.json.title }} in {{inputs.repo}}',
+          nested: ['{{steps.issue.json}}', '{{inputs.missing}}', 7],
+        },
+        scope,
+      ),
+    ).toEqual({
+      number: 42,
+      title: 'Re: Crash in acme/web',
+      nested: [{ title: 'Crash' }, undefined, 7],
+    });
+  });
+});
+
+describe('CompositeTool', () => {
+  let config: ProxyConfig;
+  let registry: ToolRegistry;
+  let callTool: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    config = {
+      servers: [],
+      compositeTools: {
+        triage_issue: {
+          description: 'Fetch an issue and comment on it',
+          inputs: {
+            number: { type: 'number', description: 'Issue number' },
+            comment: { type: 'string', default: 'Looking into it' },
+          },
+          steps: [
+            { id: 'issue', tool: 'github__get_issue', args: { number: '{{inputs.number}}' } },
+            {
+              tool: 'github__add_comment',
+              args: {
+                number: '{{inputs.number}}',
+                body: '{{inputs.comment}}: {{steps.issue.json.title}}',
+              },
+            },
+          ],
+          output: 'Commented on "{{steps.issue.json.title}}" ({{steps.step2.text}})',
+        },
+      },
+    };
+    registry = new ToolRegistry(config);
+    callTool = vi.fn(async ({ name }: { name: string }) =>
+      name === 'get_issue' ? ok('{"title":"Crash"}') : ok('comment 7'),
+    );
+    for (const name of ['get_issue', 'add_comment']) {
+      registry.registerDiscoveredTool({
+        fullName: `github__${name}`,
+        originalName: name,
+        serverName: 'github',
+        definition: { name, inputSchema: { type: 'object' } },
+        client: { callTool } as unknown as Client,
+      });
+    }
+  });
+
+  it('should register composite tools with a generated inputSchema', () => {
+    const tool = registry.getToolState('funnel__triage_issue');
+
+    expect(tool?.serverName).toBe('funnel');
+    expect(tool?.definition?.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        number: { type: 'number', description: 'Issue number' },
+        comment: { type: 'string', default: 'Looking into it' },
+      },
+      required: ['number'],
+    });
+  });
+
+  it('should run the steps with arguments rendered from inputs and earlier results', async () => {
+    const result = await executeTool(registry.getToolState('funnel__triage_issue')!, {
+      number: 42,
+    });
+
+    expect(callTool).toHaveBeenLastCalledWith(
+      { name: 'add_comment', arguments: { number: 42, body: 'Looking into it: Crash' } },
+      undefined,
+      expect.anything(),
+    );
+    expect(result).toEqual(ok('Commented on "Crash" (comment 7)'));
+  });
+
+  it('should stop at the first failing step', async () => {
+    callTool.mockResolvedValueOnce({ ...ok('Not found'), isError: true });
+
+    const result = await executeTool(registry.getToolState('funnel__triage_issue')!, {
+      number: 1,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({
+      text: 'funnel__triage_issue: step issue (github__get_issue) failed',
+    });
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only apply concurrency limits to the steps, not to the composite call', async () => {
+    config.toolLimits = { '*': { maxConcurrent: 1 } };
+    const limiter = new ToolCallLimiter(config, []);
+    const composite = registry.getToolState('funnel__triage_issue')!;
+
+    const results = await Promise.all([
+      executeTool(composite, { number: 1 }, { limiter }),
+      executeTool(composite, { number: 2 }, { limiter }),
+    ]);
+
+    expect(results).toEqual([
+      ok('Commented on "Crash" (comment 7)'),
+      ok('Commented on "Crash" (comment 7)'),
+    ]);
+    expect(callTool).toHaveBeenCalledTimes(4);
+  });
+
+  it('should apply timeouts matching the composite tool to the whole call', async () => {
+    config.toolLimits = { 'funnel__*': { timeoutMs: 50 } };
+    let stepSignal: AbortSignal | undefined;
+    callTool.mockImplementation(
+      (_params: unknown, _schema: unknown, { signal }: { signal: AbortSignal }) => {
+        stepSignal = signal;
+        return new Promise(() => {});
+      },
+    );
+
+    const result = await executeTool(
+      registry.getToolState('funnel__triage_issue')!,
+      { number: 1 },
+      { limiter: new ToolCallLimiter(config, []) },
+    );
+
+    expect(result).toMatchObject({ isError: true });
+    expect(result.content[0]).toMatchObject({
+      text: expect.stringContaining('timed out after 50ms'),
+    });
+    expect(stepSignal?.aborted).toBe(true);
+  });
+
+  it('should reject missing inputs and follow config reloads', async () => {
+    const result = await executeTool(registry.getToolState('funnel__triage_issue')!, {});
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('"number"') });
+
+    config.compositeTools = {};
+    registry.applyConfigFilters();
+    expect(registry.getToolState('funnel__triage_issue')).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { CompositeToolZod } from '@mcp-funnel/schemas';
+import type { ToolState } from '../tool-registry/types.js';
+import { executeTool, type ToolExecutionOptions } from '../utils/tool-executor.js';
+import { renderTemplate, type TemplateScope } from './templates.js';
+export { renderTemplate, type TemplateScope } from './templates.js';
+
+/**
+ * Server name of composite tools; their prefixed names are `funnel__<name>`.
+ * @public
+ */
+export const COMPOSITE_TOOL_SERVER = 'funnel';
+
+/**
+ * A tool from the `compositeTools` config setting.
+ *
+ * Its steps call other discovered tools through {@link executeTool}, so toolOverrides,
+ * middleware and call limits apply to every step. Step results are never truncated;
+ * only the composite's own result is.
+ * @public
+ * @see file:../tool-registry/index.ts - Registers composite tools
+ */
+export class CompositeTool {
+  /**
+   * @param name - Name from the config, without the `funnel__` prefix
+   * @param spec - Config entry
+   * @param lookup - Finds step tools by prefixed name or alias
+   */
+  public constructor(
+    public readonly name: string,
+    private readonly spec: CompositeToolZod,
+    private readonly lookup: (name: string) => ToolState | undefined,
+  ) {}
+
+  /**
+   * @returns Tool definition with an inputSchema generated from `inputs`
+   * @public
+   */
+  public get definition(): Tool {
+    const inputs = Object.entries(this.spec.inputs ?? {});
+    return {
+      name: this.name,
+      description: this.spec.description,
+      inputSchema: {
+        type: 'object',
+        properties: Object.fromEntries(
+          inputs.map(([name, input]) => [
+            name,
+            {
+              ...(input.type && { type: input.type }),
+              ...(input.description && { description: input.description }),
+              ...(input.default !== undefined && { default: input.default }),
+            },
+          ]),
+        ),
+        required: inputs
+          .filter(([, input]) => input.required !== false && input.default === undefined)
+          .map(([name]) => name),
+      },
+    };
+  }
+
+  /**
+   * Runs all steps in order. The first failing step ends the run.
+   * @param args - Arguments of the composite call
+   * @param options - Options of the composite call, passed on to every step
+   * @returns Rendered `output`, or the last step's result
+   * @throws Error when a step call throws, e.g. because it was aborted
+   * @public
+   */
+  public async execute(
+    args: Record<string, unknown>,
+    options: ToolExecutionOptions,
+  ): Promise<CallToolResult> {
+    const scope: TemplateScope = { inputs: { ...args }, steps: {} };
+    for (const [name, input] of Object.entries(this.spec.inputs ?? {})) {
+      if (scope.inputs[name] !== undefined) continue;
+      if (input.default !== undefined) {
+        scope.inputs[name] = input.default;
+      } else if (input.required !== false) {
+        return this.errorResult(`missing required input "${name}"`);
+      }
+    }
+
+    let result: CallToolResult = { content: [] };
+    for (const [index, step] of this.spec.steps.entries()) {
+      const id = step.id ?? `step${index + 1}`;
+      const tool = this.lookup(step.tool);
+      if (!tool?.discovered || tool.composite) {
+        return this.errorResult(`step ${id} calls unknown tool ${step.tool}`);
+      }
+
+      const stepArgs = renderTemplate(step.args ?? {}, scope) as Record<string, unknown>;
+      result = await executeTool(tool, stepArgs, { ...options, resultStore: undefined });
+      if (result.isError) {
+        return {
+          ...result,
+          content: [
+            { type: 'text', text: `funnel__${this.name}: step ${id} (${step.tool}) failed` },
+            ...result.content,
+          ],
+        };
+      }
+      scope.steps[id] = toStepOutput(result);
+    }
+
+    if (this.spec.output === undefined) return result;
+    const output = renderTemplate(this.spec.output, scope);
+    return {
+      content: [
+        { type: 'text', text: typeof output === 'string' ? output : JSON.stringify(output) },
+      ],
+    };
+  }
+
+  private errorResult(message: string): CallToolResult {
+    return { content: [{ type: 'text', text: `funnel__${this.name}: ${message}` }], isError: true };
+  }
+}
+
+/**
+ * @param result - Result of a step
+ * @returns Joined text content, and the structured content or text parsed as JSON
+ * @internal
+ */
+function toStepOutput(result: CallToolResult): TemplateScope['steps'][string] {
+  const text = (result.content ?? [])
+    .flatMap((item) => (item.type === 'text' ? [item.text] : []))
+    .join('\n');
+  if (result.structuredContent !== undefined) return { text, json: result.structuredContent };
+  try {
+    return { text, json: JSON.parse(text) };
+  } catch {
+    return { text };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Values templates can refer to: `inputs.<name>` and `steps.<id>.text|json`.
+ * @public
+ */
+export interface TemplateScope {
+  inputs: Record<string, unknown>;
+  steps: Record<string, { text: string; json?: unknown }>;
+}
+
+/**
+ * Matches one `{{ path }}` expression.
+ * @internal
+ */
+const EXPRESSION = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Replaces `{{ path }}` expressions in a value.
+ *
+ * A string consisting of a single expression is replaced by the referenced value
+ * itself, so numbers, objects and arrays keep their type. Expressions embedded in
+ * longer strings are interpolated; non-string values are inserted as JSON and
+ * missing values as an empty string. Objects and arrays are rendered recursively.
+ * @param value - Template, e.g. step arguments from the config
+ * @param scope - Inputs and results of previous steps
+ * @returns Rendered copy of the value
+ * @public
+ */
+export function renderTemplate(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value === 'string') return renderString(value, scope);
+  if (Array.isArray(value)) return value.map((item) => renderTemplate(item, scope));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * @param text - String that may contain expressions
+ * @param scope - Inputs and results of previous steps
+ * @returns Referenced value for a single expression, otherwise the interpolated string
+ * @internal
+ */
+function renderString(text: string, scope: TemplateScope): unknown {
+  const whole = /^\{\{\s*([^{}]+?)\s*\}\}$/.exec(text);
+  if (whole) return lookupPath(scope, whole[1]);
+
+  return text.replace(EXPRESSION, (_match, path: string) => {
+    const value = lookupPath(scope, path);
+    if (value === undefined) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * @param scope - Inputs and results of previous steps
+ * @param path - Dot-separated path; array elements are addressed by index (`json.items.0`)
+ * @returns Value at the path, or undefined when any part is missing
+ * @internal
+ */
+function lookupPath(scope: TemplateScope, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (!value || typeof value !== 'object') return undefined;
+    return Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }, scope);
+}
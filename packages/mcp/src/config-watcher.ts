@@ -0,0 +1,89 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { getUserBasePath, resolveMergedProxyConfig } from './config-loader.js';
+
+/**
+ * Editors often write a file in several steps; changes within this window are coalesced.
+ * @internal
+ */
+const CONFIG_RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * Handle returned by {@link watchProxyConfig}.
+ * @public
+ */
+export interface ConfigWatcher {
+  /** Stops watching */
+  close(): void;
+}
+
+/**
+ * Watches the project config and the user base config for changes.
+ *
+ * After a change, the merged config is re-read and validated with ProxyConfigSchema.
+ * Valid configs are passed to `onChange`; invalid edits (broken JSON, schema errors)
+ * are logged and ignored, so the running config stays in effect. Reloads never overlap.
+ *
+ * The containing directories are watched rather than the files, because many editors
+ * replace files on save. Directories that do not exist are skipped.
+ * @param projectConfigPath - Path to the project config file
+ * @param onChange - Applies a new, validated config
+ * @param debounceMs - Quiet period before reloading
+ * @returns Watcher handle
+ * @public
+ * @see file:./proxy/util/config-reload.ts - Applies the new config to the running proxy
+ */
+export function watchProxyConfig(
+  projectConfigPath: string,
+  onChange: (config: ProxyConfig) => Promise<unknown>,
+  debounceMs: number = CONFIG_RELOAD_DEBOUNCE_MS,
+): ConfigWatcher {
+  const files = [resolve(projectConfigPath), getUserBasePath()];
+  const watchers: FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let reloading: Promise<void> = Promise.resolve();
+
+  const reload = async () => {
+    let config: ProxyConfig;
+    try {
+      config = resolveMergedProxyConfig(projectConfigPath).config;
+    } catch (error) {
+      console.error('[config] Ignoring invalid configuration change, keeping running config');
+      logError('config-reload-invalid', error, { files });
+      return;
+    }
+
+    try {
+      await onChange(config);
+      logEvent('info', 'config:reloaded', { files });
+    } catch (error) {
+      logError('config-reload', error, { files });
+    }
+  };
+
+  for (const dir of new Set(files.map((file) => dirname(file)))) {
+    if (!existsSync(dir)) continue;
+    const names = files.filter((file) => dirname(file) === dir).map((file) => basename(file));
+
+    const watcher = watch(dir, (_event, filename) => {
+      if (!filename || !names.includes(filename.toString())) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        reloading = reloading.then(reload);
+      }, debounceMs);
+    });
+    watcher.on('error', (error) => logError('config-watch', error, { dir }));
+    watchers.push(watcher);
+  }
+
+  return {
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+  };
+}
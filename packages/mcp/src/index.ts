@@ -13,6 +13,12 @@ export {
   type ConfigPaths,
   type MergedProxyConfigResult,
 } from './config-loader.js';
+export { watchProxyConfig, type ConfigWatcher } from './config-watcher.js';
+export type {
+  ToolCallContext,
+  ToolCallMiddleware,
+  ToolCallSource,
+} from './tool-middleware/index.js';
 
 // Default export for backward compatibility
 export { MCPProxy } from './proxy/mcp-proxy.js';
@@ -0,0 +1,87 @@
+import type { Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { passesPatternFilters } from '../utils/pattern-matcher.js';
+import type { PromptState, RegisterServerPromptsParams } from './types.js';
+export type { PromptState } from './types.js';
+
+/**
+ * Aggregates prompts from all connected backend servers.
+ *
+ * Prompts are prefixed with their server name like tools (`github__review_pr`) and
+ * filtered with `exposePrompts` / `hidePrompts` against that prefixed name.
+ * @public
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptState>();
+  private config: ProxyConfig;
+
+  public constructor(config: ProxyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Replaces everything known about a server's prompts with a fresh discovery result.
+   * @param params - Server name, client and the discovered prompts
+   */
+  public registerServerPrompts(params: RegisterServerPromptsParams): void {
+    const { serverName, client } = params;
+    this.removePromptsFromServer(serverName);
+
+    for (const prompt of params.prompts) {
+      const fullName = `${serverName}__${prompt.name}`;
+      this.prompts.set(fullName, {
+        fullName,
+        originalName: prompt.name,
+        serverName,
+        exposed: this.passesFilters(fullName),
+        definition: prompt,
+        client,
+      });
+    }
+  }
+
+  /**
+   * Removes all prompts of a server (used for server disconnection).
+   * @param serverName - Server whose prompts should be dropped
+   */
+  public removePromptsFromServer(serverName: string): void {
+    for (const [name, prompt] of this.prompts) {
+      if (prompt.serverName === serverName) {
+        this.prompts.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Re-applies `exposePrompts` / `hidePrompts` after the config changed (config hot reload).
+   */
+  public applyConfigFilters(): void {
+    for (const prompt of this.prompts.values()) {
+      prompt.exposed = this.passesFilters(prompt.fullName);
+    }
+  }
+
+  private passesFilters(fullName: string): boolean {
+    return passesPatternFilters(fullName, this.config.exposePrompts, this.config.hidePrompts);
+  }
+
+  // Query methods
+  public getExposedPrompts(): Prompt[] {
+    return Array.from(this.prompts.values())
+      .filter((p) => p.exposed)
+      .map((p) => ({
+        ...p.definition,
+        name: p.fullName,
+        description: `[${p.serverName}] ${p.definition.description || ''}`.trim(),
+      }));
+  }
+
+  public getPromptForExecution(name: string): PromptState | undefined {
+    const prompt = this.prompts.get(name);
+    return prompt?.exposed ? prompt : undefined;
+  }
+
+  public getAllPrompts(): PromptState[] {
+    return Array.from(this.prompts.values());
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { PromptRegistry } from './index.js';
+
+const githubClient = { name: 'github-client' } as unknown as Client;
+const reasoningClient = { name: 'reasoning-client' } as unknown as Client;
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+  let config: ProxyConfig;
+
+  const registerDefaults = () => {
+    registry.registerServerPrompts({
+      serverName: 'github',
+      client: githubClient,
+      prompts: [
+        {
+          name: 'review_pr',
+          description: 'Review a pull request',
+          arguments: [{ name: 'pr', required: true }],
+        },
+        { name: 'triage_issue' },
+      ],
+    });
+    registry.registerServerPrompts({
+      serverName: 'code-reasoning',
+      client: reasoningClient,
+      prompts: [{ name: 'think', description: 'Step by step reasoning' }],
+    });
+  };
+
+  beforeEach(() => {
+    config = { servers: [], hidePrompts: ['github__triage_*'] };
+    registry = new PromptRegistry(config);
+    registerDefaults();
+  });
+
+  describe('listing', () => {
+    it('should prefix prompt names with their server name', () => {
+      expect(registry.getExposedPrompts().map((p) => p.name)).toEqual([
+        'github__review_pr',
+        'code-reasoning__think',
+      ]);
+    });
+
+    it('should prefix descriptions and keep arguments', () => {
+      const [reviewPr] = registry.getExposedPrompts();
+      expect(reviewPr.description).toBe('[github] Review a pull request');
+      expect(reviewPr.arguments).toEqual([{ name: 'pr', required: true }]);
+    });
+
+    it('should only expose prompts matching exposePrompts', () => {
+      registry = new PromptRegistry({ servers: [], exposePrompts: ['code-reasoning__*'] });
+      registerDefaults();
+      expect(registry.getExposedPrompts().map((p) => p.name)).toEqual(['code-reasoning__think']);
+    });
+
+    it('should re-apply filters after a config change', () => {
+      config.hidePrompts = ['code-reasoning__*'];
+      registry.applyConfigFilters();
+      expect(registry.getExposedPrompts().map((p) => p.name)).toEqual([
+        'github__review_pr',
+        'github__triage_issue',
+      ]);
+    });
+  });
+
+  describe('getPromptForExecution', () => {
+    it('should resolve exposed prompts to their client and original name', () => {
+      const prompt = registry.getPromptForExecution('github__review_pr');
+      expect(prompt?.client).toBe(githubClient);
+      expect(prompt?.originalName).toBe('review_pr');
+    });
+
+    it('should not resolve hidden or unknown prompts', () => {
+      expect(registry.getPromptForExecution('github__triage_issue')).toBeUndefined();
+      expect(registry.getPromptForExecution('github__unknown')).toBeUndefined();
+    });
+  });
+
+  describe('server lifecycle', () => {
+    it('should replace prompts on re-registration', () => {
+      registry.registerServerPrompts({
+        serverName: 'github',
+        client: githubClient,
+        prompts: [{ name: 'summarize' }],
+      });
+      const names = registry.getAllPrompts().map((p) => p.fullName);
+      expect(names).toContain('github__summarize');
+      expect(names).not.toContain('github__review_pr');
+    });
+
+    it('should remove prompts when a server disconnects', () => {
+      registry.removePromptsFromServer('github');
+      expect(registry.getAllPrompts().map((p) => p.fullName)).toEqual(['code-reasoning__think']);
+    });
+  });
+});
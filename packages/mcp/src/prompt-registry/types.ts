@@ -0,0 +1,22 @@
+import type { Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+export interface PromptState {
+  // Identity
+  fullName: string; // e.g., "github__review_pr"
+  originalName: string; // e.g., "review_pr"
+  serverName: string; // e.g., "github"
+
+  // Visibility state (computed)
+  exposed: boolean;
+
+  // Prompt data
+  definition: Prompt;
+  client: Client;
+}
+
+export interface RegisterServerPromptsParams {
+  serverName: string;
+  client: Client;
+  prompts: Prompt[];
+}
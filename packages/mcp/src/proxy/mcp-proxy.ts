@@ -1,27 +1,35 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { EventEmitter } from 'events';
 
 import { ICoreTool } from '../tools/core-tool.interface.js';
-import { DiscoverToolsByWords } from '../tools/discover-tools-by-words/index.js';
-import { GetToolSchema } from '../tools/get-tool-schema/index.js';
-import { BridgeToolRequest } from '../tools/bridge-tool-request/index.js';
-import { LoadToolset } from '../tools/load-toolset/index.js';
-import { ManageCommands } from '../tools/manage-commands/index.js';
 import { loadDevelopmentCommands } from './command-loader.js';
-import { ToolRegistry } from '../tool-registry/index.js';
+import { ToolRegistry, type ToolRegistryView } from '../tool-registry/index.js';
+import { ResourceRegistry } from '../resource-registry/index.js';
+import { PromptRegistry } from '../prompt-registry/index.js';
 
-import Package from '../../package.json';
 import { logEvent } from '@mcp-funnel/core';
 import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
 import type { ServerStatus } from '@mcp-funnel/models';
 import { normalizeServers } from '../utils/normalizeServers.js';
 import { ServerConnectionManager } from './util/server-connection-manager.js';
 import { createToolContext } from './util/tool-context-factory.js';
+import { executeTool, type ToolExecutionOptions } from '../utils/tool-executor.js';
+import type { ToolCallMiddleware } from '../tool-middleware/index.js';
+import { ToolCallPipeline } from './util/tool-call-pipeline.js';
+import { buildToolMapping, getDynamicallyEnabledTools } from './util/legacy-tool-views.js';
+import { createProxyServer } from './util/proxy-server.js';
+import { LazyServerManager } from './util/lazy-servers.js';
+import { ToolManifestCache } from './util/manifest-cache.js';
+import { createCoreTools, syncCoreTools } from './util/core-tool-registration.js';
+import { applyConfigReload, isEmptyConfigDiff, type ConfigDiff } from './util/config-reload.js';
+import { registerProxyRequestHandlers } from './util/request-handlers.js';
+import { ProxySessionManager } from './util/proxy-sessions.js';
+import { createDebouncedNotifier } from './util/list-changed-handler.js';
 import { getServerStatus, isServerConnected, getTargetServers } from './util/server-status.js';
-import { OAuth2AuthCodeProvider } from '@mcp-funnel/auth';
+import { completeOAuthFlow } from './util/oauth-completion.js';
 
 declare global {
   var __mcpProxyInstance: MCPProxy | undefined;
@@ -52,87 +60,131 @@ export class MCPProxy extends EventEmitter {
   private _configPath: string;
   private _normalizedServers: TargetServer[];
   private toolRegistry: ToolRegistry;
+  private resourceRegistry: ResourceRegistry;
+  private promptRegistry: PromptRegistry;
   private coreTools: Map<string, ICoreTool> = new Map();
+  private availableCoreTools = createCoreTools();
   private connectionManager: ServerConnectionManager;
+  private lazyServers: LazyServerManager;
+  private manifestCache: ToolManifestCache;
+  private toolCalls: ToolCallPipeline;
+  private sessionManager: ProxySessionManager;
+  private toolListChangedNotifier = createDebouncedNotifier(() => {
+    this.sessionManager.sendToolListChanged();
+    return this._server.sendToolListChanged();
+  });
 
   public constructor(config: ProxyConfig, configPath: string = process.cwd()) {
     super();
     this._config = config;
     this._configPath = configPath;
     this._normalizedServers = normalizeServers(config.servers);
+    this.toolCalls = new ToolCallPipeline(config, this._normalizedServers, configPath);
     this.toolRegistry = new ToolRegistry(config);
+    this.resourceRegistry = new ResourceRegistry(config);
+    this.promptRegistry = new PromptRegistry(config);
 
     // Expose instance on globalThis for hot-reload support (used by manage-commands tool)
     globalThis.__mcpProxyInstance = this;
 
+    this._server = createProxyServer();
+    this.sessionManager = new ProxySessionManager(config, this.toolRegistry, (registry) => {
+      const server = createProxyServer();
+      return { server, dispose: this.setupRequestHandlers(server, registry) };
+    });
+
     // Initialize connection manager
     this.connectionManager = new ServerConnectionManager(
       config,
       configPath,
       this._clients,
       this.toolRegistry,
+      this.resourceRegistry,
+      this.promptRegistry,
       this,
     );
 
+    this.manifestCache = new ToolManifestCache({
+      toolRegistry: this.toolRegistry,
+      eventEmitter: this,
+      enabled: config.cacheToolManifests === true,
+    });
+    this.lazyServers = new LazyServerManager({
+      connectionManager: this.connectionManager,
+      toolRegistry: this.toolRegistry,
+      eventEmitter: this,
+    });
+
+    // Backend tool list changes are coalesced into a single upstream notification
+    this.on('tools.changed', () => this.toolListChangedNotifier.trigger());
+
     // Initialize disconnected servers list
     this.connectionManager.initializeDisconnectedServers(this._normalizedServers);
-
-    this._server = new Server(
-      {
-        name: 'mcp-funnel',
-        version: Package.version,
-      },
-      {
-        capabilities: {
-          tools: {
-            listChanged: true, // Support dynamic tool updates
-          },
-        },
-      },
-    );
   }
 
   public async initialize() {
     this.registerCoreTools();
+    await this.toolCalls.loadMiddleware();
 
     await Promise.all([
-      this.connectionManager.connectToTargetServers(this._normalizedServers),
+      this.startServers(this._normalizedServers),
       loadDevelopmentCommands(this._config, this.toolRegistry),
     ]);
 
     // Tools are already discovered during connectToSingleServer
     // No need to re-discover them here
-    this.setupRequestHandlers();
+    this.setupRequestHandlers(this._server, this.toolRegistry);
   }
 
   private registerCoreTools() {
-    const tools: ICoreTool[] = [
-      new DiscoverToolsByWords(),
-      new GetToolSchema(),
-      new BridgeToolRequest(),
-      new LoadToolset(),
-      new ManageCommands(),
-    ];
-
-    for (const tool of tools) {
-      if (tool.isEnabled(this._config)) {
-        this.coreTools.set(tool.name, tool);
-        // Register core tools with the registry (they bypass exposeTools filtering)
-        this.toolRegistry.registerDiscoveredTool({
-          fullName: tool.name,
-          originalName: tool.name,
-          serverName: 'mcp-funnel',
-          definition: tool.tool,
-          isCoreTool: true,
-        });
-        if (tool.onInit) {
-          tool.onInit(
-            createToolContext(this.toolRegistry, this._config, this._configPath, this._server),
-          );
-        }
-        console.error(`[proxy] Registered core tool: ${tool.name}`);
-      }
+    syncCoreTools({
+      available: this.availableCoreTools,
+      active: this.coreTools,
+      config: this._config,
+      toolRegistry: this.toolRegistry,
+      createContext: () => this.createToolContext(),
+    });
+  }
+
+  private async startServers(servers: TargetServer[]): Promise<void> {
+    // Cached tools are served right away; lazy servers wait for their first tool call
+    const cached = await this.manifestCache.preload(servers);
+    const plan = this.lazyServers.planStartup(servers, cached);
+    void this.connectionManager.connectToTargetServers(plan.connectInBackground);
+    await this.connectionManager.connectToTargetServers(plan.connectNow);
+  }
+
+  /**
+   * Applies a new configuration without restarting the proxy.
+   * Only affected servers are (re)connected; one tools/list_changed is sent afterwards.
+   * @param next - Validated configuration, e.g. from resolveMergedProxyConfig
+   * @returns What changed
+   * @public
+   */
+  public async reloadConfig(next: ProxyConfig): Promise<ConfigDiff> {
+    const diff = await applyConfigReload(
+      {
+        config: this._config,
+        servers: this._normalizedServers,
+        clients: this._clients,
+        connectionManager: this.connectionManager,
+        toolRegistry: this.toolRegistry,
+        resourceRegistry: this.resourceRegistry,
+        promptRegistry: this.promptRegistry,
+        startServers: (servers) => this.startServers(servers),
+        onSettingsApplied: () => this.registerCoreTools(),
+      },
+      next,
+    );
+
+    if (diff.settings.includes('middleware') || this._config.middleware?.length) {
+      await this.toolCalls.loadMiddleware();
     }
+    if (!isEmptyConfigDiff(diff)) {
+      this.toolListChangedNotifier.trigger();
+      this.emit('config.reloaded', { ...diff, timestamp: new Date().toISOString() });
+    }
+    return diff;
   }
 
   public getTargetServers() {
@@ -144,7 +196,7 @@ export class MCPProxy extends EventEmitter {
 
   /**
    * Get the status of a single server by name
-   * Returns ServerStatus object with current connection state
+   * Returns ServerStatus object with connection state, circuit breaker and replica states
    * @param name - Server name to query
    * @returns Server status object with connection state
    * @public
@@ -155,6 +207,7 @@ export class MCPProxy extends EventEmitter {
       this.connectionManager.getConnectedServers(),
       this.connectionManager.getDisconnectedServers(),
       this.connectionManager.getConnectionTimestamps(),
+      this.connectionManager.getStatusDetails(name),
     );
   }
 
@@ -190,51 +243,18 @@ export class MCPProxy extends EventEmitter {
     return this.connectionManager.disconnectServer(name);
   }
 
-  private setupRequestHandlers() {
-    this._server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // Get all exposed tools from registry (including core tools)
-      const tools = this.toolRegistry.getExposedTools();
-      return { tools };
-    });
-
-    this._server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name: toolName, arguments: toolArgs } = request.params;
-
-      // Check core tools first
-      const coreTool = this.coreTools.get(toolName);
-      if (coreTool) {
-        return coreTool.handle(
-          toolArgs || {},
-          createToolContext(this.toolRegistry, this._config, this._configPath, this._server),
-        );
-      }
-
-      // Get tool from registry
-      const tool = this.toolRegistry.getToolForExecution(toolName);
-      if (!tool) {
-        return {
-          content: [{ type: 'text', text: `Tool not found: ${toolName}` }],
-          isError: true,
-        };
-      }
-
-      // Execute based on type
-      if (tool.command) {
-        return tool.command.executeToolViaMCP(tool.originalName, toolArgs || {});
-      }
-
-      if (tool.client) {
-        const result = await tool.client.callTool({
-          name: tool.originalName,
-          arguments: toolArgs || {},
-        });
-        return result;
-      }
-
-      return {
-        content: [{ type: 'text', text: `Tool ${toolName} has no executor` }],
-        isError: true,
-      };
+  private setupRequestHandlers(server: Server, toolRegistry: ToolRegistryView) {
+    return registerProxyRequestHandlers(server, {
+      toolRegistry,
+      coreTools: this.coreTools,
+      resourceRegistry: this.resourceRegistry,
+      promptRegistry: this.promptRegistry,
+      clients: this._clients,
+      eventEmitter: this,
+      getServers: () => this._normalizedServers,
+      upstream: this.connectionManager.upstream,
+      execution: this.toolExecution,
+      createContext: (execution) => this.createToolContext(execution, server, toolRegistry),
     });
   }
 
@@ -264,27 +284,11 @@ export class MCPProxy extends EventEmitter {
 
   public get toolMapping() {
     // Provide backward compatibility
-    const mapping = new Map();
-    for (const tool of this.toolRegistry.getAllTools()) {
-      if (tool.discovered) {
-        mapping.set(tool.fullName, {
-          client: tool.client || null,
-          originalName: tool.originalName,
-          toolName: tool.originalName,
-          command: tool.command,
-        });
-      }
-    }
-    return mapping;
+    return buildToolMapping(this.toolRegistry);
   }
 
   public get dynamicallyEnabledTools() {
-    return new Set(
-      this.toolRegistry
-        .getAllTools()
-        .filter((t) => t.enabled && t.enabledBy)
-        .map((t) => t.fullName),
-    );
+    return getDynamicallyEnabledTools(this.toolRegistry);
   }
 
   public get toolDescriptionCache() {
@@ -303,12 +307,28 @@ export class MCPProxy extends EventEmitter {
     return this.toolRegistry;
   }
 
+  public get resources() {
+    return this.resourceRegistry;
+  }
+
+  public get prompts() {
+    return this.promptRegistry;
+  }
+
+  // Streamable HTTP client sessions, each with its own server and enabled tools
+  public get sessions() {
+    return this.sessionManager;
+  }
+
   /**
    * Gracefully shut down the proxy and all server connections.
    * Prevents reconnections and closes all active connections.
    * @public
    */
   public async shutdown(): Promise<void> {
+    this.toolListChangedNotifier.cancel();
+    this.lazyServers.dispose();
+    await this.sessionManager.closeAll();
     await this.connectionManager.shutdown();
   }
 
@@ -321,8 +341,48 @@ export class MCPProxy extends EventEmitter {
     return this.connectionManager.getReconnectionManagers();
   }
 
-  private createToolContext() {
-    return createToolContext(this.toolRegistry, this._config, this._configPath, this._server);
+  /**
+   * Adds middleware that runs around every backend and command tool call,
+   * after middleware loaded from the `middleware` config setting.
+   * @param middleware - Hooks to add
+   * @returns Function removing the middleware again
+   * @public
+   */
+  public use(middleware: ToolCallMiddleware): () => void {
+    return this.toolCalls.middleware.use(middleware);
+  }
+
+  /**
+   * Calls a discovered tool the same way as `tools/call`, for the web server API.
+   * The tool does not need to be exposed to the MCP client.
+   * @param name - Prefixed tool name
+   * @param args - Tool arguments
+   * @param signal - Cancels the call
+   * @returns Tool result, or an error result when the tool is unknown
+   * @public
+   */
+  public async callTool(
+    name: string,
+    args?: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<CallToolResult> {
+    const tool = this.toolRegistry.getToolState(name);
+    if (!tool?.discovered) {
+      return { content: [{ type: 'text', text: `Tool not found: ${name}` }], isError: true };
+    }
+    return executeTool(tool, args, { ...this.toolExecution, source: 'api', signal });
+  }
+
+  private get toolExecution(): ToolExecutionOptions {
+    return this.toolCalls.options(this.connectionManager.guardCalls(this.lazyServers.runOnServer));
+  }
+
+  private createToolContext(
+    execution?: ToolExecutionOptions,
+    server: Server = this._server,
+    toolRegistry: ToolRegistryView = this.toolRegistry,
+  ) {
+    return createToolContext(toolRegistry, this._config, this._configPath, server, execution);
   }
 
   /**
@@ -333,29 +393,8 @@ export class MCPProxy extends EventEmitter {
    * @public
    */
   public async completeOAuthFlow(state: string, code: string): Promise<void> {
-    // Use O(1) lookup to find the provider for this state
-    const provider = OAuth2AuthCodeProvider.getProviderForState(state);
-
-    if (!provider) {
-      throw new Error('No matching OAuth flow found for this state parameter');
-    }
-
-    try {
-      await provider.completeOAuthFlow(state, code);
-      logEvent('info', 'proxy:oauth_completed', { state });
-
-      // Attempt to reconnect servers if any are disconnected
-      // This handles the case where auth completion enables connection
-      setTimeout(
-        () => this.connectionManager.connectToTargetServers(this._normalizedServers),
-        1000,
-      );
-    } catch (error) {
-      logEvent('error', 'proxy:oauth_completion_failed', {
-        state,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
-    }
+    await completeOAuthFlow(state, code, () => {
+      void this.connectionManager.connectToTargetServers(this._normalizedServers);
+    });
   }
 }
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  McpError,
+  type ClientCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  registerClientRequestForwarding,
+  resolveBackendClientCapabilities,
+} from '../client-request-forwarding.js';
+import { UpstreamClients } from '../upstream-clients.js';
+
+const createUpstream = (capabilities?: ClientCapabilities) =>
+  ({
+    getClientCapabilities: vi.fn(() => capabilities),
+    createMessage: vi.fn().mockResolvedValue({
+      role: 'assistant',
+      content: { type: 'text', text: 'hi' },
+      model: 'test-model',
+    }),
+    elicitInput: vi.fn().mockResolvedValue({ action: 'accept', content: {} }),
+    listRoots: vi.fn().mockResolvedValue({ roots: [{ uri: 'file:///work' }] }),
+  }) as unknown as Server & {
+    createMessage: ReturnType<typeof vi.fn>;
+    listRoots: ReturnType<typeof vi.fn>;
+  };
+
+const initializeUpstream = (upstreams: UpstreamClients, capabilities?: ClientCapabilities) => {
+  const upstream = createUpstream(capabilities);
+  upstreams.add(upstream);
+  upstream.oninitialized?.();
+  return upstream;
+};
+
+describe('resolveBackendClientCapabilities', () => {
+  it('should declare all forwardable capabilities by default', () => {
+    const capabilities = resolveBackendClientCapabilities({ name: 'github', command: 'gh' });
+    expect(capabilities).toEqual({
+      sampling: {},
+      elicitation: {},
+      roots: { listChanged: true },
+    });
+  });
+
+  it('should honour per-server denies', () => {
+    const capabilities = resolveBackendClientCapabilities({
+      name: 'github',
+      command: 'gh',
+      clientCapabilities: { sampling: false, roots: false },
+    });
+    expect(capabilities).toEqual({ elicitation: {} });
+  });
+});
+
+describe('registerClientRequestForwarding', () => {
+  const register = (capabilities: ClientCapabilities, upstreams: UpstreamClients) => {
+    const handlers = new Map<unknown, (request: unknown, extra: unknown) => Promise<unknown>>();
+    const client = {
+      setRequestHandler: vi.fn((schema, handler) => handlers.set(schema, handler)),
+    } as unknown as Client;
+    registerClientRequestForwarding(
+      client,
+      { name: 'github', command: 'gh' },
+      capabilities,
+      upstreams,
+    );
+    return handlers;
+  };
+
+  it('should only register handlers for declared capabilities', () => {
+    const handlers = register({ roots: { listChanged: true } }, new UpstreamClients());
+    expect([...handlers.keys()]).toEqual([ListRootsRequestSchema]);
+  });
+
+  it('should forward requests to the upstream session with the abort signal', async () => {
+    const upstreams = new UpstreamClients();
+    const upstream = initializeUpstream(upstreams, { sampling: {}, roots: {} });
+    const handlers = register({ sampling: {}, elicitation: {}, roots: {} }, upstreams);
+    const signal = new AbortController().signal;
+
+    const params = { messages: [], maxTokens: 10 };
+    const result = await handlers.get(CreateMessageRequestSchema)!(
+      { method: 'sampling/createMessage', params },
+      { signal },
+    );
+    expect(upstream.createMessage).toHaveBeenCalledWith(params, { signal });
+    expect(result).toMatchObject({ model: 'test-model' });
+
+    await handlers.get(ListRootsRequestSchema)!({ method: 'roots/list' }, { signal });
+    expect(upstream.listRoots).toHaveBeenCalledWith(undefined, { signal });
+  });
+
+  it('should forward requests to the most recently initialized upstream client', async () => {
+    const upstreams = new UpstreamClients();
+    const first = initializeUpstream(upstreams, { sampling: {} });
+    const second = initializeUpstream(upstreams, { sampling: {} });
+    const handlers = register({ sampling: {} }, upstreams);
+
+    await handlers.get(CreateMessageRequestSchema)!(
+      { method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+      { signal: new AbortController().signal },
+    );
+    expect(second.createMessage).toHaveBeenCalledOnce();
+    expect(first.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should forward requests to the upstream client with a tool call in flight', async () => {
+    const upstreams = new UpstreamClients();
+    const calling = initializeUpstream(upstreams, { sampling: {} });
+    const latest = initializeUpstream(upstreams, { sampling: {} });
+    const handlers = register({ sampling: {} }, upstreams);
+    const settle = upstreams.beginCall(calling);
+
+    await handlers.get(CreateMessageRequestSchema)!(
+      { method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+      { signal: new AbortController().signal },
+    );
+    settle();
+    expect(calling.createMessage).toHaveBeenCalledOnce();
+    expect(latest.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests the upstream client does not support', async () => {
+    const upstreams = new UpstreamClients();
+    initializeUpstream(upstreams, { sampling: {} });
+    const handlers = register({ elicitation: {} }, upstreams);
+    await expect(
+      handlers.get(ElicitRequestSchema)!(
+        { method: 'elicitation/create', params: { message: 'Name?', requestedSchema: {} } },
+        { signal: new AbortController().signal },
+      ),
+    ).rejects.toBeInstanceOf(McpError);
+  });
+
+  it('should reject sampling requests when the upstream client lacks sampling', async () => {
+    const upstreams = new UpstreamClients();
+    const upstream = initializeUpstream(upstreams, { roots: {} });
+    const handlers = register(
+      resolveBackendClientCapabilities({ name: 'github', command: 'gh' }),
+      upstreams,
+    );
+    await expect(
+      handlers.get(CreateMessageRequestSchema)!(
+        { method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+        { signal: new AbortController().signal },
+      ),
+    ).rejects.toThrow('Upstream client does not support sampling (requested by github)');
+    expect(upstream.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests while no upstream client is connected', async () => {
+    const upstreams = new UpstreamClients();
+    const remove = upstreams.add(createUpstream({ roots: {} }));
+    const handlers = register({ roots: {} }, upstreams);
+    const request = () =>
+      handlers.get(ListRootsRequestSchema)!(
+        { method: 'roots/list' },
+        { signal: new AbortController().signal },
+      );
+
+    await expect(request()).rejects.toThrow('No upstream client connected');
+    remove();
+    await expect(request()).rejects.toThrow('No upstream client connected');
+  });
+});
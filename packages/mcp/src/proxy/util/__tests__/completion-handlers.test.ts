@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, type CompleteRequest } from '@modelcontextprotocol/sdk/types.js';
+import { PromptRegistry } from '../../../prompt-registry/index.js';
+import { ResourceRegistry } from '../../../resource-registry/index.js';
+import { registerCompletionHandler } from '../completion-handlers.js';
+
+type CompleteHandler = (request: CompleteRequest, extra: { signal: AbortSignal }) => unknown;
+
+const createClient = (completions: boolean) => ({
+  getServerCapabilities: vi.fn(() => (completions ? { completions: {} } : {})),
+  complete: vi.fn().mockResolvedValue({ completion: { values: ['acme'], hasMore: false } }),
+});
+
+describe('registerCompletionHandler', () => {
+  let github: ReturnType<typeof createClient>;
+  let legacy: ReturnType<typeof createClient>;
+  let handler: CompleteHandler;
+  const extra = { signal: new AbortController().signal };
+
+  beforeEach(() => {
+    github = createClient(true);
+    legacy = createClient(false);
+
+    const prompts = new PromptRegistry({ servers: [] });
+    prompts.registerServerPrompts({
+      serverName: 'github',
+      client: github as unknown as Client,
+      prompts: [{ name: 'review_pr', arguments: [{ name: 'repo' }] }],
+    });
+    prompts.registerServerPrompts({
+      serverName: 'legacy',
+      client: legacy as unknown as Client,
+      prompts: [{ name: 'summarize' }],
+    });
+
+    const resources = new ResourceRegistry({ servers: [] });
+    resources.registerServerResources({
+      serverName: 'github',
+      client: github as unknown as Client,
+      resources: [],
+      resourceTemplates: [{ uriTemplate: 'repo://{owner}/{repo}', name: 'repo' }],
+    });
+
+    const server = {
+      setRequestHandler: vi.fn((_schema, fn) => {
+        handler = fn;
+      }),
+    } as unknown as Server;
+    registerCompletionHandler(server, prompts, resources);
+  });
+
+  const complete = (ref: CompleteRequest['params']['ref']) =>
+    handler(
+      {
+        method: 'completion/complete',
+        params: { ref, argument: { name: 'owner', value: 'ac' } },
+      },
+      extra,
+    );
+
+  it('should forward prompt completions under the original prompt name', async () => {
+    const result = await complete({ type: 'ref/prompt', name: 'github__review_pr' });
+
+    expect(github.complete).toHaveBeenCalledWith(
+      {
+        ref: { type: 'ref/prompt', name: 'review_pr' },
+        argument: { name: 'owner', value: 'ac' },
+      },
+      { signal: extra.signal },
+    );
+    expect(result).toEqual({ completion: { values: ['acme'], hasMore: false } });
+  });
+
+  it('should forward template completions with the original URI template', async () => {
+    await complete({ type: 'ref/resource', uri: 'funnel://github/repo://{owner}/{repo}' });
+
+    expect(github.complete).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: { type: 'ref/resource', uri: 'repo://{owner}/{repo}' } }),
+      { signal: extra.signal },
+    );
+  });
+
+  it('should return an empty result for backends without completions', async () => {
+    const result = await complete({ type: 'ref/prompt', name: 'legacy__summarize' });
+
+    expect(legacy.complete).not.toHaveBeenCalled();
+    expect(result).toEqual({ completion: { values: [], hasMore: false } });
+  });
+
+  it('should reject unknown references', async () => {
+    await expect(complete({ type: 'ref/prompt', name: 'github__unknown' })).rejects.toBeInstanceOf(
+      McpError,
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { ResourceRegistry } from '../../../resource-registry/index.js';
+import { PromptRegistry } from '../../../prompt-registry/index.js';
+import { normalizeServers } from '../../../utils/normalizeServers.js';
+import type { ServerConnectionManager } from '../server-connection-manager.js';
+import { applyConfigReload, diffProxyConfig, type ConfigReloadTarget } from '../config-reload.js';
+
+const github: TargetServer = { name: 'github', command: 'gh' };
+const memory: TargetServer = { name: 'memory', command: 'mem' };
+
+describe('diffProxyConfig', () => {
+  it('should report added, removed and changed servers and settings', () => {
+    const diff = diffProxyConfig(
+      { servers: [github, memory], hideTools: ['a'] },
+      {
+        servers: { github: { command: 'gh', args: ['--readonly'] }, slack: { command: 'slack' } },
+        hideTools: ['a'],
+        toolsets: { triage: ['github__*'] },
+      },
+    );
+
+    expect(diff.added.map((s) => s.name)).toEqual(['slack']);
+    expect(diff.removed).toEqual(['memory']);
+    expect(diff.changed).toEqual([{ name: 'github', command: 'gh', args: ['--readonly'] }]);
+    expect(diff.settings).toEqual(['toolsets']);
+  });
+});
+
+describe('applyConfigReload', () => {
+  let config: ProxyConfig;
+  let target: ConfigReloadTarget;
+  let connected: Map<string, TargetServer>;
+  let startServers: ReturnType<typeof vi.fn>;
+  let disconnectServer: ReturnType<typeof vi.fn>;
+  let githubClient: { listTools: ReturnType<typeof vi.fn> };
+
+  const registerTool = (serverName: string, name: string) =>
+    target.toolRegistry.registerDiscoveredTool({
+      fullName: `${serverName}__${name}`,
+      originalName: name,
+      serverName,
+      definition: { name, inputSchema: { type: 'object' } },
+    });
+
+  beforeEach(() => {
+    config = { servers: [github, memory] };
+    connected = new Map([
+      ['github', github],
+      ['memory', memory],
+    ]);
+    startServers = vi.fn().mockResolvedValue(undefined);
+    disconnectServer = vi.fn(async (name: string) => {
+      connected.delete(name);
+    });
+    githubClient = {
+      listTools: vi.fn().mockResolvedValue({
+        tools: [
+          { name: 'create_issue', inputSchema: { type: 'object' } },
+          { name: 'get_teams', inputSchema: { type: 'object' } },
+        ],
+      }),
+    };
+
+    const connectionManager = {
+      getConnectedServers: () => connected,
+      getDisconnectedServers: () => new Map(),
+      getReconnectionManagers: () => new Map(),
+      initializeDisconnectedServers: vi.fn(),
+      disconnectServer,
+    } as unknown as ServerConnectionManager;
+
+    target = {
+      config,
+      servers: normalizeServers(config.servers),
+      clients: new Map([['github', githubClient as unknown as Client]]),
+      connectionManager,
+      toolRegistry: new ToolRegistry(config),
+      resourceRegistry: new ResourceRegistry(config),
+      promptRegistry: new PromptRegistry(config),
+      startServers,
+    };
+  });
+
+  it('should only stop removed servers and start added ones', async () => {
+    registerTool('memory', 'store');
+    const slack: TargetServer = { name: 'slack', command: 'slack' };
+
+    await applyConfigReload(target, { servers: [github, slack] });
+
+    expect(disconnectServer).toHaveBeenCalledTimes(1);
+    expect(disconnectServer).toHaveBeenCalledWith('memory');
+    expect(target.toolRegistry.getToolState('memory__store')).toBeUndefined();
+    expect(startServers).toHaveBeenCalledWith([slack]);
+    expect(target.servers.map((s) => s.name)).toEqual(['github', 'slack']);
+  });
+
+  it('should restart servers whose configuration changed', async () => {
+    const changed = { ...github, args: ['--readonly'] };
+
+    await applyConfigReload(target, { servers: [changed, memory] });
+
+    expect(disconnectServer).toHaveBeenCalledWith('github');
+    expect(startServers).toHaveBeenCalledWith([changed]);
+  });
+
+  it('should update the shared config and re-apply tool filters', async () => {
+    registerTool('github', 'create_issue');
+    registerTool('memory', 'store');
+
+    await applyConfigReload(target, { servers: [github, memory], hideTools: ['memory__*'] });
+
+    expect(config.hideTools).toEqual(['memory__*']);
+    expect(target.toolRegistry.getToolState('memory__store')).toBeUndefined();
+    expect(disconnectServer).not.toHaveBeenCalled();
+  });
+
+  it('should re-apply resource filters', async () => {
+    target.resourceRegistry.registerServerResources({
+      serverName: 'memory',
+      client: {} as Client,
+      resources: [
+        { uri: 'mem://notes', name: 'notes' },
+        { uri: 'mem://secrets', name: 'secrets' },
+      ],
+      resourceTemplates: [{ uriTemplate: 'mem://notes/{id}', name: 'note' }],
+    });
+
+    await applyConfigReload(target, {
+      servers: [github, memory],
+      exposeResources: ['memory__*'],
+      hideResources: ['memory__secrets', 'memory__note'],
+    });
+
+    expect(target.resourceRegistry.getExposedResources().map((r) => r.name)).toEqual(['notes']);
+    expect(target.resourceRegistry.getExposedResourceTemplates()).toEqual([]);
+
+    await applyConfigReload(target, { servers: [github, memory], exposeResources: ['memory__*'] });
+
+    expect(target.resourceRegistry.getExposedResources()).toHaveLength(2);
+    expect(target.resourceRegistry.getExposedResourceTemplates()).toHaveLength(1);
+  });
+
+  it('should rediscover tools that are no longer hidden', async () => {
+    config.hideTools = ['github__get_teams'];
+    registerTool('github', 'create_issue');
+
+    await applyConfigReload(target, { servers: [github, memory] });
+
+    expect(config.hideTools).toBeUndefined();
+    expect(githubClient.listTools).toHaveBeenCalled();
+    expect(target.toolRegistry.getToolState('github__get_teams')).toBeDefined();
+  });
+
+  it('should do nothing when the configuration is unchanged', async () => {
+    await applyConfigReload(target, { servers: [github, memory] });
+
+    expect(startServers).not.toHaveBeenCalled();
+    expect(disconnectServer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { TargetServer } from '@mcp-funnel/schemas';
+import { ToolRegistry, type ToolState } from '../../../tool-registry/index.js';
+import { LazyServerManager } from '../lazy-servers.js';
+
+const ok = { content: [{ type: 'text' as const, text: 'ok' }] };
+
+describe('LazyServerManager', () => {
+  let registry: ToolRegistry;
+  let emitter: EventEmitter;
+  let connected: Map<string, TargetServer>;
+  let client: Client;
+  let connectionManager: {
+    connectToSingleServer: ReturnType<typeof vi.fn>;
+    disconnectServer: ReturnType<typeof vi.fn>;
+    getConnectedServers: () => Map<string, TargetServer>;
+  };
+  let manager: LazyServerManager;
+  const github: TargetServer = { name: 'github', command: 'gh', lazy: true, idleTimeoutMs: 1000 };
+
+  beforeEach(() => {
+    registry = new ToolRegistry({ servers: [] });
+    emitter = new EventEmitter();
+    connected = new Map();
+    client = { callTool: vi.fn() } as unknown as Client;
+    connectionManager = {
+      // Simulates discovery: re-registers the tool with a live client
+      connectToSingleServer: vi.fn(async (server: TargetServer) => {
+        registry.registerDiscoveredTool({
+          fullName: 'github__create_issue',
+          originalName: 'create_issue',
+          serverName: 'github',
+          definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+          client,
+        });
+        connected.set(server.name, server);
+        emitter.emit('server.connected', { serverName: server.name });
+      }),
+      disconnectServer: vi.fn(async (name: string) => {
+        connected.delete(name);
+        registry.detachServerTools(name);
+      }),
+      getConnectedServers: () => connected,
+    };
+    manager = new LazyServerManager({
+      connectionManager,
+      toolRegistry: registry,
+      eventEmitter: emitter,
+    });
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    vi.useRealTimers();
+  });
+
+  const registerCached = () =>
+    registry.registerDiscoveredTool({
+      fullName: 'github__create_issue',
+      originalName: 'create_issue',
+      serverName: 'github',
+      definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+      cached: true,
+    });
+
+  it('should leave cached lazy servers out of startup', () => {
+    const memory: TargetServer = { name: 'memory', command: 'mem' };
+    const slack: TargetServer = { name: 'slack', command: 'slack' };
+
+    const plan = manager.planStartup([github, memory, slack], new Set(['github', 'slack']));
+
+    expect(plan).toEqual({ connectNow: [memory], connectInBackground: [slack] });
+  });
+
+  it('should connect lazy servers without manifest right away', () => {
+    expect(manager.planStartup([github], new Set()).connectNow).toEqual([github]);
+  });
+
+  it('should start the server once on first use and call the live tool', async () => {
+    manager.planStartup([github], new Set(['github']));
+    registerCached();
+    const cached = registry.getToolState('github__create_issue')!;
+    const call = vi.fn().mockResolvedValue(ok);
+
+    await Promise.all([manager.runOnServer(cached, call), manager.runOnServer(cached, call)]);
+
+    expect(connectionManager.connectToSingleServer).toHaveBeenCalledTimes(1);
+    expect(call).toHaveBeenCalledWith(expect.objectContaining({ client }));
+  });
+
+  it('should shut the server down after the idle timeout', async () => {
+    manager.planStartup([github], new Set(['github']));
+    registerCached();
+    vi.useFakeTimers();
+
+    await manager.runOnServer(registry.getToolState('github__create_issue')!, async () => ok);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(connectionManager.disconnectServer).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(connectionManager.disconnectServer).toHaveBeenCalledWith('github');
+    expect(registry.getToolState('github__create_issue')).toMatchObject({
+      client: undefined,
+      cached: true,
+    });
+  });
+
+  it('should stop idle shutdowns once a reload makes the server eager', async () => {
+    manager.planStartup([github], new Set());
+    vi.useFakeTimers();
+
+    // Reload: the changed server is stopped, then started with the new config
+    const eager: TargetServer = { name: 'github', command: 'gh' };
+    expect(manager.planStartup([eager], new Set()).connectNow).toEqual([eager]);
+    await connectionManager.connectToSingleServer(eager);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(connectionManager.disconnectServer).not.toHaveBeenCalled();
+  });
+
+  it('should forget lazy servers a reload removed', async () => {
+    manager.planStartup([github], new Set(['github']));
+    registerCached();
+    const cached = registry.getToolState('github__create_issue')!;
+
+    emitter.emit('config.reloaded', { added: [], removed: ['github'], changed: [] });
+    const call = vi.fn().mockResolvedValue(ok);
+    await manager.runOnServer(cached, call);
+
+    expect(connectionManager.connectToSingleServer).not.toHaveBeenCalled();
+    expect(call).toHaveBeenCalledWith(cached);
+  });
+
+  it('should pass non-lazy tools straight through', async () => {
+    const tool: ToolState = {
+      fullName: 'memory__read',
+      originalName: 'read',
+      serverName: 'memory',
+      discovered: true,
+      enabled: true,
+      exposed: true,
+      client,
+    };
+    const call = vi.fn().mockResolvedValue(ok);
+
+    await manager.runOnServer(tool, call);
+
+    expect(call).toHaveBeenCalledWith(tool);
+    expect(connectionManager.connectToSingleServer).not.toHaveBeenCalled();
+  });
+});
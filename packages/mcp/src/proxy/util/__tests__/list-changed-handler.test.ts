@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { createDebouncedNotifier, setupListChangedHandling } from '../list-changed-handler.js';
+
+const tool = (name: string, description = name): Tool => ({
+  name,
+  description,
+  inputSchema: { type: 'object' },
+});
+
+describe('setupListChangedHandling', () => {
+  let registry: ToolRegistry;
+  let emitter: EventEmitter;
+  let listTools: ReturnType<typeof vi.fn>;
+  let notify: () => Promise<void>;
+
+  beforeEach(() => {
+    registry = new ToolRegistry({ servers: [], hideTools: ['github__secret'] });
+    emitter = new EventEmitter();
+    listTools = vi.fn();
+    const client = {
+      listTools,
+      setNotificationHandler: vi.fn((_schema, handler) => {
+        notify = handler;
+      }),
+    } as unknown as Client;
+
+    for (const t of [tool('create_issue'), tool('close_issue')]) {
+      registry.registerDiscoveredTool({
+        fullName: `github__${t.name}`,
+        originalName: t.name,
+        serverName: 'github',
+        definition: t,
+        client,
+      });
+    }
+    registry.enableTools(['github__create_issue'], 'discovery');
+
+    setupListChangedHandling({
+      targetServer: { name: 'github', command: 'gh' },
+      client,
+      toolRegistry: registry,
+      eventEmitter: emitter,
+    });
+  });
+
+  it('should reconcile the registry and emit a diff', async () => {
+    listTools.mockResolvedValue({
+      tools: [tool('create_issue', 'Create an issue (v2)'), tool('merge_pr'), tool('secret')],
+    });
+    const onChanged = vi.fn();
+    emitter.on('tools.changed', onChanged);
+
+    await notify();
+
+    expect(onChanged).toHaveBeenCalledWith(
+      expect.objectContaining({
+        serverName: 'github',
+        added: ['github__merge_pr'],
+        removed: ['github__close_issue'],
+        updated: ['github__create_issue'],
+      }),
+    );
+    expect(registry.getToolState('github__close_issue')).toBeUndefined();
+    expect(registry.getToolState('github__secret')).toBeUndefined();
+  });
+
+  it('should preserve enablement of tools that are still offered', async () => {
+    listTools.mockResolvedValue({ tools: [tool('create_issue'), tool('close_issue')] });
+
+    await notify();
+
+    expect(registry.getToolState('github__create_issue')?.enabled).toBe(true);
+    expect(registry.getToolState('github__close_issue')?.enabled).toBe(false);
+  });
+
+  it('should not emit when nothing changed', async () => {
+    listTools.mockResolvedValue({ tools: [tool('create_issue'), tool('close_issue')] });
+    const onChanged = vi.fn();
+    emitter.on('tools.changed', onChanged);
+
+    await notify();
+
+    expect(onChanged).not.toHaveBeenCalled();
+  });
+
+  it('should keep the registry untouched when listing fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    listTools.mockRejectedValue(new Error('boom'));
+
+    await notify();
+
+    expect(registry.getToolState('github__close_issue')).toBeDefined();
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('createDebouncedNotifier', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should coalesce bursts into a single call', async () => {
+    const send = vi.fn();
+    const notifier = createDebouncedNotifier(send, 100);
+
+    notifier.trigger();
+    await vi.advanceTimersByTimeAsync(50);
+    notifier.trigger();
+    notifier.trigger();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop pending calls on cancel', async () => {
+    const send = vi.fn();
+    const notifier = createDebouncedNotifier(send, 100);
+
+    notifier.trigger();
+    notifier.cancel();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
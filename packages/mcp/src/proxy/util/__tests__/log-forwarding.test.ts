@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { TargetServer } from '@mcp-funnel/schemas';
+import { registerLoggingHandlers, setupLogForwarding } from '../log-forwarding.js';
+
+const createClient = () => {
+  const client = {
+    notificationHandler: undefined as
+      | ((notification: { params: Record<string, unknown> }) => void)
+      | undefined,
+    getServerCapabilities: vi.fn(() => ({ logging: {} })),
+    setLoggingLevel: vi.fn().mockResolvedValue({}),
+    setNotificationHandler: vi.fn((_schema, handler) => {
+      client.notificationHandler = handler;
+    }),
+  };
+  return client;
+};
+
+describe('setupLogForwarding', () => {
+  it('should emit backend log messages as server.log events', () => {
+    const client = createClient();
+    const emitter = new EventEmitter();
+    const onLog = vi.fn();
+    emitter.on('server.log', onLog);
+
+    setupLogForwarding({
+      targetServer: { name: 'github', command: 'gh' },
+      client: client as unknown as Client,
+      eventEmitter: emitter,
+    });
+    client.notificationHandler?.({ params: { level: 'info', data: 'hello' } });
+
+    expect(onLog).toHaveBeenCalledWith(
+      expect.objectContaining({ serverName: 'github', params: { level: 'info', data: 'hello' } }),
+    );
+    expect(client.setLoggingLevel).not.toHaveBeenCalled();
+  });
+
+  it('should apply a per-server log level override on connect', () => {
+    const client = createClient();
+
+    setupLogForwarding({
+      targetServer: { name: 'github', command: 'gh', logLevel: 'debug' },
+      client: client as unknown as Client,
+      eventEmitter: new EventEmitter(),
+    });
+
+    expect(client.setLoggingLevel).toHaveBeenCalledWith('debug');
+  });
+});
+
+describe('registerLoggingHandlers', () => {
+  let emitter: EventEmitter;
+  let clients: Map<string, Client>;
+  let github: ReturnType<typeof createClient>;
+  let verbose: ReturnType<typeof createClient>;
+  let sendLoggingMessage: ReturnType<typeof vi.fn>;
+  let setLevel: (request: { params: { level: string } }) => Promise<unknown>;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    github = createClient();
+    verbose = createClient();
+    clients = new Map([
+      ['github', github as unknown as Client],
+      ['verbose', verbose as unknown as Client],
+    ]);
+    sendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+    const server = {
+      setRequestHandler: vi.fn((_schema, handler) => {
+        setLevel = handler;
+      }),
+      sendLoggingMessage,
+    } as unknown as Server;
+    const servers: TargetServer[] = [
+      { name: 'github', command: 'gh' },
+      { name: 'verbose', command: 'v', logLevel: 'debug' },
+    ];
+
+    registerLoggingHandlers(server, emitter, clients, () => servers);
+  });
+
+  it('should fan setLevel out to backends without override', async () => {
+    await setLevel({ params: { level: 'warning' } });
+
+    expect(github.setLoggingLevel).toHaveBeenCalledWith('warning');
+    expect(verbose.setLoggingLevel).not.toHaveBeenCalled();
+  });
+
+  it('should apply the upstream level to servers connecting later', async () => {
+    await setLevel({ params: { level: 'error' } });
+    github.setLoggingLevel.mockClear();
+
+    emitter.emit('server.connected', { serverName: 'github' });
+
+    expect(github.setLoggingLevel).toHaveBeenCalledWith('error');
+  });
+
+  it('should relay backend logs tagged with the server name', () => {
+    emitter.emit('server.log', {
+      serverName: 'github',
+      params: { level: 'info', logger: 'octokit', data: 'rate limited' },
+    });
+
+    expect(sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'info',
+      logger: 'github/octokit',
+      data: 'rate limited',
+    });
+  });
+
+  it('should drop messages below the upstream level', async () => {
+    await setLevel({ params: { level: 'warning' } });
+
+    emitter.emit('server.log', { serverName: 'verbose', params: { level: 'debug', data: 'x' } });
+    emitter.emit('server.log', { serverName: 'verbose', params: { level: 'error', data: 'y' } });
+
+    expect(sendLoggingMessage).toHaveBeenCalledTimes(1);
+    expect(sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'error',
+      logger: 'verbose',
+      data: 'y',
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { TargetServer } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { ToolManifestCache, diffToolManifest } from '../manifest-cache.js';
+import { loadToolManifest, saveToolManifest } from '../tool-manifest.js';
+
+const createIssue: Tool = {
+  name: 'create_issue',
+  description: 'Create an issue',
+  inputSchema: { type: 'object' },
+};
+const listRepos: Tool = { name: 'list_repos', inputSchema: { type: 'object' } };
+
+describe('diffToolManifest', () => {
+  it('should report added, removed and changed tools with prefixed names', () => {
+    const changedIssue: Tool = {
+      ...createIssue,
+      inputSchema: { type: 'object', properties: { title: { type: 'string' } } },
+    };
+    const search: Tool = { name: 'search', inputSchema: { type: 'object' } };
+
+    expect(diffToolManifest('github', [createIssue, listRepos], [changedIssue, search])).toEqual({
+      added: ['github__search'],
+      removed: ['github__list_repos'],
+      changed: ['github__create_issue'],
+    });
+  });
+});
+
+describe('ToolManifestCache', () => {
+  let home: string;
+  let registry: ToolRegistry;
+  let emitter: EventEmitter;
+  const github: TargetServer = { name: 'github', command: 'gh', args: ['serve'] };
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'mcp-funnel-manifest-'));
+    vi.stubEnv('MCP_FUNNEL_HOME', home);
+    registry = new ToolRegistry({ servers: [] });
+    emitter = new EventEmitter();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  const createCache = (enabled = true) =>
+    new ToolManifestCache({ toolRegistry: registry, eventEmitter: emitter, enabled });
+
+  const connectWith = (tools: Tool[]) => {
+    for (const tool of tools) {
+      registry.registerDiscoveredTool({
+        fullName: `github__${tool.name}`,
+        originalName: tool.name,
+        serverName: 'github',
+        definition: tool,
+        client: {} as Client,
+      });
+    }
+    emitter.emit('server.connected', { serverName: 'github' });
+  };
+
+  it('should register cached tools at boot', async () => {
+    await saveToolManifest(github, [createIssue]);
+
+    const loaded = await createCache().preload([github]);
+
+    expect(loaded).toEqual(new Set(['github']));
+    expect(registry.getToolState('github__create_issue')).toMatchObject({
+      cached: true,
+      description: 'Create an issue',
+    });
+  });
+
+  it('should ignore manifests written for a different command line', async () => {
+    await saveToolManifest({ ...github, args: ['serve', '--readonly'] }, [createIssue]);
+
+    expect(await createCache().preload([github])).toEqual(new Set());
+  });
+
+  it('should not load manifests of eager servers when disabled', async () => {
+    await saveToolManifest(github, [createIssue]);
+
+    expect(await createCache(false).preload([github])).toEqual(new Set());
+    expect(registry.getAllTools()).toEqual([]);
+  });
+
+  it('should stop caching a lazy server once a reload makes it eager', async () => {
+    const cache = createCache(false);
+    await cache.preload([{ ...github, lazy: true }]);
+
+    await cache.preload([github]);
+    connectWith([createIssue]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await loadToolManifest(github)).toBeUndefined();
+  });
+
+  it('should persist the live tools of a server without manifest', async () => {
+    await createCache().preload([github]);
+
+    connectWith([createIssue]);
+
+    await vi.waitFor(async () => {
+      expect((await loadToolManifest(github))?.tools).toEqual([createIssue]);
+    });
+  });
+
+  it('should reconcile with the live listing and report drift', async () => {
+    await saveToolManifest(github, [createIssue, listRepos]);
+    await createCache().preload([github]);
+    const onChanged = vi.fn();
+    emitter.on('tools.changed', onChanged);
+
+    const changedIssue = { ...createIssue, description: 'Open an issue' };
+    connectWith([changedIssue]);
+
+    expect(registry.getToolState('github__list_repos')).toBeUndefined();
+    expect(registry.getToolState('github__create_issue')?.cached).toBeUndefined();
+    await vi.waitFor(() =>
+      expect(onChanged).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serverName: 'github',
+          added: [],
+          removed: ['github__list_repos'],
+          updated: ['github__create_issue'],
+        }),
+      ),
+    );
+    await vi.waitFor(async () => {
+      expect((await loadToolManifest(github))?.tools).toEqual([changedIssue]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { registerToolHandlers } from '../tool-handlers.js';
+import { createProxyServer } from '../proxy-server.js';
+import { ProxySessionManager } from '../proxy-sessions.js';
+import type { CoreToolContext } from '../../../tools/core-tool.interface.js';
+
+describe('ProxySessionManager', () => {
+  let config: ProxyConfig;
+  let registry: ToolRegistry;
+  let dispose: ReturnType<typeof vi.fn>;
+  let sessions: ProxySessionManager;
+
+  beforeEach(() => {
+    config = { servers: [], exposeTools: [], sessionIdleTimeoutMs: 1000 };
+    registry = new ToolRegistry(config);
+    registry.registerDiscoveredTool({
+      fullName: 'github__create_issue',
+      originalName: 'create_issue',
+      serverName: 'github',
+      definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+    });
+    dispose = vi.fn();
+    sessions = new ProxySessionManager(config, registry, (toolRegistry) => {
+      const server = createProxyServer();
+      registerToolHandlers(server, {
+        toolRegistry,
+        coreTools: new Map(),
+        createContext: () => ({}) as CoreToolContext,
+        execution: {},
+      });
+      return { server, dispose };
+    });
+  });
+
+  afterEach(async () => {
+    await sessions.closeAll();
+  });
+
+  /**
+   * Opens a session and connects an MCP client to its server.
+   * @param id - Session ID
+   * @returns The connected client
+   */
+  async function connect(id: string): Promise<Client> {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await sessions.open(id).server.connect(serverSide);
+    const client = new Client({ name: `client-${id}`, version: '1.0.0' });
+    await client.connect(clientSide);
+    return client;
+  }
+
+  it('should serve each session its own enabled tools', async () => {
+    const first = await connect('a');
+    const second = await connect('b');
+
+    sessions.get('a')!.toolRegistry.enableTools(['github__create_issue'], 'discovery');
+
+    expect((await first.listTools()).tools.map((t) => t.name)).toEqual(['github__create_issue']);
+    expect((await second.listTools()).tools).toEqual([]);
+    expect(sessions.list()).toEqual([
+      expect.objectContaining({
+        id: 'a',
+        client: 'client-a/1.0.0',
+        enabledTools: ['github__create_issue'],
+      }),
+      expect.objectContaining({ id: 'b', client: 'client-b/1.0.0', enabledTools: [] }),
+    ]);
+  });
+
+  it('should drop a session when its server closes', async () => {
+    const client = await connect('a');
+
+    await client.close();
+
+    expect(sessions.get('a')).toBeUndefined();
+    expect(dispose).toHaveBeenCalledOnce();
+    expect(await sessions.close('a')).toBe(false);
+  });
+
+  it('should close sessions idle for longer than sessionIdleTimeoutMs', async () => {
+    await connect('a');
+    await connect('b');
+    sessions.get('b')!.lastActiveAt = new Date(Date.now() + 5000);
+
+    expect(await sessions.closeIdleSessions(Date.now() + 2000)).toEqual(['a']);
+    expect(sessions.list().map((s) => s.id)).toEqual(['b']);
+    expect(sessions.touch('a')).toBe(false);
+  });
+
+  it('should reject a duplicate session ID', () => {
+    sessions.open('a');
+    expect(() => sessions.open('a')).toThrow('Session a already exists');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ReconnectionManager } from '@mcp-funnel/core';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { ReconnectingTools } from '../reconnecting-tools.js';
+
+const ok = { content: [{ type: 'text' as const, text: 'ok' }] };
+
+describe('ReconnectingTools', () => {
+  let config: ProxyConfig;
+  let registry: ToolRegistry;
+  let emitter: EventEmitter;
+  let managers: Map<string, ReconnectionManager>;
+  let tools: ReconnectingTools;
+  const client = {} as Client;
+  const next = vi.fn(async () => ok);
+
+  const register = (originalName: string) =>
+    registry.registerDiscoveredTool({
+      fullName: `github__${originalName}`,
+      originalName,
+      serverName: 'github',
+      definition: { name: originalName, description: 'desc', inputSchema: { type: 'object' } },
+      client,
+    });
+
+  /**
+   * Simulates a reconnect: the server lists its tools again and reports connected.
+   * @param names - Original names of the tools listed after reconnecting
+   */
+  const reconnect = (...names: string[]) => {
+    names.forEach(register);
+    emitter.emit('server.connected', { serverName: 'github' });
+  };
+
+  beforeEach(() => {
+    config = { servers: [], exposeTools: [], autoReconnect: {} as ProxyConfig['autoReconnect'] };
+    registry = new ToolRegistry(config);
+    emitter = new EventEmitter();
+    managers = new Map();
+    tools = new ReconnectingTools({
+      config,
+      toolRegistry: registry,
+      eventEmitter: emitter,
+      reconnectionManagers: managers,
+    });
+    next.mockClear();
+    register('create_issue');
+    register('search');
+    registry.enableTools(['github__create_issue'], 'toolset');
+  });
+
+  it('should keep tools listed as unavailable and restore them on reconnect', () => {
+    const changed = vi.fn();
+    emitter.on('tools.changed', changed);
+
+    tools.markUnavailable('github');
+
+    expect(registry.getExposedTools()).toEqual([
+      expect.objectContaining({
+        name: 'github__create_issue',
+        description: '[github] (unavailable, server reconnecting) desc',
+      }),
+    ]);
+    expect(registry.getToolState('github__create_issue')?.client).toBeUndefined();
+
+    reconnect('create_issue');
+
+    expect(registry.getToolState('github__create_issue')).toMatchObject({
+      enabledBy: 'toolset',
+      exposed: true,
+      client,
+    });
+    expect(registry.getToolState('github__create_issue')?.unavailable).toBeUndefined();
+    expect(registry.getToolState('github__search')).toBeUndefined();
+    expect(changed).toHaveBeenLastCalledWith(
+      expect.objectContaining({ removed: ['github__search'], updated: ['github__create_issue'] }),
+    );
+  });
+
+  it('should hide unavailable tools with hideUnavailableTools', () => {
+    config.autoReconnect!.hideUnavailableTools = true;
+    tools.markUnavailable('github');
+    expect(registry.getExposedTools()).toEqual([]);
+  });
+
+  it('should fail calls fast with the time until the next attempt', async () => {
+    managers.set('github', { getNextRetryDelay: () => 4200 } as ReconnectionManager);
+    tools.markUnavailable('github');
+
+    const result = await tools.around(next)(
+      registry.getToolForExecution('github__create_issue')!,
+      vi.fn(),
+      {},
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      isError: true,
+      content: [{ type: 'text', text: 'Server github is reconnecting, retry in 5 s' }],
+      _meta: { 'mcp-funnel/unavailable': { server: 'github', retryAfterMs: 5000 } },
+    });
+  });
+
+  it('should hold calls for queueCallsMs until the server is back', async () => {
+    config.autoReconnect!.queueCallsMs = 60_000;
+    tools.markUnavailable('github');
+
+    const pending = tools.around(next)(
+      registry.getToolForExecution('github__create_issue')!,
+      vi.fn(),
+      {},
+    );
+    reconnect('create_issue');
+
+    expect(await pending).toBe(ok);
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ fullName: 'github__create_issue', client }),
+      expect.any(Function),
+      {},
+    );
+  });
+
+  it('should stop holding calls when the server is given up', async () => {
+    config.autoReconnect!.queueCallsMs = 60_000;
+    tools.markUnavailable('github');
+
+    const pending = tools.around(next)(
+      registry.getToolForExecution('github__create_issue')!,
+      vi.fn(),
+      {},
+    );
+    tools.release('github');
+
+    expect(await pending).toMatchObject({ isError: true });
+    expect(registry.getAllTools()).toEqual([]);
+  });
+});
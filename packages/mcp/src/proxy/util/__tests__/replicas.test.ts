@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import { createReplicaSet } from '../replicas.js';
+
+describe('createReplicaSet', () => {
+  const server: TargetServer = {
+    name: 'search',
+    replicas: [
+      { type: 'streamable-http', url: 'http://search-1:8080/mcp' },
+      { type: 'stdio', command: 'search-server', args: ['--port', '0'] },
+    ],
+    loadBalancing: 'least-busy',
+  };
+
+  it('should create one transport per replica, labelled by endpoint', async () => {
+    const create = vi.fn(async (_server: TargetServer) => InMemoryTransport.createLinkedPair()[0]);
+    const replicaSet = createReplicaSet(server, { servers: [] } as ProxyConfig, create);
+
+    await replicaSet.start();
+
+    expect(create.mock.calls.map(([s]) => [s.name, s.transport?.type, s.replicas])).toEqual([
+      ['search', 'streamable-http', undefined],
+      ['search', 'stdio', undefined],
+    ]);
+    expect(replicaSet.getReplicaStatus()).toEqual([
+      { endpoint: 'http://search-1:8080/mcp', status: 'connected', inFlight: 0 },
+      { endpoint: 'search-server --port 0', status: 'connected', inFlight: 0 },
+    ]);
+    await replicaSet.close();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { TargetServer } from '@mcp-funnel/schemas';
+import type { ToolState } from '../../../tool-registry/index.js';
+import { ServerHealthMonitor, resolveHealthCheck } from '../server-health.js';
+
+const ok = { content: [{ type: 'text' as const, text: 'ok' }] };
+
+describe('ServerHealthMonitor', () => {
+  let emitter: EventEmitter;
+  let connected: Map<string, TargetServer>;
+  let ping: ReturnType<typeof vi.fn>;
+  let close: ReturnType<typeof vi.fn>;
+  let monitor: ServerHealthMonitor;
+  const tool = { fullName: 'remote__search', serverName: 'remote' } as ToolState;
+  const remote: TargetServer = {
+    name: 'remote',
+    transport: { type: 'sse', url: 'http://localhost:1/sse' },
+    healthCheck: { intervalMs: 1000, failureThreshold: 2 },
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    emitter = new EventEmitter();
+    connected = new Map([['remote', remote]]);
+    ping = vi.fn().mockResolvedValue({});
+    close = vi.fn().mockResolvedValue(undefined);
+    monitor = new ServerHealthMonitor({
+      connectedServers: connected,
+      clients: new Map([['remote', { ping } as unknown as Client]]),
+      transports: new Map([['remote', { close } as unknown as Transport]]),
+      eventEmitter: emitter,
+    });
+    emitter.emit('server.connected', { serverName: 'remote' });
+  });
+
+  afterEach(() => {
+    monitor.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should resolve health check defaults', () => {
+    expect(resolveHealthCheck(true)).toEqual({
+      intervalMs: 30_000,
+      timeoutMs: 5_000,
+      failureThreshold: 3,
+    });
+    expect(resolveHealthCheck(false)).toBeUndefined();
+  });
+
+  it('should open the circuit and close the transport after failed pings', async () => {
+    ping.mockRejectedValue(new Error('Request timed out'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(monitor.getCircuit('remote')).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 1,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(ping).toHaveBeenCalledWith({ timeout: 5000 });
+    expect(close).toHaveBeenCalledOnce();
+    expect(monitor.getCircuit('remote')).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      lastFailure: 'ping: Request timed out',
+    });
+
+    // Pings stop while the server is reconnected
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(ping).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close the circuit after a successful probe once reconnected', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('Request timed out'));
+    const guarded = monitor.around(failing);
+    await expect(guarded(tool, vi.fn(), {})).rejects.toThrow();
+    await expect(guarded(tool, vi.fn(), {})).rejects.toThrow();
+    expect(monitor.getCircuit('remote')?.state).toBe('open');
+
+    emitter.emit('server.disconnected', { serverName: 'remote' });
+    emitter.emit('server.connected', { serverName: 'remote' });
+    expect(monitor.getCircuit('remote')?.state).toBe('half-open');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(monitor.getCircuit('remote')).toEqual({
+      state: 'closed',
+      consecutiveFailures: 0,
+      lastFailure: 'remote__search: Request timed out',
+    });
+  });
+
+  it('should not count error results or upstream cancellation as failures', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await monitor.around(async () => ({ ...ok, isError: true }))(tool, vi.fn(), {});
+    await expect(
+      monitor.around(vi.fn().mockRejectedValue(new Error('aborted')))(tool, vi.fn(), {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow();
+
+    expect(monitor.getCircuit('remote')?.consecutiveFailures).toBe(0);
+  });
+
+  it('should leave servers without healthCheck alone', async () => {
+    connected.set('remote', { ...remote, healthCheck: undefined });
+    emitter.emit('server.connected', { serverName: 'remote' });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(monitor.getCircuit('remote')).toBeUndefined();
+  });
+});
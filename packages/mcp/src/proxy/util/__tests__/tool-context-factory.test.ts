@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ToolRegistry } from '../../../tool-registry/index.js';
+import { UnloadToolset } from '../../../tools/unload-toolset/index.js';
+import { createToolContext } from '../tool-context-factory.js';
+
+describe('createToolContext', () => {
+  it('should send tools/list_changed to the client when unload_toolset disables tools', async () => {
+    const config: ProxyConfig = { servers: [], exposeTools: [] };
+    const registry = new ToolRegistry(config);
+    registry.registerDiscoveredTool({
+      fullName: 'github__create_issue',
+      originalName: 'create_issue',
+      serverName: 'github',
+      definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+    });
+    registry.enableTools(['github__create_issue'], 'toolset');
+    const server = {
+      sendToolListChanged: vi.fn().mockResolvedValue(undefined),
+      notification: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const context = createToolContext(
+      registry,
+      config,
+      './.mcp-funnel.json',
+      server as unknown as Server,
+    );
+    await new UnloadToolset().handle({ tools: ['github__*'] }, context);
+
+    expect(registry.getExposedTools()).toEqual([]);
+    expect(server.sendToolListChanged).toHaveBeenCalledOnce();
+    expect(server.notification).not.toHaveBeenCalled();
+  });
+});
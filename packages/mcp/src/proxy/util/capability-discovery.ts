@@ -0,0 +1,231 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import type { ToolRegistry } from '../../tool-registry/index.js';
+
+/**
+ * Upper bound for a single discovery round-trip, matching tool discovery.
+ * @internal
+ */
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+/**
+ * A single page of a paginated MCP list response.
+ * @internal
+ */
+interface ListPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Follows `nextCursor` until a paginated list endpoint is exhausted.
+ * @param fetchPage - Fetches one page for the given cursor
+ * @returns All items across pages
+ * @internal
+ */
+async function collectAllPages<T>(
+  fetchPage: (cursor: string | undefined) => Promise<ListPage<T>>,
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+/**
+ * Races a discovery operation against the discovery timeout.
+ * @param operation - Discovery promise to guard
+ * @param label - Human readable operation name used in the timeout error
+ * @returns Result of the operation
+ * @throws Error when the timeout elapses first
+ * @internal
+ */
+async function withDiscoveryTimeout<T>(operation: Promise<T>, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timeout`)), DISCOVERY_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([operation, timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Difference between a server's registered tools before and after a refresh.
+ * Names are prefixed (`serverName__toolName`).
+ * @public
+ */
+export interface ToolListDiff {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+/**
+ * Re-lists a connected server's tools and reconciles them with the registry.
+ *
+ * Tools still offered are re-registered (which keeps their enablement state),
+ * tools the server no longer lists are removed.
+ * @param client - Connected MCP client
+ * @param targetServer - Server configuration
+ * @param toolRegistry - Registry holding the server's current tools
+ * @returns Which prefixed tool names were added, removed or changed
+ * @throws Error when listing fails or times out; the registry is left untouched
+ * @public
+ * @see file:./list-changed-handler.ts - Triggered by backend tools/list_changed
+ */
+export async function refreshServerTools(
+  client: Client,
+  targetServer: TargetServer | TargetServerZod,
+  toolRegistry: ToolRegistry,
+): Promise<ToolListDiff> {
+  const serverName = targetServer.name;
+  const previous = new Map(
+    toolRegistry
+      .getAllTools()
+      .filter((tool) => tool.serverName === serverName && !tool.isCoreTool)
+      .map((tool) => [tool.fullName, JSON.stringify(tool.sourceDefinition)]),
+  );
+
+  const tools = await withDiscoveryTimeout(
+    collectAllPages(async (cursor) => {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      return { items: page.tools, nextCursor: page.nextCursor };
+    }),
+    'Tool discovery',
+  );
+
+  const diff: ToolListDiff = { added: [], removed: [], updated: [] };
+  const current = new Set<string>();
+  for (const tool of tools) {
+    const fullName = `${serverName}__${tool.name}`;
+    current.add(fullName);
+    toolRegistry.registerDiscoveredTool({
+      fullName,
+      originalName: tool.name,
+      serverName,
+      definition: tool,
+      client,
+    });
+
+    // Hidden tools are never registered, so they cannot change the exposed list
+    if (!toolRegistry.getToolState(fullName)) continue;
+    if (!previous.has(fullName)) {
+      diff.added.push(fullName);
+    } else if (previous.get(fullName) !== JSON.stringify(tool)) {
+      diff.updated.push(fullName);
+    }
+  }
+
+  diff.removed = [...previous.keys()].filter((name) => !current.has(name));
+  toolRegistry.removeTools(diff.removed);
+
+  return diff;
+}
+
+/**
+ * Reports how much `compactSchemas` saved on a server's tool schemas.
+ * @param toolRegistry - Registry holding the server's tools
+ * @param serverName - Server name
+ * @public
+ * @see file:../../utils/schema-compaction.ts - Compaction rules
+ */
+export function reportSchemaCompaction(toolRegistry: ToolRegistry, serverName: string): void {
+  const report = toolRegistry.getSchemaCompactionReport(serverName);
+  if (!report) return;
+
+  console.error(
+    `[proxy] Compacted ${report.tools} tool schemas from ${serverName}: ` +
+      `~${report.fullTokens} -> ~${report.compactTokens} tokens`,
+  );
+  logEvent('info', 'schema:compacted', { server: serverName, ...report });
+}
+
+/**
+ * Discovers and registers resources and resource templates from a connected server.
+ * Servers that do not advertise the resources capability are skipped.
+ * @param client - Connected MCP client
+ * @param targetServer - Server configuration
+ * @param resourceRegistry - Registry for storing discovered resources
+ * @public
+ * @see file:./connection-setup.ts - Invoked right after tool discovery
+ */
+export async function discoverServerResources(
+  client: Client,
+  targetServer: TargetServer | TargetServerZod,
+  resourceRegistry: ResourceRegistry,
+): Promise<void> {
+  try {
+    if (!client.getServerCapabilities()?.resources) {
+      return;
+    }
+
+    const [resources, resourceTemplates] = await withDiscoveryTimeout(
+      Promise.all([
+        collectAllPages(async (cursor) => {
+          const page = await client.listResources(cursor ? { cursor } : undefined);
+          return { items: page.resources, nextCursor: page.nextCursor };
+        }),
+        // Some servers implement resources/list but not resources/templates/list
+        collectAllPages(async (cursor) => {
+          const page = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+          return { items: page.resourceTemplates, nextCursor: page.nextCursor };
+        }).catch(() => []),
+      ]),
+      'Resource discovery',
+    );
+
+    resourceRegistry.registerServerResources({
+      serverName: targetServer.name,
+      client,
+      resources,
+      resourceTemplates,
+    });
+  } catch (error) {
+    console.error(`[proxy] Failed to discover resources from ${targetServer.name}:`, error);
+    logError('resources:discovery_failed', error, { server: targetServer.name });
+  }
+}
+
+/**
+ * Discovers and registers prompts from a connected server.
+ * Servers that do not advertise the prompts capability are skipped.
+ * @param client - Connected MCP client
+ * @param targetServer - Server configuration
+ * @param promptRegistry - Registry for storing discovered prompts
+ * @public
+ * @see file:./connection-setup.ts - Invoked right after tool discovery
+ */
+export async function discoverServerPrompts(
+  client: Client,
+  targetServer: TargetServer | TargetServerZod,
+  promptRegistry: PromptRegistry,
+): Promise<void> {
+  try {
+    if (!client.getServerCapabilities()?.prompts) {
+      return;
+    }
+
+    const prompts = await withDiscoveryTimeout(
+      collectAllPages(async (cursor) => {
+        const page = await client.listPrompts(cursor ? { cursor } : undefined);
+        return { items: page.prompts, nextCursor: page.nextCursor };
+      }),
+      'Prompt discovery',
+    );
+
+    promptRegistry.registerServerPrompts({ serverName: targetServer.name, client, prompts });
+  } catch (error) {
+    console.error(`[proxy] Failed to discover prompts from ${targetServer.name}:`, error);
+    logError('prompts:discovery_failed', error, { server: targetServer.name });
+  }
+}
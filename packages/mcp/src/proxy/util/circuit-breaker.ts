@@ -0,0 +1,74 @@
+import type { ServerCircuitStatus } from '@mcp-funnel/models';
+
+/**
+ * Circuit breaker of one server, fed by health check pings and tool calls.
+ *
+ * While `closed`, consecutive failures are counted and the circuit opens at the
+ * threshold. An `open` circuit means the server is being reconnected; failures and
+ * successes of calls still in flight are ignored. The next connection moves it to
+ * `half-open`, where the next ping or call decides: success closes the circuit,
+ * failure opens it again.
+ * @public
+ * @see file:./server-health.ts - One breaker per server with health checks
+ */
+export class CircuitBreaker {
+  private state: ServerCircuitStatus['state'] = 'closed';
+  private failures = 0;
+  private lastFailure?: string;
+  private openedAt?: Date;
+
+  /**
+   * @param threshold - Consecutive failures that open the circuit
+   * @param onOpen - Called each time the circuit opens
+   */
+  public constructor(
+    private readonly threshold: number,
+    private readonly onOpen: () => void,
+  ) {}
+
+  /**
+   * @public
+   */
+  public recordSuccess(): void {
+    if (this.state === 'open') return;
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  /**
+   * @param reason - What failed, reported in the status
+   * @public
+   */
+  public recordFailure(reason: string): void {
+    if (this.state === 'open') return;
+    this.failures++;
+    this.lastFailure = reason;
+    if (this.state === 'half-open' || this.failures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = new Date();
+      this.onOpen();
+    }
+  }
+
+  /**
+   * Lets the next ping or call probe a server that connected again after the circuit opened.
+   * @public
+   */
+  public onConnected(): void {
+    if (this.state === 'open') this.state = 'half-open';
+  }
+
+  /**
+   * @returns Current state, as reported by getServerStatus
+   * @public
+   */
+  public get status(): ServerCircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      ...(this.lastFailure && { lastFailure: this.lastFailure }),
+      ...(this.openedAt && { openedAt: this.openedAt.toISOString() }),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
+  McpError,
+  RootsListChangedNotificationSchema,
+  type ClientCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logEvent } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { UpstreamClients } from './upstream-clients.js';
+
+/**
+ * Client capabilities the proxy can relay from backends to the upstream client.
+ * @internal
+ */
+type ForwardableCapability = 'sampling' | 'elicitation' | 'roots';
+
+/**
+ * Computes the client capabilities to declare when connecting to a backend.
+ *
+ * A capability is declared unless the server config denies it
+ * (`clientCapabilities.<name>: false`). Backends usually connect before an upstream client
+ * has initialized, and the client a request is routed to can change with every request, so
+ * upstream support is checked when a request arrives instead.
+ * @param targetServer - Server configuration
+ * @returns Capabilities for the backend Client constructor
+ * @public
+ * @see file:./connection-setup.ts - Used when creating the backend client
+ */
+export function resolveBackendClientCapabilities(
+  targetServer: TargetServer | TargetServerZod,
+): ClientCapabilities {
+  const allowed = targetServer.clientCapabilities ?? {};
+  const isForwardable = (capability: ForwardableCapability): boolean =>
+    allowed[capability] !== false;
+
+  const capabilities: ClientCapabilities = {};
+  if (isForwardable('sampling')) capabilities.sampling = {};
+  if (isForwardable('elicitation')) capabilities.elicitation = {};
+  if (isForwardable('roots')) capabilities.roots = { listChanged: true };
+  return capabilities;
+}
+
+/**
+ * Picks the upstream client a backend request is forwarded to.
+ * @param upstream - Upstream clients of the proxy
+ * @param capability - Capability required by the forwarded request
+ * @param serverName - Backend that sent the request, for the error message
+ * @returns Proxy server of the upstream client
+ * @throws McpError when no upstream client is connected or it lacks the capability
+ * @internal
+ */
+function resolveUpstream(
+  upstream: UpstreamClients,
+  capability: ForwardableCapability,
+  serverName: string,
+): Server {
+  const server = upstream.current();
+  if (!server) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `No upstream client connected (requested by ${serverName})`,
+    );
+  }
+  if (!server.getClientCapabilities()?.[capability]) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Upstream client does not support ${capability} (requested by ${serverName})`,
+    );
+  }
+  return server;
+}
+
+/**
+ * Routes sampling, elicitation and roots requests from a backend to the upstream client.
+ *
+ * Only capabilities that were declared to the backend get a handler, mirroring what
+ * the backend was told during initialization.
+ * @param client - Backend MCP client
+ * @param targetServer - Server configuration
+ * @param capabilities - Capabilities declared to the backend
+ * @param upstream - Upstream clients of the proxy
+ * @public
+ * @see file:./connection-setup.ts - Registered before the client connects
+ */
+export function registerClientRequestForwarding(
+  client: Client,
+  targetServer: TargetServer | TargetServerZod,
+  capabilities: ClientCapabilities,
+  upstream: UpstreamClients,
+): void {
+  const serverName = targetServer.name;
+
+  if (capabilities.sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      const server = resolveUpstream(upstream, 'sampling', serverName);
+      logEvent('debug', 'client-request:forward', { server: serverName, method: request.method });
+      return server.createMessage(request.params, { signal: extra.signal });
+    });
+  }
+
+  if (capabilities.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      const server = resolveUpstream(upstream, 'elicitation', serverName);
+      logEvent('debug', 'client-request:forward', { server: serverName, method: request.method });
+      return server.elicitInput(request.params, { signal: extra.signal });
+    });
+  }
+
+  if (capabilities.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async (request, extra) => {
+      const server = resolveUpstream(upstream, 'roots', serverName);
+      logEvent('debug', 'client-request:forward', { server: serverName, method: request.method });
+      return server.listRoots(request.params, { signal: extra.signal });
+    });
+  }
+}
+
+/**
+ * Relays `notifications/roots/list_changed` from the upstream client to all backends.
+ * Backends that were not given the roots capability reject the notification locally,
+ * which is ignored.
+ * @param upstream - Proxy server holding the upstream client session
+ * @param clients - Connected backend clients by server name
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerRootsListChangedForwarding(
+  upstream: Server,
+  clients: Map<string, Client>,
+): void {
+  upstream.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    await Promise.allSettled(
+      Array.from(clients.values()).map((client) => client.sendRootsListChanged()),
+    );
+  });
+}
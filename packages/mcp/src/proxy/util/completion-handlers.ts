@@ -0,0 +1,87 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  McpError,
+  type CompleteRequest,
+  type CompleteResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+
+/**
+ * Completion result returned when the owning backend cannot complete.
+ * @internal
+ */
+const EMPTY_COMPLETION: CompleteResult = { completion: { values: [], hasMore: false } };
+
+/**
+ * Backend client plus the reference rewritten to the backend's own names.
+ * @internal
+ */
+interface CompletionTarget {
+  client: Client;
+  ref: CompleteRequest['params']['ref'];
+}
+
+/**
+ * Maps a proxy-level completion reference to the owning backend.
+ * Prompt refs use prefixed prompt names, resource refs use namespaced template URIs
+ * (or namespaced resource URIs).
+ * @param ref - Reference from the upstream request
+ * @param promptRegistry - Registry of aggregated prompts
+ * @param resourceRegistry - Registry of aggregated resources and templates
+ * @returns Completion target, or undefined when nothing exposed matches
+ * @internal
+ */
+function resolveCompletionTarget(
+  ref: CompleteRequest['params']['ref'],
+  promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
+): CompletionTarget | undefined {
+  if (ref.type === 'ref/prompt') {
+    const prompt = promptRegistry.getPromptForExecution(ref.name);
+    return prompt && { client: prompt.client, ref: { ...ref, name: prompt.originalName } };
+  }
+
+  const resolved =
+    resourceRegistry.resolveResourceTemplate(ref.uri) ?? resourceRegistry.resolveResource(ref.uri);
+  return resolved && { client: resolved.client, ref: { ...ref, uri: resolved.originalUri } };
+}
+
+/**
+ * Registers the `completion/complete` handler on the proxy server.
+ *
+ * Requests are forwarded to the backend owning the referenced prompt or resource
+ * template. Backends that do not advertise the completions capability yield an empty
+ * result instead of an error, so clients can always ask.
+ * @param server - Proxy MCP server (must advertise the completions capability)
+ * @param promptRegistry - Registry of aggregated prompts
+ * @param resourceRegistry - Registry of aggregated resources and templates
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerCompletionHandler(
+  server: Server,
+  promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
+): void {
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref } = request.params;
+    const target = resolveCompletionTarget(ref, promptRegistry, resourceRegistry);
+    if (!target) {
+      const message =
+        ref.type === 'ref/prompt'
+          ? `Prompt not found: ${ref.name}`
+          : `Resource not found: ${ref.uri}`;
+      throw new McpError(ErrorCode.InvalidParams, message);
+    }
+
+    if (!target.client.getServerCapabilities()?.completions) {
+      return EMPTY_COMPLETION;
+    }
+
+    return target.client.complete({ ...request.params, ref: target.ref }, { signal: extra.signal });
+  });
+}
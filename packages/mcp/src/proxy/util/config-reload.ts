@@ -0,0 +1,198 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import { normalizeServers } from '../../utils/normalizeServers.js';
+import type { ToolRegistry } from '../../tool-registry/index.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import type { ServerConnectionManager } from './server-connection-manager.js';
+import { refreshServerTools } from './capability-discovery.js';
+
+/**
+ * Settings that decide which backend tools get registered at all.
+ * @internal
+ */
+const TOOL_FILTER_SETTINGS = ['alwaysVisibleTools', 'exposeTools', 'hideTools'];
+
+/**
+ * Difference between the running and a reloaded configuration.
+ * @public
+ */
+export interface ConfigDiff {
+  added: TargetServer[];
+  removed: string[];
+  /** Servers whose configuration changed; they are restarted */
+  changed: TargetServer[];
+  /** Top-level settings other than `servers` whose value changed */
+  settings: string[];
+}
+
+/**
+ * Everything a config reload needs to touch in the running proxy.
+ * @public
+ */
+export interface ConfigReloadTarget {
+  /** Live config object shared by registries and managers; updated in place */
+  config: ProxyConfig;
+  /** Live normalized server list; updated in place */
+  servers: TargetServer[];
+  clients: Map<string, Client>;
+  connectionManager: ServerConnectionManager;
+  toolRegistry: ToolRegistry;
+  resourceRegistry: ResourceRegistry;
+  promptRegistry: PromptRegistry;
+  /** Starts added or changed servers the same way as at startup */
+  startServers: (servers: TargetServer[]) => Promise<void>;
+  /** Re-applies settings held outside the registries, e.g. which core tools are enabled */
+  onSettingsApplied?: () => void;
+}
+
+/**
+ * Compares two configurations.
+ * @param previous - Running configuration
+ * @param next - Reloaded configuration
+ * @returns Added, removed and changed servers plus changed top-level settings
+ * @public
+ */
+export function diffProxyConfig(previous: ProxyConfig, next: ProxyConfig): ConfigDiff {
+  const before = new Map(normalizeServers(previous.servers).map((s) => [s.name, s]));
+  const after = normalizeServers(next.servers);
+  const afterNames = new Set(after.map((s) => s.name));
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof ProxyConfig)[]);
+  keys.delete('servers');
+
+  return {
+    added: after.filter((s) => !before.has(s.name)),
+    removed: [...before.keys()].filter((name) => !afterNames.has(name)),
+    changed: after.filter(
+      (s) => before.has(s.name) && JSON.stringify(before.get(s.name)) !== JSON.stringify(s),
+    ),
+    settings: [...keys].filter(
+      (key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]),
+    ),
+  };
+}
+
+/**
+ * @param diff - Result of {@link diffProxyConfig}
+ * @returns True when the configurations are equivalent
+ * @public
+ */
+export function isEmptyConfigDiff(diff: ConfigDiff): boolean {
+  return (
+    !diff.added.length && !diff.removed.length && !diff.changed.length && !diff.settings.length
+  );
+}
+
+/**
+ * Applies a reloaded configuration to the running proxy.
+ *
+ * Only affected servers are touched: removed and changed servers are disconnected and
+ * their tools, resources and prompts dropped, then added and changed servers are started.
+ * The shared config object is updated in place and tool/prompt exposure is recomputed.
+ * When tool filters changed, connected servers are re-listed so tools that are no longer
+ * hidden show up. Sending `tools/list_changed` is left to the caller.
+ * @param target - Running proxy state
+ * @param next - Validated new configuration
+ * @returns What changed
+ * @public
+ * @see file:../mcp-proxy.ts - reloadConfig
+ * @see file:../../config-watcher.ts - Watches the config files
+ */
+export async function applyConfigReload(
+  target: ConfigReloadTarget,
+  next: ProxyConfig,
+): Promise<ConfigDiff> {
+  const diff = diffProxyConfig(target.config, next);
+  if (isEmptyConfigDiff(diff)) return diff;
+
+  logEvent('info', 'config:reload', {
+    added: diff.added.map((s) => s.name),
+    removed: diff.removed,
+    changed: diff.changed.map((s) => s.name),
+    settings: diff.settings,
+  });
+
+  for (const name of [...diff.removed, ...diff.changed.map((s) => s.name)]) {
+    await stopServer(target, name);
+  }
+
+  replaceConfig(target.config, next);
+  target.servers.splice(0, target.servers.length, ...normalizeServers(next.servers));
+  target.toolRegistry.applyConfigFilters();
+  target.resourceRegistry.applyConfigFilters();
+  target.promptRegistry.applyConfigFilters();
+  target.onSettingsApplied?.();
+
+  if (diff.settings.some((key) => TOOL_FILTER_SETTINGS.includes(key))) {
+    await rediscoverTools(target);
+  }
+
+  const started = [...diff.added, ...diff.changed];
+  target.connectionManager.initializeDisconnectedServers(started);
+  await target.startServers(started);
+
+  return diff;
+}
+
+/**
+ * Disconnects a server without reconnection and forgets everything it registered.
+ * @param target - Running proxy state
+ * @param name - Server name
+ * @internal
+ */
+async function stopServer(target: ConfigReloadTarget, name: string): Promise<void> {
+  const { connectionManager } = target;
+
+  const reconnectionManagers = connectionManager.getReconnectionManagers();
+  reconnectionManagers.get(name)?.cancel();
+  reconnectionManagers.delete(name);
+
+  if (connectionManager.getConnectedServers().has(name)) {
+    try {
+      await connectionManager.disconnectServer(name);
+    } catch (error) {
+      logError('config-reload:disconnect', error, { name });
+    }
+  }
+
+  connectionManager.getDisconnectedServers().delete(name);
+  target.toolRegistry.removeToolsFromServer(name);
+  target.resourceRegistry.removeResourcesFromServer(name);
+  target.promptRegistry.removePromptsFromServer(name);
+}
+
+/**
+ * Re-lists the tools of all connected servers after the tool filters changed.
+ * @param target - Running proxy state
+ * @internal
+ */
+async function rediscoverTools(target: ConfigReloadTarget): Promise<void> {
+  const connected = target.connectionManager.getConnectedServers();
+  await Promise.all(
+    Array.from(connected.values()).map(async (server) => {
+      const client = target.clients.get(server.name);
+      if (!client) return;
+      try {
+        await refreshServerTools(client, server, target.toolRegistry);
+      } catch (error) {
+        logError('config-reload:rediscover', error, { name: server.name });
+      }
+    }),
+  );
+}
+
+/**
+ * Replaces the contents of the shared config object.
+ * @param live - Config object referenced throughout the proxy
+ * @param next - New configuration
+ * @internal
+ */
+function replaceConfig(live: ProxyConfig, next: ProxyConfig): void {
+  const record = live as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!(key in next)) delete record[key];
+  }
+  Object.assign(record, next);
+}
@@ -5,6 +5,7 @@ import {
   logEvent,
   StdioClientTransport,
   type IAuthProvider,
+  type ReplicaSetTransport,
   type ITokenStorage,
 } from '@mcp-funnel/core';
 import type { TargetServerZod, ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
@@ -13,6 +14,20 @@ import { buildServerEnvironment } from '../../env/index.js';
 import { createTransport } from '../../utils/transport/index.js';
 import { createAuthProvider } from './auth-provider-factory.js';
 import type { ToolRegistry } from '../../tool-registry/index.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import {
+  discoverServerPrompts,
+  discoverServerResources,
+  reportSchemaCompaction,
+} from './capability-discovery.js';
+import {
+  registerClientRequestForwarding,
+  resolveBackendClientCapabilities,
+} from './client-request-forwarding.js';
+import { recordSession, resolveReplayFixture } from './session-recording.js';
+import { createReplicaSet } from './replicas.js';
+import type { UpstreamClients } from './upstream-clients.js';
 
 /**
  * Configuration for establishing a server connection.
@@ -27,6 +42,12 @@ export interface ConnectionConfig {
   configPath: string;
   /** Tool registry for registering discovered tools */
   toolRegistry: ToolRegistry;
+  /** Resource registry for registering discovered resources and templates */
+  resourceRegistry: ResourceRegistry;
+  /** Prompt registry for registering discovered prompts */
+  promptRegistry: PromptRegistry;
+  /** Upstream clients that backend sampling/elicitation/roots requests are forwarded to */
+  upstream: UpstreamClients;
 }
 
 /**
@@ -40,6 +61,8 @@ export interface ConnectionResult {
   transport: Transport;
   /** ISO timestamp when connection was established */
   connectedAt: string;
+  /** Transport to all replicas, for servers with `replicas` */
+  replicaSet?: ReplicaSetTransport;
 }
 
 /**
@@ -80,17 +103,11 @@ async function buildConnectionEnvironment(
   config: ProxyConfig,
   configPath: string,
 ): Promise<Record<string, string>> {
-  const extendedServer = targetServer as TargetServerZod;
   const legacyServer = targetServer as TargetServer;
-
-  const baseCommand =
-    legacyServer.command ??
-    (extendedServer.transport?.type === 'stdio' ? extendedServer.transport.command : undefined) ??
-    '';
-  const baseArgs =
-    legacyServer.args ??
-    (extendedServer.transport?.type === 'stdio' ? extendedServer.transport.args : undefined) ??
-    [];
+  const { command: baseCommand, args: baseArgs } = extractCommandAndArgs(
+    legacyServer,
+    targetServer as TargetServerZod,
+  );
 
   const targetForEnv: TargetServer = {
     name: targetServer.name,
@@ -296,6 +313,7 @@ async function discoverServerTools(
         client,
       });
     }
+    reportSchemaCompaction(toolRegistry, targetServer.name);
   } catch (error) {
     console.error(`[proxy] Failed to discover tools from ${targetServer.name}:`, error);
     logError('tools:discovery_failed', error, { server: targetServer.name });
@@ -303,11 +321,11 @@ async function discoverServerTools(
 }
 
 /**
- * Establishes connection to a target server and discovers its tools.
+ * Establishes connection to a target server and discovers its tools and resources.
  * Builds environment with secret resolution, creates transport with auth support,
- * connects MCP client, and discovers/registers server tools.
+ * connects MCP client, and discovers/registers server tools and resources.
  * @param connectionConfig - Connection configuration
- * @returns Client, transport, and connection timestamp
+ * @returns Client, transport, connection timestamp and the replica set of servers with `replicas`
  * @throws Various errors from transport creation, client connection, or tool discovery
  * @public
  * @see {@link ServerConnectionManager} - Usage in connection manager
@@ -315,7 +333,15 @@ async function discoverServerTools(
 export async function connectToServer(
   connectionConfig: ConnectionConfig,
 ): Promise<ConnectionResult> {
-  const { targetServer, config, configPath, toolRegistry } = connectionConfig;
+  const {
+    targetServer,
+    config,
+    configPath,
+    toolRegistry,
+    resourceRegistry,
+    promptRegistry,
+    upstream,
+  } = connectionConfig;
 
   logEvent('info', 'server:connect_start', {
     name: targetServer.name,
@@ -325,14 +351,29 @@ export async function connectToServer(
     hasTransport: !!(targetServer as TargetServerZod).transport,
   });
 
-  const client = new Client({
-    name: `proxy-client-${targetServer.name}`,
-    version: '1.0.0',
-  });
+  const capabilities = resolveBackendClientCapabilities(targetServer);
+  const client = new Client(
+    {
+      name: `proxy-client-${targetServer.name}`,
+      version: '1.0.0',
+    },
+    { capabilities },
+  );
+  registerClientRequestForwarding(client, targetServer, capabilities, upstream);
 
   const resolvedEnv = await buildConnectionEnvironment(targetServer, config, configPath);
 
-  const transport = await createServerTransport(targetServer, resolvedEnv);
+  const create = (server: TargetServer | TargetServerZod) =>
+    createServerTransport(resolveReplayFixture(server, configPath), resolvedEnv);
+  const replicaSet = targetServer.replicas
+    ? createReplicaSet(targetServer, config, create)
+    : undefined;
+  const transport = recordSession(
+    replicaSet ?? (await create(targetServer)),
+    targetServer,
+    config,
+    configPath,
+  );
 
   await client.connect(transport);
 
@@ -343,12 +384,15 @@ export async function connectToServer(
     name: targetServer.name,
   });
 
-  // Discover tools from the newly connected server
+  // Discover tools, resources and prompts from the newly connected server
   await discoverServerTools(client, targetServer, toolRegistry);
+  await discoverServerResources(client, targetServer, resourceRegistry);
+  await discoverServerPrompts(client, targetServer, promptRegistry);
 
   return {
     client,
     transport,
     connectedAt,
+    replicaSet,
   };
 }
@@ -0,0 +1,79 @@
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { CoreToolContext, ICoreTool } from '../../tools/core-tool.interface.js';
+import { DiscoverToolsByWords } from '../../tools/discover-tools-by-words/index.js';
+import { GetToolSchema } from '../../tools/get-tool-schema/index.js';
+import { BridgeToolRequest } from '../../tools/bridge-tool-request/index.js';
+import { LoadToolset } from '../../tools/load-toolset/index.js';
+import { UnloadToolset } from '../../tools/unload-toolset/index.js';
+import { ManageCommands } from '../../tools/manage-commands/index.js';
+import { ReadToolResult } from '../../tools/read-tool-result/index.js';
+import type { ToolRegistry } from '../../tool-registry/index.js';
+
+/**
+ * Creates one instance of every built-in core tool.
+ * @returns All core tools, enabled or not
+ * @public
+ */
+export function createCoreTools(): ICoreTool[] {
+  return [
+    new DiscoverToolsByWords(),
+    new GetToolSchema(),
+    new BridgeToolRequest(),
+    new LoadToolset(),
+    new UnloadToolset(),
+    new ManageCommands(),
+    new ReadToolResult(),
+  ];
+}
+
+/**
+ * Configuration for {@link syncCoreTools}.
+ * @public
+ */
+export interface CoreToolSyncConfig {
+  /** All core tool instances, from {@link createCoreTools} */
+  available: ICoreTool[];
+  /** Currently registered core tools by name; updated in place */
+  active: Map<string, ICoreTool>;
+  /** Configuration deciding which core tools are enabled (`exposeCoreTools`) */
+  config: ProxyConfig;
+  toolRegistry: ToolRegistry;
+  /** Builds the context passed to `onInit` */
+  createContext: () => CoreToolContext;
+}
+
+/**
+ * Registers core tools that are enabled by the config and unregisters those that no longer are.
+ * Used at startup and again after a config reload.
+ * @param syncConfig - Core tools, registry and config
+ * @public
+ * @see file:../mcp-proxy.ts - Called from initialize and reloadConfig
+ */
+export function syncCoreTools(syncConfig: CoreToolSyncConfig): void {
+  const { available, active, config, toolRegistry, createContext } = syncConfig;
+
+  for (const tool of available) {
+    const enabled = tool.isEnabled(config);
+
+    if (enabled && !active.has(tool.name)) {
+      active.set(tool.name, tool);
+      // Register core tools with the registry (they bypass exposeTools filtering)
+      toolRegistry.registerDiscoveredTool({
+        fullName: tool.name,
+        originalName: tool.name,
+        serverName: 'mcp-funnel',
+        definition: tool.tool,
+        isCoreTool: true,
+      });
+      if (tool.onInit) {
+        tool.onInit(createContext());
+      }
+      console.error(`[proxy] Registered core tool: ${tool.name}`);
+    } else if (!enabled && active.has(tool.name)) {
+      active.delete(tool.name);
+      toolRegistry.removeTools([tool.name]);
+      tool.onDestroy?.();
+      console.error(`[proxy] Unregistered core tool: ${tool.name}`);
+    }
+  }
+}
@@ -1,9 +1,12 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { logEvent } from '@mcp-funnel/core';
+import { logEvent, type ReplicaSetTransport } from '@mcp-funnel/core';
 import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
 import type { EventEmitter } from 'events';
 import type { ToolRegistry } from '../../tool-registry/index.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import type { ReconnectingTools } from './reconnecting-tools.js';
 
 /**
  * Configuration for setting up disconnect handling on a transport.
@@ -94,8 +97,18 @@ export interface ServerDisconnectionConfig {
   connectionTimestamps: Map<string, string>;
   /** Map of server name to transport */
   transports: Map<string, Transport>;
+  /** Replica sets by server name, for servers with `replicas` */
+  replicaSets: Map<string, ReplicaSetTransport>;
   /** Tool registry for removing server tools */
   toolRegistry: ToolRegistry;
+  /** Resource registry for removing server resources */
+  resourceRegistry: ResourceRegistry;
+  /** Prompt registry for removing server prompts */
+  promptRegistry: PromptRegistry;
+  /** Keep the server's tools discoverable as cached instead of removing them */
+  detachTools?: boolean;
+  /** Set when the server will be reconnected: its tools are kept as unavailable */
+  reconnectingTools?: Pick<ReconnectingTools, 'markUnavailable'>;
 }
 
 /**
@@ -103,8 +116,10 @@ export interface ServerDisconnectionConfig {
  * Cleanup performed:
  * - Moves server from connected to disconnected map with error info
  * - Removes client from clients map
- * - Removes all tools registered by this server from tool registry
- * - Deletes connection timestamp and transport references
+ * - Removes all tools, resources and prompts registered by this server from the registries
+ *   (tools of lazy or cached servers are only detached from the client, tools of
+ *   reconnecting servers are kept as unavailable)
+ * - Deletes connection timestamp, transport and replica set references
  * - Emits 'server.disconnected' event
  * Manual disconnects are marked as 'manual_disconnect' regardless of the provided reason.
  * @param config - Disconnection configuration with all necessary state maps
@@ -123,7 +138,12 @@ export function handleServerDisconnection(config: ServerDisconnectionConfig): vo
     clients,
     connectionTimestamps,
     transports,
+    replicaSets,
     toolRegistry,
+    resourceRegistry,
+    promptRegistry,
+    detachTools,
+    reconnectingTools,
   } = config;
 
   const serverName = targetServer.name;
@@ -164,11 +184,21 @@ export function handleServerDisconnection(config: ServerDisconnectionConfig): vo
     clients.delete(serverName);
 
     // Clean up any resources associated with this client
-    // Remove tools from registry for this server
-    toolRegistry.removeToolsFromServer(serverName);
+    // Remove tools, resources and prompts from registries for this server.
+    // Lazy and cached servers keep their tools discoverable while they are down.
+    if (reconnectingTools) {
+      reconnectingTools.markUnavailable(serverName);
+    } else if (detachTools) {
+      toolRegistry.detachServerTools(serverName);
+    } else {
+      toolRegistry.removeToolsFromServer(serverName);
+    }
+    resourceRegistry.removeResourcesFromServer(serverName);
+    promptRegistry.removePromptsFromServer(serverName);
   }
 
   // Clean up connection tracking
   connectionTimestamps.delete(serverName);
   transports.delete(serverName);
+  replicaSets.delete(serverName);
 }
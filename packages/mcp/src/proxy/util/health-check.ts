@@ -14,16 +14,22 @@ export interface HealthCheckConfig {
   intervalMs: number;
   /** Callback invoked when health check fails */
   onHealthCheckFailed: (error: Error) => void;
+  /** Callback invoked when health check passes */
+  onHealthCheckPassed?: () => void;
+  /** Protocol-level probe, e.g. an MCP `ping`; rejects when the server is unresponsive */
+  ping?: () => Promise<unknown>;
 }
 
 /**
- * Manages periodic health checks for a transport process.
- * Performs basic process liveness checks at configured intervals.
+ * Manages periodic health checks for a transport process or a connected server.
+ * Performs process liveness checks and, when configured, a protocol-level ping at
+ * configured intervals.
  * Extracted from transport implementation to reduce file size and improve testability.
- * SEAM: Additional health checks can be implemented in performHealthCheck (ping messages,
- * stream validation, protocol-specific checks).
+ * SEAM: Additional health checks can be implemented in performHealthCheck (stream
+ * validation, other protocol-specific checks).
  * @public
  * @see file:../transports/reconnectable-transport.ts:87 - Usage in transport
+ * @see file:./server-health.ts - Ping probes of remote backends
  */
 export class HealthCheckManager {
   private healthCheckInterval?: NodeJS.Timeout;
@@ -34,20 +40,24 @@ export class HealthCheckManager {
    * Starts periodic health checks on the provided process.
    * Only starts if health checks are enabled in config. Health checks run at the
    * configured interval and invoke the failure callback on error.
-   * @param process - Function returning the current child process (or undefined if not running)
+   * @param process - Function returning the current child process (or undefined if not
+   *   running); omitted for servers without a local process, which are only pinged
    * @public
    */
-  public start(process: () => ChildProcess | undefined): void {
+  public start(process?: () => ChildProcess | undefined): void {
     if (!this.config.enabled) {
       return;
     }
 
     this.healthCheckInterval = setInterval(() => {
-      this.performHealthCheck(process).catch((error) => {
-        const errorMsg = prefixedLog(this.config.serverName, `Health check failed: ${error}`);
-        console.error(errorMsg);
-        this.config.onHealthCheckFailed(error);
-      });
+      this.performHealthCheck(process).then(
+        () => this.config.onHealthCheckPassed?.(),
+        (error) => {
+          const errorMsg = prefixedLog(this.config.serverName, `Health check failed: ${error}`);
+          console.error(errorMsg);
+          this.config.onHealthCheckFailed(error);
+        },
+      );
     }, this.config.intervalMs);
   }
 
@@ -63,23 +73,29 @@ export class HealthCheckManager {
   }
 
   /**
-   * Performs a single health check on the process.
-   * Currently checks if process exists and is not killed.
-   * SEAM: Can be extended with ping messages, stream validation, or protocol-specific checks.
+   * Performs a single health check.
+   * Checks if the process exists and is not killed, then pings the server if configured.
+   * SEAM: Can be extended with stream validation or other protocol-specific checks.
    * @param getProcess - Function returning the current child process
-   * @throws Error when process is not running or killed
+   * @throws Error when process is not running or killed, or the ping fails
    * @internal
    */
-  private async performHealthCheck(getProcess: () => ChildProcess | undefined): Promise<void> {
-    const process = getProcess();
+  private async performHealthCheck(getProcess?: () => ChildProcess | undefined): Promise<void> {
+    if (getProcess) {
+      const process = getProcess();
 
-    // Simple health check - ensure the process is still alive
-    if (!process || process.killed) {
-      throw new Error('Process is not running');
+      // Simple health check - ensure the process is still alive
+      if (!process || process.killed) {
+        throw new Error('Process is not running');
+      }
+    }
+
+    // Protocol-level check - a wedged server keeps its process or socket alive
+    if (this.config.ping) {
+      await this.config.ping();
     }
 
     // SEAM: Additional health checks can be implemented here:
-    // - Sending a ping message if the server supports it
     // - Checking if stdin/stdout/stderr streams are still writable/readable
     // - Custom protocol-specific health checks
   }
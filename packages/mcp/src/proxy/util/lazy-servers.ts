@@ -0,0 +1,190 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+import type { ToolRegistry, ToolState } from '../../tool-registry/index.js';
+import type { ServerConnectionManager } from './server-connection-manager.js';
+
+/**
+ * How the configured servers are brought up at startup.
+ * @public
+ */
+export interface StartupPlan {
+  /** Servers whose connection startup waits for */
+  connectNow: (TargetServer | TargetServerZod)[];
+  /** Servers already served from their manifest, connected without blocking startup */
+  connectInBackground: (TargetServer | TargetServerZod)[];
+}
+
+/**
+ * Configuration for {@link LazyServerManager}.
+ * @public
+ */
+export interface LazyServerManagerConfig {
+  /** Connection manager used to start and stop lazy servers */
+  connectionManager: Pick<
+    ServerConnectionManager,
+    'connectToSingleServer' | 'disconnectServer' | 'getConnectedServers'
+  >;
+  /** Registry holding the tools of lazy servers */
+  toolRegistry: ToolRegistry;
+  /** Proxy event emitter carrying 'server.connected' */
+  eventEmitter: EventEmitter;
+}
+
+/**
+ * Starts `lazy: true` servers on their first tool call and stops them again when idle.
+ *
+ * Lazy servers whose tools were loaded from a manifest are not connected at startup,
+ * so discovery works without spawning the backend. Lazy servers without a manifest are
+ * connected once to build it.
+ * @public
+ * @see file:./manifest-cache.ts - Loads and maintains the manifests
+ * @see file:../../utils/tool-executor.ts - Calls {@link LazyServerManager.runOnServer}
+ */
+export class LazyServerManager {
+  private servers = new Map<string, TargetServer | TargetServerZod>();
+  private pendingStarts = new Map<string, Promise<void>>();
+  private activeCalls = new Map<string, number>();
+  private idleTimers = new Map<string, NodeJS.Timeout>();
+
+  public constructor(private config: LazyServerManagerConfig) {
+    config.eventEmitter.on('server.connected', ({ serverName }: { serverName: string }) => {
+      if (this.servers.has(serverName)) {
+        this.scheduleIdleShutdown(serverName);
+      }
+    });
+    config.eventEmitter.on('config.reloaded', ({ removed }: { removed: string[] }) => {
+      removed.forEach((name) => this.forget(name));
+    });
+  }
+
+  /**
+   * Records the lazy servers and decides which servers to connect at startup. Also called
+   * with the added and changed servers of a config reload; servers that are no longer lazy
+   * are forgotten.
+   * @param servers - All configured servers, or the ones a reload starts
+   * @param cachedServers - Servers whose tools were loaded from a manifest
+   * @returns Startup plan; lazy servers with a manifest are left out entirely
+   * @public
+   */
+  public planStartup(
+    servers: (TargetServer | TargetServerZod)[],
+    cachedServers: Set<string>,
+  ): StartupPlan {
+    const plan: StartupPlan = { connectNow: [], connectInBackground: [] };
+
+    for (const server of servers) {
+      const cached = cachedServers.has(server.name);
+      if (server.lazy) {
+        this.servers.set(server.name, server);
+      } else {
+        this.forget(server.name);
+      }
+      if (server.lazy && cached) continue;
+      (cached ? plan.connectInBackground : plan.connectNow).push(server);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Runs a backend call, starting the tool's server first when it is lazy and stopped.
+   * The idle timer is paused while calls are in flight.
+   * @param tool - Tool state from the registry
+   * @param call - Backend call, receiving the tool state with a live client
+   * @returns Result of the call
+   * @throws Error when the lazy server cannot be started
+   * @public
+   */
+  public runOnServer = async (
+    tool: ToolState,
+    call: (tool: ToolState) => Promise<CallToolResult>,
+  ): Promise<CallToolResult> => {
+    const server = this.servers.get(tool.serverName);
+    if (!server) return call(tool);
+
+    const name = server.name;
+    this.clearIdleTimer(name);
+    this.activeCalls.set(name, (this.activeCalls.get(name) ?? 0) + 1);
+    try {
+      await this.ensureStarted(server);
+      return await call(this.config.toolRegistry.getToolState(tool.fullName) ?? tool);
+    } finally {
+      this.activeCalls.set(name, (this.activeCalls.get(name) ?? 1) - 1);
+      this.scheduleIdleShutdown(name);
+    }
+  };
+
+  /**
+   * Cancels all idle timers.
+   * @public
+   */
+  public dispose(): void {
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
+  }
+
+  /**
+   * Connects a lazy server unless it is connected; concurrent calls share one attempt.
+   * @param server - Lazy server configuration
+   * @internal
+   */
+  private async ensureStarted(server: TargetServer | TargetServerZod): Promise<void> {
+    if (this.config.connectionManager.getConnectedServers().has(server.name)) return;
+
+    let pending = this.pendingStarts.get(server.name);
+    if (!pending) {
+      logEvent('info', 'server:lazy_start', { name: server.name });
+      pending = this.config.connectionManager
+        .connectToSingleServer(server)
+        .finally(() => this.pendingStarts.delete(server.name));
+      this.pendingStarts.set(server.name, pending);
+    }
+    await pending;
+  }
+
+  /**
+   * Stops an idle lazy server after its `idleTimeoutMs`, if configured.
+   * @param name - Server name
+   * @internal
+   */
+  private scheduleIdleShutdown(name: string): void {
+    const idleTimeoutMs = this.servers.get(name)?.idleTimeoutMs;
+    if (!idleTimeoutMs || (this.activeCalls.get(name) ?? 0) > 0) return;
+
+    this.clearIdleTimer(name);
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(name);
+      if (!this.config.connectionManager.getConnectedServers().has(name)) return;
+
+      logEvent('info', 'server:idle_shutdown', { name, idleTimeoutMs });
+      this.config.connectionManager.disconnectServer(name).catch((error) => {
+        logError('idle-shutdown', error, { name });
+      });
+    }, idleTimeoutMs);
+    timer.unref?.();
+    this.idleTimers.set(name, timer);
+  }
+
+  /**
+   * Stops treating a server as lazy, e.g. after a reload removed it or made it eager.
+   * @param name - Server name
+   * @internal
+   */
+  private forget(name: string): void {
+    this.servers.delete(name);
+    this.clearIdleTimer(name);
+  }
+
+  /**
+   * @param name - Server name
+   * @internal
+   */
+  private clearIdleTimer(name: string): void {
+    clearTimeout(this.idleTimers.get(name));
+    this.idleTimers.delete(name);
+  }
+}
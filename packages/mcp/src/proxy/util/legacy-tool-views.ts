@@ -0,0 +1,50 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ICommand } from '@mcp-funnel/commands-core';
+import type { ToolRegistryView } from '../../tool-registry/index.js';
+
+/**
+ * Entry of the legacy `toolMapping` view.
+ * @public
+ */
+export interface ToolMappingEntry {
+  client: Client | null;
+  originalName: string;
+  toolName: string;
+  command?: ICommand;
+}
+
+/**
+ * Builds the pre-registry `toolMapping` view of all discovered tools.
+ * @param toolRegistry - Tool registry
+ * @returns Mapping keyed by prefixed tool name
+ * @public
+ * @see file:../mcp-proxy.ts - MCPProxy.toolMapping
+ */
+export function buildToolMapping(toolRegistry: ToolRegistryView): Map<string, ToolMappingEntry> {
+  const mapping = new Map<string, ToolMappingEntry>();
+  for (const tool of toolRegistry.getAllTools()) {
+    if (tool.discovered) {
+      mapping.set(tool.fullName, {
+        client: tool.client || null,
+        originalName: tool.originalName,
+        toolName: tool.originalName,
+        command: tool.command,
+      });
+    }
+  }
+  return mapping;
+}
+
+/**
+ * @param toolRegistry - Tool registry
+ * @returns Names of tools enabled at runtime (discovery, toolsets, config)
+ * @public
+ */
+export function getDynamicallyEnabledTools(toolRegistry: ToolRegistryView): Set<string> {
+  return new Set(
+    toolRegistry
+      .getAllTools()
+      .filter((t) => t.enabled && t.enabledBy)
+      .map((t) => t.fullName),
+  );
+}
@@ -0,0 +1,109 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+import type { ToolRegistry } from '../../tool-registry/index.js';
+import { refreshServerTools } from './capability-discovery.js';
+
+/**
+ * Delay used to coalesce bursts of backend changes into one upstream notification.
+ * @public
+ */
+export const LIST_CHANGED_DEBOUNCE_MS = 100;
+
+/**
+ * Configuration for subscribing to a backend's tools/list_changed notifications.
+ * @public
+ */
+export interface ListChangedHandlingConfig {
+  /** Server configuration */
+  targetServer: TargetServer | TargetServerZod;
+  /** Connected MCP client */
+  client: Client;
+  /** Tool registry to reconcile with the server's new tool list */
+  toolRegistry: ToolRegistry;
+  /** Event emitter receiving 'tools.changed' when the registry was modified */
+  eventEmitter: EventEmitter;
+}
+
+/**
+ * Subscribes to `notifications/tools/list_changed` from a backend server.
+ *
+ * Each notification re-runs tool discovery for that server only. Refreshes are
+ * serialized per server, and a 'tools.changed' event is emitted whenever tools were
+ * added, removed or updated.
+ * @param config - List-changed handling configuration
+ * @public
+ * @see file:./server-connection-manager.ts - Usage in connectToSingleServer
+ */
+export function setupListChangedHandling(config: ListChangedHandlingConfig): void {
+  const { targetServer, client, toolRegistry, eventEmitter } = config;
+  let pendingRefresh = Promise.resolve();
+
+  const refresh = async (): Promise<void> => {
+    try {
+      const diff = await refreshServerTools(client, targetServer, toolRegistry);
+      if (diff.added.length + diff.removed.length + diff.updated.length === 0) {
+        return;
+      }
+
+      logEvent('info', 'tools:list_changed', { server: targetServer.name, ...diff });
+      eventEmitter.emit('tools.changed', {
+        serverName: targetServer.name,
+        ...diff,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error(`[proxy] Failed to refresh tools from ${targetServer.name}:`, error);
+      logError('tools:refresh_failed', error, { server: targetServer.name });
+    }
+  };
+
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+    pendingRefresh = pendingRefresh.then(refresh);
+    return pendingRefresh;
+  });
+}
+
+/**
+ * Trailing-edge debouncer for upstream notifications.
+ * @public
+ */
+export interface DebouncedNotifier {
+  /** Schedules a notification, restarting the delay if one is already pending */
+  trigger(): void;
+  /** Drops a pending notification */
+  cancel(): void;
+}
+
+/**
+ * Creates a debouncer that calls `send` once after activity has settled.
+ * @param send - Sends the notification; rejections are logged and swallowed
+ * @param delayMs - Quiet period before sending
+ * @returns Notifier handle
+ * @public
+ * @see file:../mcp-proxy.ts - Debounces upstream tools/list_changed
+ */
+export function createDebouncedNotifier(
+  send: () => Promise<void> | void,
+  delayMs: number = LIST_CHANGED_DEBOUNCE_MS,
+): DebouncedNotifier {
+  let timer: NodeJS.Timeout | undefined;
+
+  return {
+    trigger() {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        Promise.resolve()
+          .then(send)
+          .catch((error) => logError('notification:send_failed', error));
+      }, delayMs);
+    },
+    cancel() {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  LoggingLevelSchema,
+  LoggingMessageNotificationSchema,
+  SetLevelRequestSchema,
+  type LoggingLevel,
+  type LoggingMessageNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logError, logEvent, type LogLevel } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+
+/**
+ * Payload of the 'server.log' event emitted for every backend log message.
+ * @public
+ */
+export interface ServerLogEvent {
+  serverName: string;
+  params: LoggingMessageNotification['params'];
+  timestamp: string;
+}
+
+/**
+ * Maps MCP (syslog) levels onto the funnel's own log levels.
+ * @internal
+ */
+const CORE_LOG_LEVELS: Record<LoggingLevel, LogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  notice: 'info',
+  warning: 'warn',
+  error: 'error',
+  critical: 'error',
+  alert: 'error',
+  emergency: 'error',
+};
+
+/**
+ * Configuration for forwarding a backend's log notifications.
+ * @public
+ */
+export interface LogForwardingConfig {
+  /** Server configuration */
+  targetServer: TargetServer | TargetServerZod;
+  /** Connected MCP client */
+  client: Client;
+  /** Event emitter receiving 'server.log' events */
+  eventEmitter: EventEmitter;
+}
+
+/**
+ * Asks a backend to log at the given level, if it supports logging.
+ * Failures are logged and otherwise ignored.
+ * @param client - Connected MCP client
+ * @param serverName - Server name for diagnostics
+ * @param level - Minimum level the backend should send
+ * @public
+ */
+export async function applyLogLevel(
+  client: Client,
+  serverName: string,
+  level: LoggingLevel,
+): Promise<void> {
+  if (!client.getServerCapabilities()?.logging) return;
+  try {
+    await client.setLoggingLevel(level);
+  } catch (error) {
+    logError('logging:set_level_failed', error, { server: serverName, level });
+  }
+}
+
+/**
+ * Subscribes to `notifications/message` from a backend.
+ *
+ * Every message is written through logEvent and emitted as a 'server.log' event.
+ * A per-server `logLevel` from the config is applied right away.
+ * @param config - Log forwarding configuration
+ * @public
+ * @see file:./server-connection-manager.ts - Usage in connectToSingleServer
+ */
+export function setupLogForwarding(config: LogForwardingConfig): void {
+  const { targetServer, client, eventEmitter } = config;
+  const serverName = targetServer.name;
+
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    const { params } = notification;
+    logEvent(CORE_LOG_LEVELS[params.level], 'backend:log', {
+      server: serverName,
+      logger: params.logger,
+      data: params.data,
+    });
+    const event: ServerLogEvent = { serverName, params, timestamp: new Date().toISOString() };
+    eventEmitter.emit('server.log', event);
+  });
+
+  if (targetServer.logLevel) {
+    void applyLogLevel(client, serverName, targetServer.logLevel);
+  }
+}
+
+/**
+ * Registers `logging/setLevel` on the proxy and relays backend logs upstream.
+ *
+ * The requested level is fanned out to all connected backends without a per-server
+ * `logLevel`, and applied to such backends when they (re)connect later. Backend messages
+ * are relayed when they meet the upstream level, with the logger tagged by server name.
+ * @param server - Proxy MCP server (must advertise the logging capability)
+ * @param eventEmitter - Proxy event emitter carrying 'server.connected' and 'server.log'
+ * @param clients - Connected backend clients by server name
+ * @param getServers - Current server configurations, used to look up per-server overrides
+ * @returns Function removing the event listeners again, for servers of closed sessions
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerLoggingHandlers(
+  server: Server,
+  eventEmitter: EventEmitter,
+  clients: Map<string, Client>,
+  getServers: () => (TargetServer | TargetServerZod)[],
+): () => void {
+  let upstreamLevel: LoggingLevel | undefined;
+  const hasOverride = (serverName: string): boolean =>
+    getServers().some((s) => s.name === serverName && s.logLevel !== undefined);
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    upstreamLevel = request.params.level;
+    await Promise.all(
+      Array.from(clients)
+        .filter(([serverName]) => !hasOverride(serverName))
+        .map(([serverName, client]) => applyLogLevel(client, serverName, request.params.level)),
+    );
+    return {};
+  });
+
+  const onConnected = ({ serverName }: { serverName: string }) => {
+    const client = clients.get(serverName);
+    if (client && upstreamLevel && !hasOverride(serverName)) {
+      void applyLogLevel(client, serverName, upstreamLevel);
+    }
+  };
+
+  const onLog = ({ serverName, params }: ServerLogEvent) => {
+    const severity = LoggingLevelSchema.options;
+    if (upstreamLevel && severity.indexOf(params.level) < severity.indexOf(upstreamLevel)) {
+      return;
+    }
+
+    const logger = params.logger ? `${serverName}/${params.logger}` : serverName;
+    server.sendLoggingMessage({ ...params, logger }).catch(() => {
+      // Upstream may not be connected yet; the message is already in the log file
+    });
+  };
+
+  eventEmitter.on('server.connected', onConnected);
+  eventEmitter.on('server.log', onLog);
+  return () => {
+    eventEmitter.off('server.connected', onConnected);
+    eventEmitter.off('server.log', onLog);
+  };
+}
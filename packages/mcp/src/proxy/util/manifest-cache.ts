@@ -0,0 +1,195 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { logEvent } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+import type { ToolRegistry } from '../../tool-registry/index.js';
+import { loadToolManifest, saveToolManifest, type ToolManifest } from './tool-manifest.js';
+
+/**
+ * Differences between a cached manifest and the live tool list of a server.
+ * Names are prefixed (`serverName__toolName`).
+ * @public
+ */
+export interface ManifestDrift {
+  added: string[];
+  removed: string[];
+  /** Tools whose definition (description or schema) changed */
+  changed: string[];
+}
+
+/**
+ * Configuration for {@link ToolManifestCache}.
+ * @public
+ */
+export interface ToolManifestCacheConfig {
+  /** Registry receiving cached tools */
+  toolRegistry: ToolRegistry;
+  /** Proxy event emitter carrying 'server.connected' and 'tools.changed' */
+  eventEmitter: EventEmitter;
+  /** Cache every server (`cacheToolManifests`); lazy servers are always cached */
+  enabled: boolean;
+}
+
+/**
+ * Compares a cached tool list with the live one.
+ * @param serverName - Server name used to prefix tool names
+ * @param cached - Tools from the manifest
+ * @param live - Tools from the live listing
+ * @returns Added, removed and changed tools
+ * @public
+ */
+export function diffToolManifest(serverName: string, cached: Tool[], live: Tool[]): ManifestDrift {
+  const previous = new Map(cached.map((tool) => [tool.name, JSON.stringify(tool)]));
+  const current = new Set(live.map((tool) => tool.name));
+  const prefix = (name: string) => `${serverName}__${name}`;
+
+  return {
+    added: live.filter((tool) => !previous.has(tool.name)).map((tool) => prefix(tool.name)),
+    removed: cached.filter((tool) => !current.has(tool.name)).map((tool) => prefix(tool.name)),
+    changed: live
+      .filter((tool) => previous.has(tool.name) && previous.get(tool.name) !== JSON.stringify(tool))
+      .map((tool) => prefix(tool.name)),
+  };
+}
+
+/**
+ * Serves tools from on-disk manifests until the live listing arrives.
+ *
+ * At boot, cached tools are registered right away with `cached: true`. When a server
+ * connects, tools it no longer lists are removed, drift against the manifest is reported
+ * through logEvent and a 'tools.changed' event, and the manifest is rewritten. Later
+ * tool list changes rewrite the manifest as well.
+ * @public
+ * @see file:./tool-manifest.ts - Manifest storage
+ * @see file:../mcp-proxy.ts - Preloaded in initialize
+ */
+export class ToolManifestCache {
+  private servers = new Map<string, TargetServer | TargetServerZod>();
+  private manifests = new Map<string, ToolManifest>();
+
+  public constructor(private config: ToolManifestCacheConfig) {
+    config.eventEmitter.on('server.connected', ({ serverName }: { serverName: string }) => {
+      if (this.servers.has(serverName)) {
+        void this.reconcile(serverName);
+      }
+    });
+    config.eventEmitter.on('tools.changed', ({ serverName }: { serverName: string }) => {
+      if (this.servers.has(serverName)) {
+        void this.persist(serverName);
+      }
+    });
+    config.eventEmitter.on('config.reloaded', ({ removed }: { removed: string[] }) => {
+      removed.forEach((name) => this.forget(name));
+    });
+  }
+
+  /**
+   * Registers the cached tools of every cached server. Also called with the added and changed
+   * servers of a config reload; servers that are no longer cached are forgotten.
+   * @param servers - All configured servers, or the ones a reload starts
+   * @returns Names of the servers whose tools were loaded from a manifest
+   * @public
+   */
+  public async preload(servers: (TargetServer | TargetServerZod)[]): Promise<Set<string>> {
+    const loaded = new Set<string>();
+    const cached = (server: TargetServer | TargetServerZod) => this.config.enabled || server.lazy;
+    servers.filter((server) => !cached(server)).forEach((server) => this.forget(server.name));
+
+    await Promise.all(
+      servers.filter(cached).map(async (server) => {
+        this.servers.set(server.name, server);
+        const manifest = await loadToolManifest(server);
+        if (!manifest) return;
+
+        this.manifests.set(server.name, manifest);
+        for (const tool of manifest.tools) {
+          this.config.toolRegistry.registerDiscoveredTool({
+            fullName: `${server.name}__${tool.name}`,
+            originalName: tool.name,
+            serverName: server.name,
+            definition: tool,
+            cached: true,
+          });
+        }
+        loaded.add(server.name);
+        logEvent('info', 'manifest:loaded', {
+          server: server.name,
+          tools: manifest.tools.length,
+          updatedAt: manifest.updatedAt,
+        });
+      }),
+    );
+
+    return loaded;
+  }
+
+  /**
+   * Reconciles cached tools with the live listing of a freshly connected server.
+   * @param serverName - Server name
+   * @internal
+   */
+  private async reconcile(serverName: string): Promise<void> {
+    const stale = this.config.toolRegistry
+      .getAllTools()
+      .filter((tool) => tool.serverName === serverName && tool.cached)
+      .map((tool) => tool.fullName);
+    this.config.toolRegistry.removeTools(stale);
+
+    const previous = this.manifests.get(serverName);
+    if (!previous) {
+      await this.persist(serverName);
+      return;
+    }
+
+    const drift = diffToolManifest(serverName, previous.tools, this.getLiveTools(serverName));
+    if (!drift.added.length && !drift.removed.length && !drift.changed.length) return;
+
+    console.error(
+      `[proxy] Tools of ${serverName} drifted from the cache: ` +
+        `${drift.added.length} added, ${drift.removed.length} removed, ${drift.changed.length} changed`,
+    );
+    logEvent('warn', 'manifest:drift', { server: serverName, ...drift });
+
+    // Persisted by the 'tools.changed' listener, which also notifies the upstream client
+    this.config.eventEmitter.emit('tools.changed', {
+      serverName,
+      added: drift.added,
+      removed: drift.removed,
+      updated: drift.changed,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Writes a server's live tools to its manifest.
+   * @param serverName - Server name
+   * @internal
+   */
+  private async persist(serverName: string): Promise<void> {
+    const server = this.servers.get(serverName);
+    if (!server) return;
+    this.manifests.set(serverName, await saveToolManifest(server, this.getLiveTools(serverName)));
+  }
+
+  /**
+   * Stops caching a server, e.g. after a reload removed it or made it eager.
+   * @param serverName - Server name
+   * @internal
+   */
+  private forget(serverName: string): void {
+    this.servers.delete(serverName);
+    this.manifests.delete(serverName);
+  }
+
+  /**
+   * @param serverName - Server name
+   * @returns Definitions of the server's registered, non-cached tools
+   * @internal
+   */
+  private getLiveTools(serverName: string): Tool[] {
+    return this.config.toolRegistry
+      .getAllTools()
+      .filter((tool) => tool.serverName === serverName && !tool.cached && tool.sourceDefinition)
+      .map((tool) => tool.sourceDefinition!);
+  }
+}
@@ -0,0 +1,45 @@
+import { logEvent } from '@mcp-funnel/core';
+import { OAuth2AuthCodeProvider } from '@mcp-funnel/auth';
+
+/**
+ * Delay before reconnecting servers after a completed OAuth flow.
+ * @internal
+ */
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Completes an OAuth2 authorization code flow and schedules a reconnect.
+ * Uses O(1) static state lookup instead of O(n) iteration.
+ * @param state - OAuth state parameter from callback
+ * @param code - OAuth authorization code from callback
+ * @param reconnect - Reconnects servers; auth completion may enable their connection
+ * @throws Error when no flow matches the state or the token exchange fails
+ * @public
+ * @see file:../mcp-proxy.ts - MCPProxy.completeOAuthFlow
+ */
+export async function completeOAuthFlow(
+  state: string,
+  code: string,
+  reconnect: () => void,
+): Promise<void> {
+  // Use O(1) lookup to find the provider for this state
+  const provider = OAuth2AuthCodeProvider.getProviderForState(state);
+
+  if (!provider) {
+    throw new Error('No matching OAuth flow found for this state parameter');
+  }
+
+  try {
+    await provider.completeOAuthFlow(state, code);
+    logEvent('info', 'proxy:oauth_completed', { state });
+
+    // Attempt to reconnect servers if any are disconnected
+    setTimeout(reconnect, RECONNECT_DELAY_MS);
+  } catch (error) {
+    logEvent('error', 'proxy:oauth_completion_failed', {
+      state,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
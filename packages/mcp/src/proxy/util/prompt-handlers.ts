@@ -0,0 +1,34 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+
+/**
+ * Registers `prompts/list` and `prompts/get` handlers on the proxy server.
+ *
+ * Listing returns the prefixed, filtered prompts of all backends. `prompts/get` is
+ * forwarded to the owning backend client under the prompt's original name.
+ * @param server - Proxy MCP server (must advertise the prompts capability)
+ * @param promptRegistry - Registry holding the aggregated backend prompts
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerPromptHandlers(server: Server, promptRegistry: PromptRegistry): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: promptRegistry.getExposedPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const prompt = promptRegistry.getPromptForExecution(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+    }
+
+    return prompt.client.getPrompt({ name: prompt.originalName, arguments: args });
+  });
+}
@@ -0,0 +1,28 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import Package from '../../../package.json';
+
+/**
+ * Creates the MCP server the proxy exposes to its client.
+ * @returns Server advertising the aggregated capabilities
+ * @public
+ * @see file:../mcp-proxy.ts - Request handlers are registered in setupRequestHandlers
+ */
+export function createProxyServer(): Server {
+  return new Server(
+    {
+      name: 'mcp-funnel',
+      version: Package.version,
+    },
+    {
+      capabilities: {
+        tools: {
+          listChanged: true, // Support dynamic tool updates
+        },
+        resources: {}, // Aggregated from all backend servers
+        prompts: {}, // Aggregated from all backend servers
+        completions: {}, // Routed to the backend owning the prompt/template
+        logging: {}, // Fanned out to backends, backend logs relayed upstream
+      },
+    },
+  );
+}
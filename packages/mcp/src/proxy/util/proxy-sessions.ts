@@ -0,0 +1,213 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { logEvent } from '@mcp-funnel/core';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { SessionToolRegistry, type ToolRegistry } from '../../tool-registry/index.js';
+
+/**
+ * Idle time after which a session is closed, unless `sessionIdleTimeoutMs` is set.
+ * @public
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 1_800_000;
+
+/**
+ * Upper bound for the interval between idle checks.
+ * @internal
+ */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * One client session: its own MCP server and tool enablement, sharing the backends.
+ * @public
+ */
+export interface ProxySession {
+  id: string;
+  server: Server;
+  toolRegistry: SessionToolRegistry;
+  createdAt: Date;
+  lastActiveAt: Date;
+}
+
+/**
+ * Summary of a session, as listed by the web server's REST API.
+ * @public
+ */
+export interface ProxySessionInfo {
+  id: string;
+  /** MCP client as `name/version`, once the session is initialized */
+  client?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  /** Tools enabled via discovery or toolsets in this session */
+  enabledTools: string[];
+}
+
+/**
+ * Creates the MCP server of a new session with request handlers bound to the session's
+ * registry. `dispose` undoes any registrations outside the server itself.
+ * @public
+ */
+export type SessionServerFactory = (toolRegistry: SessionToolRegistry) => {
+  server: Server;
+  dispose: () => void;
+};
+
+/**
+ * Sessions of clients connected over Streamable HTTP.
+ *
+ * The transport layer (see the web server's streamable route) opens a session per
+ * `initialize` request and connects its transport to the session's server. A session
+ * ends when its server closes, e.g. on a DELETE from the client, or after
+ * `sessionIdleTimeoutMs` without requests.
+ * @public
+ * @see file:../mcp-proxy.ts - MCPProxy.sessions
+ */
+export class ProxySessionManager {
+  private sessions = new Map<string, ProxySession & { dispose: () => void }>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * @param config - Shared proxy configuration
+   * @param toolRegistry - Shared registry the session registries are layered on
+   * @param createServer - Creates the MCP server of a session
+   */
+  public constructor(
+    private readonly config: ProxyConfig,
+    private readonly toolRegistry: ToolRegistry,
+    private readonly createServer: SessionServerFactory,
+  ) {}
+
+  /**
+   * Opens a session. Connect a transport to its server to serve the client.
+   * @param id - Session ID, as sent by the client in `Mcp-Session-Id`
+   * @returns The new session
+   * @throws Error when a session with this ID exists
+   * @public
+   */
+  public open(id: string): ProxySession {
+    if (this.sessions.has(id)) {
+      throw new Error(`Session ${id} already exists`);
+    }
+    const toolRegistry = new SessionToolRegistry(this.toolRegistry, this.config);
+    const { server, dispose } = this.createServer(toolRegistry);
+    const now = new Date();
+    const session = { id, server, toolRegistry, createdAt: now, lastActiveAt: now };
+    this.sessions.set(id, { ...session, dispose });
+    server.onclose = () => this.remove(id);
+    this.startSweep();
+    logEvent('info', 'session:opened', { id });
+    return session;
+  }
+
+  /**
+   * @param id - Session ID
+   * @returns The session, or undefined when it is unknown or closed
+   * @public
+   */
+  public get(id: string): ProxySession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Records activity, postponing the idle timeout.
+   * @param id - Session ID
+   * @returns False when the session is unknown or closed
+   * @public
+   */
+  public touch(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (session) session.lastActiveAt = new Date();
+    return session !== undefined;
+  }
+
+  /**
+   * @returns Summaries of all open sessions, oldest first
+   * @public
+   */
+  public list(): ProxySessionInfo[] {
+    return Array.from(this.sessions.values(), (session) => {
+      const client = session.server.getClientVersion();
+      return {
+        id: session.id,
+        ...(client && { client: `${client.name}/${client.version}` }),
+        createdAt: session.createdAt.toISOString(),
+        lastActiveAt: session.lastActiveAt.toISOString(),
+        enabledTools: session.toolRegistry.getEnabledToolNames(),
+      };
+    });
+  }
+
+  /**
+   * Closes a session and its transport.
+   * @param id - Session ID
+   * @returns False when the session is unknown or already closed
+   * @public
+   */
+  public async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    await session.server.close();
+    // A server that never got a transport does not call onclose
+    this.remove(id);
+    return true;
+  }
+
+  /**
+   * Closes all sessions, e.g. on shutdown.
+   * @public
+   */
+  public async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.keys(), (id) => this.close(id)));
+  }
+
+  /**
+   * Closes sessions without requests for longer than the idle timeout.
+   * @param now - Current time
+   * @returns IDs of the closed sessions
+   * @public
+   */
+  public async closeIdleSessions(now: number = Date.now()): Promise<string[]> {
+    const timeout = this.config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    const idle = Array.from(this.sessions.values())
+      .filter((session) => now - session.lastActiveAt.getTime() > timeout)
+      .map((session) => session.id);
+    for (const id of idle) {
+      logEvent('info', 'session:expired', { id });
+      await this.close(id);
+    }
+    return idle;
+  }
+
+  /**
+   * Sends `notifications/tools/list_changed` to every session.
+   * @public
+   */
+  public sendToolListChanged(): void {
+    for (const session of this.sessions.values()) {
+      session.server.sendToolListChanged().catch(() => {
+        // The session's transport may be closing
+      });
+    }
+  }
+
+  private remove(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    session.dispose();
+    logEvent('info', 'session:closed', { id });
+    if (this.sessions.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  private startSweep(): void {
+    if (this.sweepTimer) return;
+    const timeout = this.config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.sweepTimer = setInterval(
+      () => void this.closeIdleSessions(),
+      Math.min(timeout, MAX_SWEEP_INTERVAL_MS),
+    );
+    this.sweepTimer.unref();
+  }
+}
@@ -0,0 +1,207 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { logEvent, type ReconnectionManager } from '@mcp-funnel/core';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+import type { ToolRegistry, ToolState } from '../../tool-registry/index.js';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+
+type RunOnServer = NonNullable<ToolExecutionOptions['runOnServer']>;
+
+/**
+ * Configuration for {@link ReconnectingTools}.
+ * @public
+ */
+export interface ReconnectingToolsConfig {
+  /** Shared proxy configuration, read for `autoReconnect` and `cacheToolManifests` */
+  config: ProxyConfig;
+  /** Registry holding the tools of reconnecting servers */
+  toolRegistry: ToolRegistry;
+  /** Proxy event emitter carrying 'server.connected' and 'tools.changed' */
+  eventEmitter: EventEmitter;
+  /** Reconnection managers by server name, for the retry hint */
+  reconnectionManagers: Map<string, ReconnectionManager>;
+}
+
+/**
+ * Keeps the tools of reconnecting servers registered as unavailable.
+ *
+ * When a server drops and will be reconnected, its tools keep their state, including
+ * enablement via discovery or toolsets, but lose their client. Calls to them wait up to
+ * `autoReconnect.queueCallsMs` for the server, or fail with a "retry in N s" error.
+ * Once the server is back, tools it no longer lists are removed.
+ * @public
+ * @see file:./server-connection-manager.ts - Marks the tools on disconnect
+ */
+export class ReconnectingTools {
+  private marked = new Map<string, string[]>();
+  private waiters = new Map<string, Set<() => void>>();
+
+  public constructor(private config: ReconnectingToolsConfig) {
+    config.eventEmitter.on('server.connected', ({ serverName }: { serverName: string }) => {
+      if (this.marked.has(serverName)) {
+        this.restore(serverName);
+      }
+    });
+  }
+
+  /**
+   * Marks the tools of a disconnected server as unavailable until it reconnects.
+   * @param serverName - Server that will be reconnected
+   * @public
+   */
+  public markUnavailable(serverName: string): void {
+    const tools = this.config.toolRegistry.markServerUnavailable(serverName);
+    if (!tools.length) return;
+
+    this.marked.set(serverName, tools);
+    logEvent('info', 'tools:unavailable', { server: serverName, tools: tools.length });
+    this.emitChanged(serverName, [], tools);
+  }
+
+  /**
+   * Gives up on a server, e.g. after its last reconnection attempt failed. Its tools are
+   * removed, or kept as cached with `cacheToolManifests`; waiting calls fail.
+   * @param serverName - Server name
+   * @public
+   */
+  public release(serverName: string): void {
+    if (!this.marked.delete(serverName)) return;
+
+    const { config, toolRegistry } = this.config;
+    if (config.cacheToolManifests) {
+      toolRegistry.detachServerTools(serverName);
+    } else {
+      this.emitChanged(serverName, toolRegistry.removeUnavailableTools(serverName), []);
+    }
+    this.wake(serverName);
+  }
+
+  /**
+   * Wraps the backend call hook so calls to unavailable tools are held or rejected.
+   * @param next - Hook for available tools, e.g. the lazy server start
+   * @returns Hook for {@link ToolExecutionOptions.runOnServer}
+   * @public
+   */
+  public around(next: RunOnServer): RunOnServer {
+    return async (tool, call, options) => {
+      if (!tool.unavailable) return next(tool, call, options);
+
+      const queueCallsMs = this.config.config.autoReconnect?.queueCallsMs ?? 0;
+      if (queueCallsMs > 0) {
+        await this.waitForServer(tool.serverName, queueCallsMs, options.signal);
+      }
+
+      const current = this.config.toolRegistry.getToolState(tool.fullName);
+      if (!current) {
+        return errorResult(`Tool ${tool.fullName} is no longer provided by ${tool.serverName}`);
+      }
+      return current.unavailable ? this.reconnectingResult(current) : next(current, call, options);
+    };
+  }
+
+  /**
+   * Removes tools the reconnected server no longer lists and resumes waiting calls.
+   * @param serverName - Reconnected server
+   * @internal
+   */
+  private restore(serverName: string): void {
+    const tools = this.marked.get(serverName) ?? [];
+    this.marked.delete(serverName);
+
+    const removed = this.config.toolRegistry.removeUnavailableTools(serverName);
+    logEvent('info', 'tools:restored', { server: serverName, removed });
+    this.emitChanged(
+      serverName,
+      removed,
+      tools.filter((name) => !removed.includes(name)),
+    );
+    this.wake(serverName);
+  }
+
+  /**
+   * Waits until the server returns or is given up, the timeout passes or the call is
+   * cancelled.
+   * @param serverName - Server name
+   * @param timeoutMs - Longest wait
+   * @param signal - Signal of the call
+   * @internal
+   */
+  private async waitForServer(
+    serverName: string,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) return;
+
+    const waiters = this.waiters.get(serverName) ?? new Set<() => void>();
+    this.waiters.set(serverName, waiters);
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => done(), timeoutMs);
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        waiters.delete(done);
+        resolve();
+      };
+      waiters.add(done);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * @param serverName - Server name
+   * @internal
+   */
+  private wake(serverName: string): void {
+    const waiters = this.waiters.get(serverName);
+    this.waiters.delete(serverName);
+    waiters?.forEach((done) => done());
+  }
+
+  /**
+   * @param tool - Unavailable tool
+   * @returns Error result telling the model when to retry
+   * @internal
+   */
+  private reconnectingResult(tool: ToolState): CallToolResult {
+    const delay = this.config.reconnectionManagers.get(tool.serverName)?.getNextRetryDelay();
+    // An attempt without a scheduled delay is running right now
+    const seconds = Math.max(1, Math.ceil((delay ?? 0) / 1000));
+    return {
+      ...errorResult(`Server ${tool.serverName} is reconnecting, retry in ${seconds} s`),
+      _meta: {
+        'mcp-funnel/unavailable': {
+          server: tool.serverName,
+          reason: 'reconnecting',
+          retryAfterMs: seconds * 1000,
+        },
+      },
+    };
+  }
+
+  /**
+   * @param serverName - Server name
+   * @param removed - Removed tools
+   * @param updated - Tools marked unavailable or available again
+   * @internal
+   */
+  private emitChanged(serverName: string, removed: string[], updated: string[]): void {
+    if (!removed.length && !updated.length) return;
+    this.config.eventEmitter.emit('tools.changed', {
+      serverName,
+      added: [],
+      removed,
+      updated,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * @param text - Error message
+ * @returns Error result of a tool call
+ * @internal
+ */
+function errorResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
@@ -17,14 +17,29 @@ export interface ReconnectionManagerConfig {
 }
 
 /**
- * Creates a ReconnectionManager for a server with configured retry behavior.
- * Extracts reconnection config from proxy autoReconnect settings and creates a manager
- * with default values:
+ * Extracts the backoff settings from proxy autoReconnect settings, with default values:
  * - maxAttempts: 10
  * - initialDelayMs: 1000ms
  * - backoffMultiplier: 2
  * - maxDelayMs: 60000ms
  * - jitter: 0.25
+ * @param config - Proxy configuration
+ * @returns Backoff settings for a ReconnectionManager
+ * @public
+ */
+export function resolveReconnectionConfig(config: ProxyConfig): ReconnectionConfig {
+  const autoReconnectConfig = config.autoReconnect;
+  return {
+    maxAttempts: autoReconnectConfig?.maxAttempts ?? 10,
+    initialDelayMs: autoReconnectConfig?.initialDelayMs ?? 1000,
+    backoffMultiplier: autoReconnectConfig?.backoffMultiplier ?? 2,
+    maxDelayMs: autoReconnectConfig?.maxDelayMs ?? 60000,
+    jitter: autoReconnectConfig?.jitter ?? 0.25,
+  };
+}
+
+/**
+ * Creates a ReconnectionManager for a server with configured retry behavior.
  * Sets up state change listener to invoke callback when max attempts are reached.
  * @param managerConfig - Manager configuration
  * @returns Configured ReconnectionManager instance
@@ -36,16 +51,7 @@ export function createReconnectionManager(
 ): ReconnectionManager {
   const { config, serverName, onMaxAttemptsReached } = managerConfig;
 
-  const autoReconnectConfig = config.autoReconnect;
-  const reconnectionConfig: ReconnectionConfig = {
-    maxAttempts: autoReconnectConfig?.maxAttempts ?? 10,
-    initialDelayMs: autoReconnectConfig?.initialDelayMs ?? 1000,
-    backoffMultiplier: autoReconnectConfig?.backoffMultiplier ?? 2,
-    maxDelayMs: autoReconnectConfig?.maxDelayMs ?? 60000,
-    jitter: autoReconnectConfig?.jitter ?? 0.25,
-  };
-
-  const reconnectionManager = new ReconnectionManager(reconnectionConfig);
+  const reconnectionManager = new ReconnectionManager(resolveReconnectionConfig(config));
 
   // Set up state change handler for max attempts
   reconnectionManager.onStateChange((event) => {
@@ -150,3 +156,64 @@ export function shouldAutoReconnect(
 
   return isAutoReconnectEnabled && !isManualDisconnect && !isShuttingDown;
 }
+
+/**
+ * Context for scheduling automatic reconnection of a server.
+ * @public
+ */
+export interface AutoReconnectionContext {
+  /** Proxy configuration containing autoReconnect settings */
+  config: ProxyConfig;
+  /** Reconnection managers by server name; one is created per reconnecting server */
+  reconnectionManagers: Map<string, ReconnectionManager>;
+  /** Event emitter for reconnection status events */
+  eventEmitter: EventEmitter;
+  /** Function to perform the actual connection */
+  connectFn: (targetServer: TargetServer) => Promise<void>;
+  /** Callback invoked when max reconnection attempts are reached */
+  onGiveUp: (serverName: string) => void;
+}
+
+/**
+ * Schedules automatic reconnection of a disconnected server with backoff.
+ * Failed attempts are re-scheduled until the ReconnectionManager runs out of attempts.
+ * @param context - Reconnection context
+ * @param targetServer - Server configuration to reconnect
+ * @public
+ * @see file:./server-connection-manager.ts - Called from the disconnect callback
+ */
+export function scheduleAutoReconnection(
+  context: AutoReconnectionContext,
+  targetServer: TargetServer,
+): void {
+  const { reconnectionManagers } = context;
+  const serverName = targetServer.name;
+
+  // Create ReconnectionManager if it doesn't exist
+  if (!reconnectionManagers.has(serverName)) {
+    const manager = createReconnectionManager({
+      config: context.config,
+      serverName,
+      onMaxAttemptsReached: (name) => {
+        reconnectionManagers.delete(name);
+        context.onGiveUp(name);
+      },
+    });
+
+    reconnectionManagers.set(serverName, manager);
+  }
+
+  const attempt = () =>
+    attemptReconnection({
+      targetServer,
+      reconnectionManager: reconnectionManagers.get(serverName),
+      eventEmitter: context.eventEmitter,
+      connectFn: context.connectFn,
+      onSuccess: (name) => reconnectionManagers.get(name)?.reset(),
+      // Re-schedule reconnection - the ReconnectionManager will handle backoff
+      onFailure: (name) => reconnectionManagers.get(name)?.scheduleReconnection(attempt),
+    });
+
+  // Schedule the first reconnection attempt
+  reconnectionManagers.get(serverName)?.scheduleReconnection(attempt);
+}
@@ -0,0 +1,48 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ReplicaSetTransport } from '@mcp-funnel/core';
+import type { ProxyConfig, TargetServer, TargetServerZod } from '@mcp-funnel/schemas';
+import { resolveReconnectionConfig } from './reconnection-handler.js';
+
+type ReplicaTransportConfig = NonNullable<TargetServerZod['replicas']>[number];
+
+/**
+ * Creates the transport of a server with `replicas`: one transport per replica behind a
+ * ReplicaSetTransport. Dropped replicas are reconnected with the `autoReconnect` backoff.
+ * @param targetServer - Server configuration with `replicas`
+ * @param config - Proxy configuration
+ * @param createTransport - Creates the transport of a server with a single `transport`
+ * @returns Transport to all replicas, not started yet
+ * @public
+ * @see file:./connection-setup.ts - connectToServer
+ */
+export function createReplicaSet<T extends TargetServer | TargetServerZod>(
+  targetServer: T,
+  config: ProxyConfig,
+  createTransport: (server: T) => Promise<Transport>,
+): ReplicaSetTransport {
+  return new ReplicaSetTransport({
+    replicas: (targetServer.replicas ?? []).map((transport) => ({
+      endpoint: describeEndpoint(transport),
+      createTransport: () => createTransport({ ...targetServer, transport, replicas: undefined }),
+    })),
+    strategy: targetServer.loadBalancing,
+    reconnection:
+      config.autoReconnect?.enabled === false ? undefined : resolveReconnectionConfig(config),
+  });
+}
+
+/**
+ * @param transport - Transport configuration of a replica
+ * @returns Label of the replica in the server status and logs
+ * @internal
+ */
+function describeEndpoint(transport: ReplicaTransportConfig): string {
+  switch (transport.type) {
+    case 'stdio':
+      return [transport.command, ...(transport.args ?? [])].join(' ');
+    case 'replay':
+      return transport.fixture;
+    default:
+      return transport.url;
+  }
+}
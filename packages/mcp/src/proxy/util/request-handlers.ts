@@ -0,0 +1,76 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { EventEmitter } from 'events';
+import type { TargetServer } from '@mcp-funnel/schemas';
+import type { CoreToolContext, ICoreTool } from '../../tools/core-tool.interface.js';
+import type { ToolRegistryView } from '../../tool-registry/index.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import type { PromptRegistry } from '../../prompt-registry/index.js';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+import { registerToolHandlers } from './tool-handlers.js';
+import { registerResourceHandlers } from './resource-handlers.js';
+import { registerPromptHandlers } from './prompt-handlers.js';
+import { registerCompletionHandler } from './completion-handlers.js';
+import { registerLoggingHandlers } from './log-forwarding.js';
+import { registerRootsListChangedForwarding } from './client-request-forwarding.js';
+import type { UpstreamClients } from './upstream-clients.js';
+
+/**
+ * Everything the request handlers of a proxy server read.
+ * @public
+ */
+export interface ProxyRequestHandlersConfig {
+  /** Shared registry, or the view of the client session the server belongs to */
+  toolRegistry: ToolRegistryView;
+  coreTools: Map<string, ICoreTool>;
+  resourceRegistry: ResourceRegistry;
+  promptRegistry: PromptRegistry;
+  /** Connected backend clients by server name */
+  clients: Map<string, Client>;
+  /** Proxy event emitter carrying 'server.connected' and 'server.log' */
+  eventEmitter: EventEmitter;
+  getServers: () => TargetServer[];
+  /** Upstream clients that backend requests are forwarded to; the server joins them */
+  upstream: UpstreamClients;
+  /** Options shared by all tool calls */
+  execution: ToolExecutionOptions;
+  /** Builds the context handed to core tools for one call */
+  createContext: (execution: ToolExecutionOptions) => CoreToolContext;
+}
+
+/**
+ * Registers the tool, resource, prompt, completion, roots and logging handlers on a
+ * proxy server: the stdio server, or the server of one Streamable HTTP session.
+ * @param server - Proxy MCP server
+ * @param config - Handler configuration
+ * @returns Function undoing the registrations outside the server, for closed sessions
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerProxyRequestHandlers(
+  server: Server,
+  config: ProxyRequestHandlersConfig,
+): () => void {
+  registerToolHandlers(server, {
+    toolRegistry: config.toolRegistry,
+    coreTools: config.coreTools,
+    createContext: config.createContext,
+    execution: config.execution,
+    upstream: config.upstream,
+  });
+  registerResourceHandlers(server, config.resourceRegistry);
+  registerPromptHandlers(server, config.promptRegistry);
+  registerCompletionHandler(server, config.promptRegistry, config.resourceRegistry);
+  registerRootsListChangedForwarding(server, config.clients);
+  const removeUpstream = config.upstream.add(server);
+  const removeLogging = registerLoggingHandlers(
+    server,
+    config.eventEmitter,
+    config.clients,
+    config.getServers,
+  );
+  return () => {
+    removeUpstream();
+    removeLogging();
+  };
+}
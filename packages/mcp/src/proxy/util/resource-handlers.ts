@@ -0,0 +1,49 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ResourceRegistry } from '../../resource-registry/index.js';
+import { ResourceRegistryUtils } from '../../resource-registry/index.js';
+
+/**
+ * Registers `resources/list`, `resources/templates/list` and `resources/read` handlers
+ * on the proxy server.
+ *
+ * Listing returns the merged, filtered view of all backends. Reads are routed to the
+ * owning backend client using the namespaced URI, and the returned contents are
+ * re-namespaced so follow-up reads keep working.
+ * @param server - Proxy MCP server (must advertise the resources capability)
+ * @param resourceRegistry - Registry holding the aggregated backend resources
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerResourceHandlers(server: Server, resourceRegistry: ResourceRegistry): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: resourceRegistry.getExposedResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: resourceRegistry.getExposedResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const target = resourceRegistry.resolveResource(uri);
+    if (!target) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    const result = await target.client.readResource({ uri: target.originalUri });
+    return {
+      ...result,
+      contents: result.contents.map((content) => ({
+        ...content,
+        uri: ResourceRegistryUtils.namespaceUri(target.serverName, content.uri),
+      })),
+    };
+  });
+}
@@ -1,17 +1,29 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { logError, logEvent, ReconnectionManager } from '@mcp-funnel/core';
+import {
+  logError,
+  logEvent,
+  ReconnectionManager,
+  type ReplicaSetTransport,
+} from '@mcp-funnel/core';
+import type { ServerStatus } from '@mcp-funnel/models';
 import type { TargetServerZod, ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
 import { ToolRegistry } from '../../tool-registry/index.js';
+import { ResourceRegistry } from '../../resource-registry/index.js';
+import { PromptRegistry } from '../../prompt-registry/index.js';
 import { EventEmitter } from 'events';
 import { connectToServer, type ConnectionConfig } from './connection-setup.js';
-import {
-  createReconnectionManager,
-  attemptReconnection,
-  shouldAutoReconnect,
-} from './reconnection-handler.js';
+import { scheduleAutoReconnection, shouldAutoReconnect } from './reconnection-handler.js';
 import { setupDisconnectHandling, handleServerDisconnection } from './disconnect-handler.js';
+import { setupListChangedHandling } from './list-changed-handler.js';
+import { setupLogForwarding } from './log-forwarding.js';
 import { performManualReconnect, performManualDisconnect } from './manual-connection-operations.js';
+import { ReconnectingTools } from './reconnecting-tools.js';
+import { ServerHealthMonitor } from './server-health.js';
+import { UpstreamClients } from './upstream-clients.js';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+
+type RunOnServer = NonNullable<ToolExecutionOptions['runOnServer']>;
 
 /**
  * Manages server connection lifecycle including connections, disconnections, and reconnections.
@@ -37,18 +49,50 @@ export class ServerConnectionManager {
   >();
   private connectionTimestamps = new Map<string, string>();
   private transports = new Map<string, Transport>();
+  private replicaSets = new Map<string, ReplicaSetTransport>();
   private reconnectionManagers = new Map<string, ReconnectionManager>();
   private manualReconnections = new Map<string, Promise<void>>();
   private manualDisconnectRequests = new Set<string>();
   private isShuttingDown = false;
+  /** Tools of servers being reconnected, and the calls waiting for them */
+  public readonly reconnectingTools: ReconnectingTools;
+  /** Ping probes and circuit breakers of servers with `healthCheck` */
+  public readonly serverHealth: ServerHealthMonitor;
+  /** Upstream clients that backend sampling/elicitation/roots requests are forwarded to */
+  public readonly upstream = new UpstreamClients();
 
   public constructor(
     private config: ProxyConfig,
     private configPath: string,
     private clients: Map<string, Client>,
     private toolRegistry: ToolRegistry,
+    private resourceRegistry: ResourceRegistry,
+    private promptRegistry: PromptRegistry,
     private eventEmitter: EventEmitter,
-  ) {}
+  ) {
+    this.reconnectingTools = new ReconnectingTools({
+      config,
+      toolRegistry,
+      eventEmitter,
+      reconnectionManagers: this.reconnectionManagers,
+    });
+    this.serverHealth = new ServerHealthMonitor({
+      connectedServers: this.connectedServers,
+      clients,
+      transports: this.transports,
+      eventEmitter,
+    });
+  }
+
+  /**
+   * Wraps the backend call hook with the handling of reconnecting and failing servers.
+   * @param runOnServer - Hook performing the call, e.g. starting lazy servers first
+   * @returns Hook for the tool executor
+   * @public
+   */
+  public guardCalls(runOnServer: RunOnServer): RunOnServer {
+    return this.reconnectingTools.around(this.serverHealth.around(runOnServer));
+  }
 
   /**
    * Initializes disconnected servers map from configuration. @public
@@ -73,6 +117,11 @@ export class ServerConnectionManager {
   ): void => {
     const serverName = targetServer.name;
     const manualDisconnectRequested = this.manualDisconnectRequests.has(serverName);
+    const isManualDisconnect = reason === 'manual_disconnect' || manualDisconnectRequested;
+    // Lazy servers are started again on their next tool call instead
+    const reconnect =
+      !targetServer.lazy &&
+      shouldAutoReconnect(this.config, isManualDisconnect, this.isShuttingDown);
 
     // Handle the disconnection using extracted logic
     handleServerDisconnection({
@@ -86,13 +135,16 @@ export class ServerConnectionManager {
       clients: this.clients,
       connectionTimestamps: this.connectionTimestamps,
       transports: this.transports,
+      replicaSets: this.replicaSets,
       toolRegistry: this.toolRegistry,
+      resourceRegistry: this.resourceRegistry,
+      promptRegistry: this.promptRegistry,
+      detachTools: Boolean(targetServer.lazy || this.config.cacheToolManifests),
+      reconnectingTools: reconnect ? this.reconnectingTools : undefined,
     });
 
     // Set up automatic reconnection if enabled
-    const isManualDisconnect = reason === 'manual_disconnect' || manualDisconnectRequested;
-
-    if (shouldAutoReconnect(this.config, isManualDisconnect, this.isShuttingDown)) {
+    if (reconnect) {
       this.setupAutoReconnection(targetServer);
     }
 
@@ -106,57 +158,16 @@ export class ServerConnectionManager {
    * @param targetServer - Server configuration to set up automatic reconnection for
    */
   private setupAutoReconnection(targetServer: TargetServer | TargetServerZod): void {
-    const serverName = targetServer.name;
-
-    // Create ReconnectionManager if it doesn't exist
-    if (!this.reconnectionManagers.has(serverName)) {
-      const manager = createReconnectionManager({
+    scheduleAutoReconnection(
+      {
         config: this.config,
-        serverName,
-        onMaxAttemptsReached: (name) => {
-          this.reconnectionManagers.delete(name);
-        },
-      });
-
-      this.reconnectionManagers.set(serverName, manager);
-    }
-
-    // Schedule the first reconnection attempt
-    const reconnectionManager = this.reconnectionManagers.get(serverName);
-    if (reconnectionManager) {
-      reconnectionManager.scheduleReconnection(() => this.attemptAutoReconnection(targetServer));
-    }
-  }
-
-  /**
-   * Attempts automatic reconnection to a server with backoff. @internal
-   * @param targetServer - Server configuration to attempt reconnection for
-   */
-  private async attemptAutoReconnection(
-    targetServer: TargetServer | TargetServerZod,
-  ): Promise<void> {
-    const serverName = targetServer.name;
-    const reconnectionManager = this.reconnectionManagers.get(serverName);
-
-    await attemptReconnection({
-      targetServer,
-      reconnectionManager,
-      eventEmitter: this.eventEmitter,
-      connectFn: (server) => this.connectToSingleServer(server),
-      onSuccess: (name) => {
-        const manager = this.reconnectionManagers.get(name);
-        if (manager) {
-          manager.reset();
-        }
-      },
-      onFailure: (name) => {
-        // Re-schedule reconnection - the ReconnectionManager will handle backoff
-        const manager = this.reconnectionManagers.get(name);
-        if (manager) {
-          manager.scheduleReconnection(() => this.attemptAutoReconnection(targetServer));
-        }
+        reconnectionManagers: this.reconnectionManagers,
+        eventEmitter: this.eventEmitter,
+        connectFn: (server) => this.connectToSingleServer(server),
+        onGiveUp: (name) => this.reconnectingTools.release(name),
       },
-    });
+      targetServer,
+    );
   }
 
   /**
@@ -170,9 +181,12 @@ export class ServerConnectionManager {
       config: this.config,
       configPath: this.configPath,
       toolRegistry: this.toolRegistry,
+      resourceRegistry: this.resourceRegistry,
+      promptRegistry: this.promptRegistry,
+      upstream: this.upstream,
     };
 
-    const { client, transport, connectedAt } = await connectToServer(connectionConfig);
+    const { client, transport, connectedAt, replicaSet } = await connectToServer(connectionConfig);
 
     // Set up disconnect handling
     setupDisconnectHandling({
@@ -182,9 +196,19 @@ export class ServerConnectionManager {
       onDisconnect: this.onServerDisconnect,
     });
 
+    // Keep the registry in sync when the server's tool list changes at runtime
+    setupListChangedHandling({
+      targetServer,
+      client,
+      toolRegistry: this.toolRegistry,
+      eventEmitter: this.eventEmitter,
+    });
+    setupLogForwarding({ targetServer, client, eventEmitter: this.eventEmitter });
+
     // Track connection state
     this.connectionTimestamps.set(targetServer.name, connectedAt);
     this.transports.set(targetServer.name, transport);
+    if (replicaSet) this.replicaSets.set(targetServer.name, replicaSet);
     this.connectedServers.set(targetServer.name, targetServer);
     this.disconnectedServers.delete(targetServer.name);
     this.clients.set(targetServer.name, client);
@@ -324,6 +348,18 @@ export class ServerConnectionManager {
     return this.transports;
   }
 
+  /**
+   * @param name - Server name
+   * @returns Circuit breaker state and replica states of the server, where applicable
+   * @public
+   */
+  public getStatusDetails(name: string): Pick<ServerStatus, 'circuit' | 'replicas'> {
+    return {
+      circuit: this.serverHealth.getCircuit(name),
+      replicas: this.replicaSets.get(name)?.getReplicaStatus(),
+    };
+  }
+
   /** @returns Map of server reconnection managers @public */
   public getReconnectionManagers() {
     return this.reconnectionManagers;
@@ -337,6 +373,7 @@ export class ServerConnectionManager {
   public async shutdown(): Promise<void> {
     console.error('SessionManager shutting down...');
     this.isShuttingDown = true;
+    this.serverHealth.dispose();
 
     // Cancel all active reconnection timers
     for (const [name, manager] of this.reconnectionManagers.entries()) {
@@ -0,0 +1,180 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { logError, logEvent } from '@mcp-funnel/core';
+import type { ServerCircuitStatus } from '@mcp-funnel/models';
+import type { HealthCheckZod, TargetServer, TargetServerZod } from '@mcp-funnel/schemas';
+import type { EventEmitter } from 'events';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { HealthCheckManager } from './health-check.js';
+
+type RunOnServer = NonNullable<ToolExecutionOptions['runOnServer']>;
+
+/**
+ * Health check settings of a server with all defaults applied.
+ * @public
+ */
+export interface HealthCheckOptions {
+  intervalMs: number;
+  timeoutMs: number;
+  failureThreshold: number;
+}
+
+/**
+ * Resolves a server's `healthCheck` setting.
+ * @param setting - `true`, settings, or undefined/false when disabled
+ * @returns Settings with defaults, or undefined when health checks are off
+ * @public
+ */
+export function resolveHealthCheck(setting?: HealthCheckZod): HealthCheckOptions | undefined {
+  if (!setting) return undefined;
+  const options = setting === true ? {} : setting;
+  return {
+    intervalMs: options.intervalMs ?? 30_000,
+    timeoutMs: options.timeoutMs ?? 5_000,
+    failureThreshold: options.failureThreshold ?? 3,
+  };
+}
+
+/**
+ * Configuration for {@link ServerHealthMonitor}.
+ * @public
+ */
+export interface ServerHealthMonitorConfig {
+  /** Currently connected servers, for their `healthCheck` settings */
+  connectedServers: Map<string, TargetServer | TargetServerZod>;
+  /** Connected backend clients by server name */
+  clients: Map<string, Client>;
+  /** Active transports by server name; closed when a circuit opens */
+  transports: Map<string, Transport>;
+  /** Proxy event emitter carrying 'server.connected' and 'server.disconnected' */
+  eventEmitter: EventEmitter;
+}
+
+/**
+ * Pings servers with `healthCheck` set and runs a circuit breaker per server.
+ *
+ * Failed pings and tool calls that throw (e.g. timeouts or transport errors) count as
+ * failures; error results returned by a tool do not. When the circuit opens, the server's
+ * transport is closed, so the regular disconnect handling reconnects it.
+ * @public
+ * @see file:./circuit-breaker.ts - Breaker states
+ * @see file:./server-connection-manager.ts - Owns the monitor
+ */
+export class ServerHealthMonitor {
+  private breakers = new Map<string, CircuitBreaker>();
+  private checks = new Map<string, HealthCheckManager>();
+
+  public constructor(private config: ServerHealthMonitorConfig) {
+    config.eventEmitter.on('server.connected', ({ serverName }: { serverName: string }) => {
+      this.watch(serverName);
+    });
+    config.eventEmitter.on('server.disconnected', ({ serverName }: { serverName: string }) => {
+      this.stopCheck(serverName);
+    });
+  }
+
+  /**
+   * @param serverName - Server name
+   * @returns Circuit breaker state, or undefined for servers without health checks
+   * @public
+   */
+  public getCircuit(serverName: string): ServerCircuitStatus | undefined {
+    return this.breakers.get(serverName)?.status;
+  }
+
+  /**
+   * Wraps the backend call hook so call failures feed the server's circuit breaker.
+   * @param next - Hook performing the call
+   * @returns Hook for {@link ToolExecutionOptions.runOnServer}
+   * @public
+   */
+  public around(next: RunOnServer): RunOnServer {
+    return async (tool, call, options) => {
+      const breaker = this.breakers.get(tool.serverName);
+      if (!breaker) return next(tool, call, options);
+
+      try {
+        const result = await next(tool, call, options);
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        // Upstream cancellation says nothing about the backend; toolLimits deadlines do
+        const reason = options.signal?.reason as Error | undefined;
+        if (!options.signal?.aborted || reason?.name === 'TimeoutError') {
+          breaker.recordFailure(`${tool.fullName}: ${(error as Error).message}`);
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Stops all health checks, e.g. on shutdown.
+   * @public
+   */
+  public dispose(): void {
+    for (const name of Array.from(this.checks.keys())) {
+      this.stopCheck(name);
+    }
+  }
+
+  /**
+   * Starts pinging a freshly connected server.
+   * @param serverName - Server name
+   * @internal
+   */
+  private watch(serverName: string): void {
+    const options = resolveHealthCheck(this.config.connectedServers.get(serverName)?.healthCheck);
+    const client = this.config.clients.get(serverName);
+    if (!options || !client) {
+      this.breakers.delete(serverName);
+      return;
+    }
+
+    let breaker = this.breakers.get(serverName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(options.failureThreshold, () => this.open(serverName));
+      this.breakers.set(serverName, breaker);
+    }
+    breaker.onConnected();
+
+    const check = new HealthCheckManager({
+      serverName,
+      enabled: true,
+      intervalMs: options.intervalMs,
+      ping: () => client.ping({ timeout: options.timeoutMs }),
+      onHealthCheckPassed: () => breaker.recordSuccess(),
+      onHealthCheckFailed: (error) => breaker.recordFailure(`ping: ${error.message}`),
+    });
+    this.stopCheck(serverName);
+    this.checks.set(serverName, check);
+    check.start();
+  }
+
+  /**
+   * @param serverName - Server name
+   * @internal
+   */
+  private stopCheck(serverName: string): void {
+    this.checks.get(serverName)?.stop();
+    this.checks.delete(serverName);
+  }
+
+  /**
+   * Closes the transport of a server whose circuit opened, triggering a reconnect.
+   * @param serverName - Server name
+   * @internal
+   */
+  private open(serverName: string): void {
+    const status = this.breakers.get(serverName)?.status;
+    console.error(`[proxy] Circuit opened for ${serverName}: ${status?.lastFailure}`);
+    logEvent('warn', 'server:circuit_open', { name: serverName, ...status });
+
+    this.stopCheck(serverName);
+    this.config.transports
+      .get(serverName)
+      ?.close()
+      .catch((error) => logError('server:circuit_close_failed', error, { name: serverName }));
+  }
+}
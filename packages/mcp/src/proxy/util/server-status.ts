@@ -10,6 +10,7 @@ import type { ServerStatus } from '@mcp-funnel/models';
  * @param connectedServers - Map of currently connected servers
  * @param disconnectedServers - Map of disconnected servers with optional error info
  * @param connectionTimestamps - Map of connection timestamps for connected servers
+ * @param details - Circuit breaker state and replica states, where applicable
  * @returns ServerStatus object with current state and metadata
  * @public
  */
@@ -18,6 +19,7 @@ export function getServerStatus(
   connectedServers: Map<string, TargetServer | TargetServerZod>,
   disconnectedServers: Map<string, (TargetServer | TargetServerZod) & { error?: string }>,
   connectionTimestamps: Map<string, string>,
+  details: Pick<ServerStatus, 'circuit' | 'replicas'> = {},
 ): ServerStatus {
   // Check if server is connected
   if (connectedServers.has(name)) {
@@ -26,6 +28,7 @@ export function getServerStatus(
       name,
       status: 'connected',
       connectedAt,
+      ...withDetails(details),
     };
   }
 
@@ -36,6 +39,7 @@ export function getServerStatus(
       name,
       status: disconnectedServer.error ? 'error' : 'disconnected',
       error: disconnectedServer.error,
+      ...withDetails(details),
     };
   }
 
@@ -76,3 +80,12 @@ export function getTargetServers(
     disconnected: Array.from(disconnectedServers),
   };
 }
+
+/**
+ * @param details - Optional status details
+ * @returns The details that are set
+ * @internal
+ */
+function withDetails({ circuit, replicas }: Pick<ServerStatus, 'circuit' | 'replicas'>) {
+  return { ...(circuit && { circuit }), ...(replicas && { replicas }) };
+}
@@ -0,0 +1,52 @@
+import { dirname, join, resolve } from 'path';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { logEvent, RecordingTransport } from '@mcp-funnel/core';
+import type { ProxyConfig, TargetServer, TargetServerZod } from '@mcp-funnel/schemas';
+
+/**
+ * Resolves the fixture of a replay transport relative to the config file.
+ * @param targetServer - Server configuration
+ * @param configPath - Path of the config file
+ * @returns The server with an absolute fixture path, or the server itself for other transports
+ * @public
+ */
+export function resolveReplayFixture<T extends TargetServer | TargetServerZod>(
+  targetServer: T,
+  configPath: string,
+): T {
+  const transport = (targetServer as TargetServerZod).transport;
+  if (transport?.type !== 'replay') return targetServer;
+  return {
+    ...targetServer,
+    transport: { ...transport, fixture: resolve(dirname(configPath), transport.fixture) },
+  };
+}
+
+/**
+ * Wraps a backend transport in a RecordingTransport when `recordSessions` is set, so
+ * the session is written to `<recordSessions>/<server>.jsonl`. Replayed sessions are
+ * not recorded again.
+ * @param transport - Transport to the server
+ * @param targetServer - Server configuration
+ * @param config - Proxy configuration
+ * @param configPath - Path of the config file, for resolving a relative directory
+ * @returns The recording transport, or the transport itself
+ * @public
+ * @see file:./connection-setup.ts - connectToServer
+ */
+export function recordSession(
+  transport: Transport,
+  targetServer: TargetServer | TargetServerZod,
+  config: ProxyConfig,
+  configPath: string,
+): Transport {
+  if (!config.recordSessions || (targetServer as TargetServerZod).transport?.type === 'replay') {
+    return transport;
+  }
+  const fixturePath = join(
+    resolve(dirname(configPath), config.recordSessions),
+    `${targetServer.name}.jsonl`,
+  );
+  logEvent('info', 'server:recording_session', { name: targetServer.name, path: fixturePath });
+  return new RecordingTransport(transport, fixturePath);
+}
@@ -0,0 +1,59 @@
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import { AuditLog } from '../../audit-log/index.js';
+import { ToolMiddlewareChain } from '../../tool-middleware/index.js';
+import { ToolCallLimiter } from '../../utils/execution-limits.js';
+import { ToolResultStore } from '../../utils/result-store.js';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+
+/**
+ * Services every tool call passes through: call limits, middleware, result truncation
+ * and the audit log. All of them read the shared config object, so hot reloads apply
+ * without recreating them; only configured middleware has to be reloaded.
+ * @public
+ * @see file:../mcp-proxy.ts - Owns one pipeline
+ */
+export class ToolCallPipeline {
+  public readonly middleware = new ToolMiddlewareChain();
+  private readonly limiter: ToolCallLimiter;
+  private readonly resultStore: ToolResultStore;
+  private readonly audit: AuditLog;
+
+  /**
+   * @param config - Shared proxy configuration
+   * @param servers - Normalized servers, updated in place on reload
+   * @param configPath - Path of the config file, for relative middleware and log paths
+   */
+  public constructor(
+    private readonly config: ProxyConfig,
+    servers: TargetServer[],
+    private readonly configPath: string,
+  ) {
+    this.limiter = new ToolCallLimiter(config, servers);
+    this.resultStore = new ToolResultStore(config);
+    this.audit = new AuditLog(config, configPath);
+  }
+
+  /**
+   * (Re)loads the middleware modules from the `middleware` setting.
+   * @throws Error when a module cannot be loaded
+   * @public
+   */
+  public async loadMiddleware(): Promise<void> {
+    await this.middleware.loadConfigured(this.config.middleware, this.configPath);
+  }
+
+  /**
+   * @param runOnServer - Starts lazy servers and holds calls to reconnecting ones
+   * @returns Options shared by all tool calls
+   * @public
+   */
+  public options(runOnServer: ToolExecutionOptions['runOnServer']): ToolExecutionOptions {
+    return {
+      runOnServer,
+      limiter: this.limiter,
+      middleware: this.middleware,
+      resultStore: this.resultStore,
+      audit: this.audit,
+    };
+  }
+}
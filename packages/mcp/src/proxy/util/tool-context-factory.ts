@@ -1,41 +1,41 @@
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import type { Notification } from '@modelcontextprotocol/sdk/types.js';
 import type { CoreToolContext } from '../../tools/core-tool.interface.js';
-import type { ToolRegistry } from '../../tool-registry/index.js';
+import type { ToolRegistryView } from '../../tool-registry/index.js';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { ToolExecutionOptions } from '../../utils/tool-executor.js';
+import { getDynamicallyEnabledTools } from './legacy-tool-views.js';
 
 /**
  * Creates a tool context for core tools with registry and notification support.
  *
  * Provides core tools with access to tool registry, configuration, and the ability
- * to enable tools dynamically and send notifications to the MCP client.
+ * to enable and disable tools dynamically and send notifications to the MCP client.
  *
- * @param toolRegistry - Registry for tool management and discovery
+ * @param toolRegistry - Registry for tool management and discovery, or a session's view of it
  * @param config - Proxy configuration including tool visibility rules
  * @param configPath - Path to configuration file
- * @param server - MCP server instance for sending notifications
+ * @param server - MCP server of the client session, for sending notifications
+ * @param execution - Cancellation and progress options of the current tool call
  * @returns CoreToolContext for use by core tools
  *
  * @public
  * @see {@link CoreToolContext} - Context interface definition
  */
 export function createToolContext(
-  toolRegistry: ToolRegistry,
+  toolRegistry: ToolRegistryView,
   config: ProxyConfig,
   configPath: string,
   server: Server,
+  execution?: ToolExecutionOptions,
 ): CoreToolContext {
   return {
     toolRegistry,
+    execution,
     // Backward compatibility - provide the caches from registry
     toolDescriptionCache: toolRegistry.getToolDescriptions(),
     toolDefinitionCache: toolRegistry.getToolDefinitions(),
-    dynamicallyEnabledTools: new Set(
-      toolRegistry
-        .getAllTools()
-        .filter((t) => t.enabled && t.enabledBy)
-        .map((t) => t.fullName),
-    ),
+    dynamicallyEnabledTools: getDynamicallyEnabledTools(toolRegistry),
     config,
     configPath,
     enableTools: (toolNames: string[]) => {
@@ -47,6 +47,10 @@ export function createToolContext(
       server.sendToolListChanged();
       console.error(`[proxy] Sent tools/list_changed notification`);
     },
+    disableTools: (toolNames: string[]) => {
+      toolRegistry.disableTools(toolNames);
+      server.sendToolListChanged();
+    },
     sendNotification: async (method: string, params?: Record<string, unknown>) => {
       try {
         // Create a properly typed notification object that conforms to the Notification interface
@@ -0,0 +1,85 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CoreToolContext, ICoreTool } from '../../tools/core-tool.interface.js';
+import type { ToolRegistryView } from '../../tool-registry/index.js';
+import {
+  createToolExecutionOptions,
+  executeTool,
+  type ToolExecutionOptions,
+} from '../../utils/tool-executor.js';
+import type { UpstreamClients } from './upstream-clients.js';
+
+/**
+ * Configuration for the `tools/list` and `tools/call` handlers.
+ * @public
+ */
+export interface ToolHandlersConfig {
+  /** Registry holding all exposed tools, or the view of one client session */
+  toolRegistry: ToolRegistryView;
+  /** Core tools by name; they are checked before the registry */
+  coreTools: Map<string, ICoreTool>;
+  /** Builds the context handed to core tools for one call */
+  createContext: (execution: ToolExecutionOptions) => CoreToolContext;
+  /** Options shared by all calls: lazy server start, limits and middleware */
+  execution: ToolExecutionOptions;
+  /** Upstream clients; backend requests made during a call are routed to its client */
+  upstream?: UpstreamClients;
+}
+
+/**
+ * Registers `tools/list` and `tools/call` on the proxy server.
+ * @param server - Proxy MCP server
+ * @param config - Handler configuration
+ * @public
+ * @see file:../mcp-proxy.ts - Called from setupRequestHandlers
+ */
+export function registerToolHandlers(server: Server, config: ToolHandlersConfig): void {
+  const { toolRegistry, coreTools, createContext } = config;
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // Get all exposed tools from registry (including core tools)
+    const tools = toolRegistry.getExposedTools();
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // Results are awaited so the call stays in flight until it settles
+    const settle = config.upstream?.beginCall(server);
+    try {
+      const { name: toolName, arguments: toolArgs } = request.params;
+      const execution = { ...config.execution, ...createToolExecutionOptions(request, extra) };
+      if (execution.audit?.enabled) {
+        const client = server.getClientVersion();
+        execution.client = client && `${client.name}/${client.version}`;
+      }
+
+      // Check core tools first
+      const coreTool = coreTools.get(toolName);
+      if (coreTool) {
+        const call = () => coreTool.handle(toolArgs || {}, createContext(execution));
+        if (!execution.audit) return await call();
+        const info = {
+          tool: toolName,
+          server: 'mcp-funnel',
+          source: 'core' as const,
+          args: toolArgs,
+        };
+        return await execution.audit.record({ ...info, client: execution.client }, call);
+      }
+
+      // Get tool from registry
+      const tool = toolRegistry.getToolForExecution(toolName);
+      if (!tool) {
+        return {
+          content: [{ type: 'text', text: `Tool not found: ${toolName}` }],
+          isError: true,
+        };
+      }
+
+      toolRegistry.recordToolCall(tool.fullName);
+      return await executeTool(tool, toolArgs || {}, execution);
+    } finally {
+      settle?.();
+    }
+  });
+}
@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { logError } from '@mcp-funnel/core';
+import type { TargetServerZod, TargetServer } from '@mcp-funnel/schemas';
+import { getUserDir } from '../../config-loader.js';
+
+/**
+ * Tool list of a backend persisted on disk, used to serve discovery without connecting.
+ * @public
+ */
+export interface ToolManifest {
+  serverName: string;
+  /** Hash of the command/args/transport the tools were listed from */
+  configHash: string;
+  updatedAt: string;
+  /** Tool definitions under their original (unprefixed) names */
+  tools: Tool[];
+}
+
+/**
+ * Directory holding one manifest file per server.
+ * @returns Absolute path below the user directory (honours MCP_FUNNEL_HOME)
+ * @public
+ */
+export function getToolManifestDir(): string {
+  return join(getUserDir(), 'tool-manifests');
+}
+
+/**
+ * Hashes the parts of a server config that determine which tools it offers.
+ * Changing the command, args or transport therefore starts a fresh manifest.
+ * @param server - Server configuration
+ * @returns Short hex digest
+ * @public
+ */
+export function getServerConfigHash(server: TargetServer | TargetServerZod): string {
+  const { command, args, transport } = server;
+  return createHash('sha256')
+    .update(JSON.stringify({ command, args, transport }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Maps a server onto a safe file name keyed by name and config hash.
+ * @param serverName - Server name from the config
+ * @param configHash - Result of {@link getServerConfigHash}
+ * @returns Manifest file path
+ * @internal
+ */
+function manifestPath(serverName: string, configHash: string): string {
+  return join(getToolManifestDir(), `${encodeURIComponent(serverName)}-${configHash}.json`);
+}
+
+/**
+ * Reads the cached manifest of a server.
+ * @param server - Server configuration
+ * @returns The manifest, or undefined when none exists for this config or it cannot be parsed
+ * @public
+ */
+export async function loadToolManifest(
+  server: TargetServer | TargetServerZod,
+): Promise<ToolManifest | undefined> {
+  const serverName = server.name;
+  let raw: string;
+  try {
+    raw = await readFile(manifestPath(serverName, getServerConfigHash(server)), 'utf-8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const manifest = JSON.parse(raw) as ToolManifest;
+    return Array.isArray(manifest.tools) ? manifest : undefined;
+  } catch (error) {
+    logError('manifest:parse_failed', error, { server: serverName });
+    return undefined;
+  }
+}
+
+/**
+ * Writes a server's current tool list to its manifest.
+ * Failures are logged and otherwise ignored; the manifest is only a cache.
+ * @param server - Server configuration
+ * @param tools - Tool definitions under their original names
+ * @returns The written manifest
+ * @public
+ */
+export async function saveToolManifest(
+  server: TargetServer | TargetServerZod,
+  tools: Tool[],
+): Promise<ToolManifest> {
+  const serverName = server.name;
+  const configHash = getServerConfigHash(server);
+  const manifest: ToolManifest = {
+    serverName,
+    configHash,
+    updatedAt: new Date().toISOString(),
+    tools,
+  };
+  try {
+    await mkdir(getToolManifestDir(), { recursive: true });
+    await writeFile(manifestPath(serverName, configHash), JSON.stringify(manifest, null, 2));
+  } catch (error) {
+    logError('manifest:write_failed', error, { server: serverName });
+  }
+  return manifest;
+}
@@ -0,0 +1,83 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+/**
+ * Activity of one initialized upstream client.
+ * @internal
+ */
+interface UpstreamActivity {
+  /** Tool calls of the client that are still running */
+  inFlight: number;
+  /** Activity counter at the client's initialization or latest tool call */
+  lastActive: number;
+}
+
+/**
+ * Upstream clients that backend sampling, elicitation and roots requests can be forwarded to:
+ * the stdio client and the clients of the Streamable HTTP sessions.
+ *
+ * A proxy server becomes a target once its client has completed initialization. Backend
+ * requests go to the client with a tool call in flight, as the backend most likely asks on
+ * behalf of that call; when several have one, or none, the most recently active client wins.
+ * @public
+ * @see file:./client-request-forwarding.ts - Routes backend requests through current()
+ */
+export class UpstreamClients {
+  private active = new Map<Server, UpstreamActivity>();
+  private clock = 0;
+
+  /**
+   * Tracks a proxy server. Its client becomes a target once it has initialized.
+   * @param server - Proxy server of the stdio client or of one session
+   * @returns Function that stops tracking the server, for closed sessions
+   * @public
+   */
+  public add(server: Server): () => void {
+    const previous = server.oninitialized;
+    server.oninitialized = () => {
+      previous?.();
+      this.active.set(server, { inFlight: 0, lastActive: ++this.clock });
+    };
+    return () => {
+      this.active.delete(server);
+    };
+  }
+
+  /**
+   * Marks a tool call of the server's client as running.
+   * @param server - Proxy server that received the call
+   * @returns Function marking the call as settled
+   * @public
+   */
+  public beginCall(server: Server): () => void {
+    const activity = this.active.get(server);
+    if (!activity) return () => {};
+    activity.inFlight++;
+    activity.lastActive = ++this.clock;
+    return () => {
+      activity.inFlight--;
+    };
+  }
+
+  /**
+   * @returns Server of the client backend requests are forwarded to, if any has initialized
+   * @public
+   */
+  public current(): Server | undefined {
+    let best: [Server, UpstreamActivity] | undefined;
+    for (const entry of this.active) {
+      if (!best || compareActivity(entry[1], best[1]) > 0) best = entry;
+    }
+    return best?.[0];
+  }
+}
+
+/**
+ * @param a - Activity of one client
+ * @param b - Activity of another client
+ * @returns Positive when backend requests should rather go to the client of `a`
+ * @internal
+ */
+function compareActivity(a: UpstreamActivity, b: UpstreamActivity): number {
+  const busy = Number(a.inFlight > 0) - Number(b.inFlight > 0);
+  return busy !== 0 ? busy : a.lastActive - b.lastActive;
+}
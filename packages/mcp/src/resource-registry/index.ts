@@ -0,0 +1,180 @@
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { passesPatternFilters } from '../utils/pattern-matcher.js';
+import type {
+  RegisterServerResourcesParams,
+  ResolvedResource,
+  ResourceState,
+  ResourceTemplateState,
+} from './types.js';
+import { ResourceRegistryUtils } from './utils.js';
+export type { ResourceState, ResourceTemplateState, ResolvedResource } from './types.js';
+export { ResourceRegistryUtils } from './utils.js';
+
+/**
+ * Aggregates resources and resource templates from all connected backend servers.
+ *
+ * Backend URIs are namespaced per server (see {@link ResourceRegistryUtils.namespaceUri})
+ * so that `resources/read` can be routed back to the owning client. Visibility follows
+ * `exposeResources` / `hideResources`, matched against `serverName__resourceName`.
+ * @public
+ */
+export class ResourceRegistry {
+  private resources = new Map<string, ResourceState>();
+  private templates = new Map<string, ResourceTemplateState>();
+  private clients = new Map<string, Client>();
+  private config: ProxyConfig;
+
+  public constructor(config: ProxyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Replaces everything known about a server's resources with a fresh discovery result.
+   * @param params - Server name, client and the discovered resources/templates
+   */
+  public registerServerResources(params: RegisterServerResourcesParams): void {
+    const { serverName, client } = params;
+    this.removeResourcesFromServer(serverName);
+    this.clients.set(serverName, client);
+
+    for (const resource of params.resources) {
+      const uri = ResourceRegistryUtils.namespaceUri(serverName, resource.uri);
+      const filterName = ResourceRegistryUtils.filterName(serverName, resource.name);
+      this.resources.set(uri, {
+        uri,
+        originalUri: resource.uri,
+        serverName,
+        filterName,
+        exposed: this.isExposed(filterName),
+        definition: resource,
+        client,
+      });
+    }
+
+    for (const template of params.resourceTemplates) {
+      const uriTemplate = ResourceRegistryUtils.namespaceUri(serverName, template.uriTemplate);
+      const filterName = ResourceRegistryUtils.filterName(serverName, template.name);
+      this.templates.set(uriTemplate, {
+        uriTemplate,
+        originalUriTemplate: template.uriTemplate,
+        serverName,
+        filterName,
+        exposed: this.isExposed(filterName),
+        definition: template,
+        client,
+      });
+    }
+  }
+
+  /**
+   * Removes all resources and templates of a server (used for server disconnection).
+   * @param serverName - Server whose resources should be dropped
+   */
+  public removeResourcesFromServer(serverName: string): void {
+    for (const [uri, resource] of this.resources) {
+      if (resource.serverName === serverName) {
+        this.resources.delete(uri);
+      }
+    }
+    for (const [uriTemplate, template] of this.templates) {
+      if (template.serverName === serverName) {
+        this.templates.delete(uriTemplate);
+      }
+    }
+    this.clients.delete(serverName);
+  }
+
+  /**
+   * Re-applies `exposeResources` / `hideResources` after the config changed (config hot reload).
+   */
+  public applyConfigFilters(): void {
+    for (const resource of this.resources.values()) {
+      resource.exposed = this.isExposed(resource.filterName);
+    }
+    for (const template of this.templates.values()) {
+      template.exposed = this.isExposed(template.filterName);
+    }
+  }
+
+  /**
+   * Resolves a namespaced URI to the backend that owns it.
+   *
+   * Known resources must be exposed. URIs that were not listed (e.g. expanded from a
+   * template) are routed to their server only if it offers at least one exposed template.
+   * @param uri - Namespaced URI as requested by the upstream client
+   * @returns Routing information, or undefined if the URI cannot be served
+   */
+  public resolveResource(uri: string): ResolvedResource | undefined {
+    const known = this.resources.get(uri);
+    if (known) {
+      return known.exposed
+        ? { serverName: known.serverName, originalUri: known.originalUri, client: known.client }
+        : undefined;
+    }
+
+    const parsed = ResourceRegistryUtils.parseNamespacedUri(uri);
+    if (!parsed) return undefined;
+
+    const client = this.clients.get(parsed.serverName);
+    if (!client || !this.hasExposedTemplate(parsed.serverName)) return undefined;
+
+    return { ...parsed, client };
+  }
+
+  /**
+   * Resolves a namespaced URI template to the backend that owns it.
+   * @param uriTemplate - Namespaced URI template as listed by the proxy
+   * @returns Routing information with the original template, or undefined if unknown or hidden
+   */
+  public resolveResourceTemplate(uriTemplate: string): ResolvedResource | undefined {
+    const template = this.templates.get(uriTemplate);
+    if (!template?.exposed) return undefined;
+    return {
+      serverName: template.serverName,
+      originalUri: template.originalUriTemplate,
+      client: template.client,
+    };
+  }
+
+  // Query methods
+  public getExposedResources(): Resource[] {
+    return Array.from(this.resources.values())
+      .filter((r) => r.exposed)
+      .map((r) => ({
+        ...r.definition,
+        uri: r.uri,
+        description: `[${r.serverName}] ${r.definition.description || ''}`.trim(),
+      }));
+  }
+
+  public getExposedResourceTemplates(): ResourceTemplate[] {
+    return Array.from(this.templates.values())
+      .filter((t) => t.exposed)
+      .map((t) => ({
+        ...t.definition,
+        uriTemplate: t.uriTemplate,
+        description: `[${t.serverName}] ${t.definition.description || ''}`.trim(),
+      }));
+  }
+
+  public getAllResources(): ResourceState[] {
+    return Array.from(this.resources.values());
+  }
+
+  public getAllResourceTemplates(): ResourceTemplateState[] {
+    return Array.from(this.templates.values());
+  }
+
+  private hasExposedTemplate(serverName: string): boolean {
+    for (const template of this.templates.values()) {
+      if (template.serverName === serverName && template.exposed) return true;
+    }
+    return false;
+  }
+
+  private isExposed(filterName: string): boolean {
+    return passesPatternFilters(filterName, this.config.exposeResources, this.config.hideResources);
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ResourceRegistry, ResourceRegistryUtils } from './index.js';
+
+const githubClient = { name: 'github-client' } as unknown as Client;
+const filesystemClient = { name: 'filesystem-client' } as unknown as Client;
+
+describe('ResourceRegistry', () => {
+  let registry: ResourceRegistry;
+  let config: ProxyConfig;
+
+  const registerDefaults = () => {
+    registry.registerServerResources({
+      serverName: 'github',
+      client: githubClient,
+      resources: [
+        { uri: 'repo://acme/app/readme', name: 'readme', description: 'Project readme' },
+        { uri: 'repo://acme/app/secrets', name: 'secrets' },
+      ],
+      resourceTemplates: [{ uriTemplate: 'repo://{owner}/{repo}/readme', name: 'repo_readme' }],
+    });
+    registry.registerServerResources({
+      serverName: 'filesystem',
+      client: filesystemClient,
+      resources: [{ uri: 'file:///tmp/notes.md', name: 'notes.md', mimeType: 'text/markdown' }],
+      resourceTemplates: [],
+    });
+  };
+
+  beforeEach(() => {
+    config = { servers: [], hideResources: ['*__secrets'] };
+    registry = new ResourceRegistry(config);
+    registerDefaults();
+  });
+
+  describe('namespacing', () => {
+    it('should round-trip namespaced URIs', () => {
+      const uri = ResourceRegistryUtils.namespaceUri('filesystem', 'file:///tmp/notes.md');
+      expect(uri).toBe('funnel://filesystem/file:///tmp/notes.md');
+      expect(ResourceRegistryUtils.parseNamespacedUri(uri)).toEqual({
+        serverName: 'filesystem',
+        originalUri: 'file:///tmp/notes.md',
+      });
+    });
+
+    it('should reject URIs outside the proxy namespace', () => {
+      expect(ResourceRegistryUtils.parseNamespacedUri('file:///tmp/notes.md')).toBeUndefined();
+      expect(ResourceRegistryUtils.parseNamespacedUri('funnel://github/')).toBeUndefined();
+    });
+  });
+
+  describe('listing', () => {
+    it('should merge resources from all servers with namespaced URIs', () => {
+      const uris = registry.getExposedResources().map((r) => r.uri);
+      expect(uris).toEqual([
+        'funnel://github/repo://acme/app/readme',
+        'funnel://filesystem/file:///tmp/notes.md',
+      ]);
+    });
+
+    it('should prefix descriptions with the server name and keep other metadata', () => {
+      const notes = registry
+        .getExposedResources()
+        .find((r) => r.uri === 'funnel://filesystem/file:///tmp/notes.md');
+      expect(notes?.description).toBe('[filesystem]');
+      expect(notes?.mimeType).toBe('text/markdown');
+    });
+
+    it('should namespace resource templates', () => {
+      expect(registry.getExposedResourceTemplates().map((t) => t.uriTemplate)).toEqual([
+        'funnel://github/repo://{owner}/{repo}/readme',
+      ]);
+    });
+
+    it('should apply exposeResources as an allowlist', () => {
+      registry = new ResourceRegistry({ servers: [], exposeResources: ['filesystem__*'] });
+      registerDefaults();
+
+      expect(registry.getExposedResources().map((r) => r.uri)).toEqual([
+        'funnel://filesystem/file:///tmp/notes.md',
+      ]);
+      expect(registry.getExposedResourceTemplates()).toEqual([]);
+    });
+  });
+
+  describe('resolveResource', () => {
+    it('should route listed resources to the owning client', () => {
+      expect(registry.resolveResource('funnel://github/repo://acme/app/readme')).toEqual({
+        serverName: 'github',
+        originalUri: 'repo://acme/app/readme',
+        client: githubClient,
+      });
+    });
+
+    it('should not resolve hidden resources', () => {
+      expect(registry.resolveResource('funnel://github/repo://acme/app/secrets')).toBeUndefined();
+    });
+
+    it('should route template-expanded URIs to servers with exposed templates', () => {
+      expect(registry.resolveResource('funnel://github/repo://other/lib/readme')).toEqual({
+        serverName: 'github',
+        originalUri: 'repo://other/lib/readme',
+        client: githubClient,
+      });
+      expect(registry.resolveResource('funnel://filesystem/file:///etc/passwd')).toBeUndefined();
+    });
+  });
+
+  describe('removeResourcesFromServer', () => {
+    it('should drop all resources, templates and routing for the server', () => {
+      registry.removeResourcesFromServer('github');
+
+      expect(registry.getAllResources().map((r) => r.serverName)).toEqual(['filesystem']);
+      expect(registry.getAllResourceTemplates()).toEqual([]);
+      expect(registry.resolveResource('funnel://github/repo://other/lib/readme')).toBeUndefined();
+    });
+
+    it('should replace previous entries when a server is re-registered', () => {
+      registry.registerServerResources({
+        serverName: 'filesystem',
+        client: filesystemClient,
+        resources: [{ uri: 'file:///tmp/todo.md', name: 'todo.md' }],
+        resourceTemplates: [],
+      });
+
+      expect(
+        registry
+          .getAllResources()
+          .filter((r) => r.serverName === 'filesystem')
+          .map((r) => r.originalUri),
+      ).toEqual(['file:///tmp/todo.md']);
+    });
+  });
+});
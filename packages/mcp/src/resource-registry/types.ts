@@ -0,0 +1,49 @@
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+export interface ResourceState {
+  // Identity
+  uri: string; // e.g., "funnel://filesystem/file:///tmp/notes.md"
+  originalUri: string; // e.g., "file:///tmp/notes.md"
+  serverName: string; // e.g., "filesystem"
+  filterName: string; // e.g., "filesystem__notes.md" - matched by expose/hide patterns
+
+  // Visibility state (computed)
+  exposed: boolean;
+
+  // Resource data
+  definition: Resource;
+  client: Client;
+}
+
+export interface ResourceTemplateState {
+  // Identity
+  uriTemplate: string; // e.g., "funnel://github/repo://{owner}/{repo}/readme"
+  originalUriTemplate: string; // e.g., "repo://{owner}/{repo}/readme"
+  serverName: string;
+  filterName: string;
+
+  // Visibility state (computed)
+  exposed: boolean;
+
+  // Template data
+  definition: ResourceTemplate;
+  client: Client;
+}
+
+export interface RegisterServerResourcesParams {
+  serverName: string;
+  client: Client;
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+}
+
+/**
+ * Result of resolving a namespaced resource URI back to its owning backend.
+ * @see {@link ResourceRegistry.resolveResource}
+ */
+export interface ResolvedResource {
+  serverName: string;
+  originalUri: string;
+  client: Client;
+}
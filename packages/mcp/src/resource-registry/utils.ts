@@ -0,0 +1,62 @@
+/**
+ * Scheme prefix for resource URIs exposed by the proxy. Every backend URI is wrapped as
+ * `funnel://<serverName>/<originalUri>` so reads can be routed back to the owning server.
+ * @internal
+ */
+const NAMESPACE_PREFIX = 'funnel://';
+
+/**
+ * Wraps a backend resource URI (or URI template) in the proxy namespace.
+ * @param serverName - Name of the backend server that owns the resource
+ * @param uri - Original URI or URI template as reported by the backend
+ * @returns Namespaced URI, e.g. `funnel://filesystem/file:///tmp/notes.md`
+ * @internal
+ */
+function namespaceUri(serverName: string, uri: string): string {
+  return `${NAMESPACE_PREFIX}${serverName}/${uri}`;
+}
+
+/**
+ * Splits a namespaced URI into the owning server name and the original backend URI.
+ * @param uri - URI as seen by the upstream client
+ * @returns Server name and original URI, or undefined when the URI is not namespaced
+ * @internal
+ */
+function parseNamespacedUri(uri: string): { serverName: string; originalUri: string } | undefined {
+  if (!uri.startsWith(NAMESPACE_PREFIX)) {
+    return undefined;
+  }
+
+  const rest = uri.slice(NAMESPACE_PREFIX.length);
+  const separator = rest.indexOf('/');
+  if (separator <= 0 || separator === rest.length - 1) {
+    return undefined;
+  }
+
+  return {
+    serverName: rest.slice(0, separator),
+    originalUri: rest.slice(separator + 1),
+  };
+}
+
+/**
+ * Builds the name used for expose/hide pattern matching, consistent with tool names.
+ * @param serverName - Name of the backend server
+ * @param name - Resource or template name reported by the backend
+ * @returns Filter name, e.g. `github__readme`
+ * @internal
+ */
+function filterName(serverName: string, name: string): string {
+  return `${serverName}__${name}`;
+}
+
+/**
+ * Utility functions for resource registry operations.
+ * @internal
+ * @see {@link ResourceRegistry} - Main registry class using these utilities
+ */
+export const ResourceRegistryUtils = {
+  namespaceUri,
+  parseNamespacedUri,
+  filterName,
+};
@@ -0,0 +1,98 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { logEvent } from '@mcp-funnel/core';
+import { loadToolMiddleware } from './loader.js';
+import type { ToolCallContext, ToolCallMiddleware } from './types.js';
+export type { ToolCallContext, ToolCallMiddleware, ToolCallSource } from './types.js';
+export { loadToolMiddleware } from './loader.js';
+
+/**
+ * Ordered middleware around tool calls.
+ *
+ * Middleware loaded from the config runs before middleware registered in code.
+ * The chain is applied by executeTool, so direct `tools/call`, `bridge_tool_request`
+ * and web server executions all pass through it.
+ * @public
+ * @see file:../utils/tool-executor.ts - executeTool
+ */
+export class ToolMiddlewareChain {
+  private configured: ToolCallMiddleware[] = [];
+  private registered: ToolCallMiddleware[] = [];
+
+  /**
+   * Adds middleware after all existing middleware.
+   * @param middleware - Middleware to add
+   * @returns Function removing the middleware again
+   */
+  public use(middleware: ToolCallMiddleware): () => void {
+    this.registered.push(middleware);
+    return () => {
+      const index = this.registered.indexOf(middleware);
+      if (index !== -1) this.registered.splice(index, 1);
+    };
+  }
+
+  /**
+   * Replaces the middleware loaded from config modules.
+   * @param paths - `middleware` config setting
+   * @param configPath - Path of the config file, for resolving relative paths
+   * @throws Error when a module cannot be loaded; the previous middleware stays in place
+   */
+  public async loadConfigured(paths: string[] | undefined, configPath: string): Promise<void> {
+    this.configured = paths?.length ? await loadToolMiddleware(paths, configPath) : [];
+    if (this.configured.length) {
+      logEvent('info', 'middleware:loaded', { names: this.configured.map((m) => m.name) });
+    }
+  }
+
+  /**
+   * Runs a tool call through all middleware.
+   * @param context - Call context; `args` may be changed by before-call hooks
+   * @param call - Executes the tool with the final arguments
+   * @returns Result after all after-call hooks
+   * @throws The call's error when no error hook recovered from it
+   */
+  public async run(
+    context: ToolCallContext,
+    call: (args: Record<string, unknown>) => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const chain = [...this.configured, ...this.registered];
+    if (!chain.length) return call(context.args);
+
+    let result: CallToolResult | undefined;
+    try {
+      for (const middleware of chain) {
+        result = (await middleware.beforeCall?.(context)) ?? undefined;
+        if (result) break;
+      }
+      result ??= await call(context.args);
+    } catch (error) {
+      result = await recover(chain, context, error);
+    }
+
+    for (const middleware of [...chain].reverse()) {
+      result = (await middleware.afterCall?.(context, result)) ?? result;
+    }
+    return result;
+  }
+}
+
+/**
+ * Gives error hooks the chance to turn an error into a result.
+ * @param chain - Active middleware
+ * @param context - Call context
+ * @param error - Error thrown by a before-call hook or the call
+ * @returns Result of the first error hook that returned one
+ * @throws The original error when no hook recovered
+ * @internal
+ */
+async function recover(
+  chain: ToolCallMiddleware[],
+  context: ToolCallContext,
+  error: unknown,
+): Promise<CallToolResult> {
+  for (const middleware of [...chain].reverse()) {
+    const result = await middleware.onError?.(context, error);
+    if (result) return result;
+  }
+  throw error;
+}
@@ -0,0 +1,59 @@
+import { stat } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ToolCallMiddleware } from './types.js';
+
+/**
+ * Type guard for middleware exported by a module.
+ * @param value - Exported value
+ * @returns True when the value has a name and at least one hook
+ * @internal
+ */
+function isToolCallMiddleware(value: unknown): value is ToolCallMiddleware {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.name === 'string' &&
+    ['beforeCall', 'afterCall', 'onError'].some((hook) => typeof m[hook] === 'function')
+  );
+}
+
+/**
+ * Imports the middleware modules listed in the `middleware` config setting.
+ *
+ * Paths are resolved relative to the config file. A module's default export (or a
+ * named `middleware` export) must be a middleware object or an array of them. Modules are
+ * imported again when their file changed, so a config reload picks up edits; modules they
+ * import themselves stay cached until a restart.
+ * @param paths - Module paths from the config
+ * @param configPath - Path of the config file
+ * @returns Middleware in the order listed
+ * @throws Error when a module cannot be imported or exports no valid middleware
+ * @public
+ */
+export async function loadToolMiddleware(
+  paths: string[],
+  configPath: string,
+): Promise<ToolCallMiddleware[]> {
+  const baseDir = dirname(resolve(configPath));
+  const loaded: ToolCallMiddleware[] = [];
+
+  for (const path of paths) {
+    const file = resolve(baseDir, path);
+    // The ESM cache is keyed by URL, so the modification time makes edits a new module
+    const url = `${pathToFileURL(file).href}?mtime=${(await stat(file)).mtimeMs}`;
+    const mod = (await import(url)) as Record<string, unknown>;
+    const exported = mod.default ?? mod.middleware;
+
+    for (const candidate of Array.isArray(exported) ? exported : [exported]) {
+      if (!isToolCallMiddleware(candidate)) {
+        throw new Error(
+          `Middleware module ${path} must export an object with a name and a beforeCall, afterCall or onError hook`,
+        );
+      }
+      loaded.push(candidate);
+    }
+  }
+
+  return loaded;
+}
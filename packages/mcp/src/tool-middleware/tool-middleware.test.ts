@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolState } from '../tool-registry/index.js';
+import { executeTool } from '../utils/tool-executor.js';
+import { ToolMiddlewareChain, type ToolCallContext } from './index.js';
+
+const ok = (text: string): CallToolResult => ({ content: [{ type: 'text', text }] });
+
+const context = (): ToolCallContext => ({
+  toolName: 'github__create_issue',
+  serverName: 'github',
+  args: { title: 'bug' },
+  source: 'mcp',
+  state: {},
+});
+
+describe('ToolMiddlewareChain', () => {
+  it('should run before hooks in order and after hooks in reverse order', async () => {
+    const chain = new ToolMiddlewareChain();
+    const order: string[] = [];
+    for (const name of ['a', 'b']) {
+      chain.use({
+        name,
+        beforeCall: () => void order.push(`before:${name}`),
+        afterCall: () => void order.push(`after:${name}`),
+      });
+    }
+
+    await chain.run(context(), async () => {
+      order.push('call');
+      return ok('done');
+    });
+
+    expect(order).toEqual(['before:a', 'before:b', 'call', 'after:b', 'after:a']);
+  });
+
+  it('should let before hooks rewrite arguments and short-circuit the call', async () => {
+    const chain = new ToolMiddlewareChain();
+    const call = vi.fn().mockResolvedValue(ok('done'));
+    chain.use({
+      name: 'rewrite',
+      beforeCall: (ctx) => {
+        ctx.args.title = `[proxy] ${String(ctx.args.title)}`;
+      },
+    });
+
+    await chain.run(context(), call);
+    expect(call).toHaveBeenCalledWith({ title: '[proxy] bug' });
+
+    const remove = chain.use({ name: 'deny', beforeCall: () => ok('denied') });
+    await expect(chain.run(context(), call)).resolves.toEqual(ok('denied'));
+    expect(call).toHaveBeenCalledTimes(1);
+
+    remove();
+    await chain.run(context(), call);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let error hooks recover and after hooks replace results', async () => {
+    const chain = new ToolMiddlewareChain();
+    chain.use({
+      name: 'redact',
+      afterCall: (_ctx, result) => ({
+        ...result,
+        content: result.content.map((c) =>
+          c.type === 'text' ? { ...c, text: c.text.replace(/ghp_\w+/g, '***') } : c,
+        ),
+      }),
+    });
+    chain.use({ name: 'recover', onError: () => ok('fallback ghp_secret') });
+
+    const result = await chain.run(context(), async () => {
+      throw new Error('backend down');
+    });
+
+    expect(result).toEqual(ok('fallback ***'));
+  });
+
+  it('should rethrow when no error hook recovers', async () => {
+    const chain = new ToolMiddlewareChain();
+    const onError = vi.fn();
+    chain.use({ name: 'observe', onError });
+
+    await expect(
+      chain.run(context(), async () => {
+        throw new Error('backend down');
+      }),
+    ).rejects.toThrow('backend down');
+    expect(onError).toHaveBeenCalledWith(expect.any(Object), expect.any(Error));
+  });
+
+  describe('loadConfigured', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+      if (dir) rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load middleware modules relative to the config file', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'mcpf-middleware-'));
+      writeFileSync(
+        join(dir, 'tag.mjs'),
+        `export default { name: 'tag', afterCall: () => ({ content: [{ type: 'text', text: 'tagged' }] }) };`,
+      );
+      const chain = new ToolMiddlewareChain();
+
+      await chain.loadConfigured(['./tag.mjs'], join(dir, '.mcp-funnel.json'));
+
+      await expect(chain.run(context(), async () => ok('raw'))).resolves.toEqual(ok('tagged'));
+    });
+
+    it('should pick up edited modules on reload', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'mcpf-middleware-'));
+      const file = join(dir, 'tag.mjs');
+      const writeTag = (text: string, mtime: Date) => {
+        writeFileSync(
+          file,
+          `export default { name: 'tag', afterCall: () => ({ content: [{ type: 'text', text: '${text}' }] }) };`,
+        );
+        utimesSync(file, mtime, mtime);
+      };
+      const chain = new ToolMiddlewareChain();
+
+      writeTag('first', new Date('2025-01-01'));
+      await chain.loadConfigured(['./tag.mjs'], join(dir, '.mcp-funnel.json'));
+      writeTag('second', new Date('2025-01-02'));
+      await chain.loadConfigured(['./tag.mjs'], join(dir, '.mcp-funnel.json'));
+
+      await expect(chain.run(context(), async () => ok('raw'))).resolves.toEqual(ok('second'));
+    });
+
+    it('should reject modules without middleware', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'mcpf-middleware-'));
+      writeFileSync(join(dir, 'empty.mjs'), `export default { name: 'empty' };`);
+
+      await expect(
+        new ToolMiddlewareChain().loadConfigured(['./empty.mjs'], join(dir, 'config.json')),
+      ).rejects.toThrow('must export an object with a name');
+    });
+  });
+});
+
+describe('executeTool with middleware', () => {
+  it('should report the call source and pass rewritten arguments to the backend', async () => {
+    const callTool = vi.fn().mockResolvedValue(ok('created'));
+    const tool: ToolState = {
+      fullName: 'github__create_issue',
+      originalName: 'create_issue',
+      serverName: 'github',
+      discovered: true,
+      enabled: true,
+      exposed: true,
+      client: { callTool } as unknown as Client,
+    };
+    const chain = new ToolMiddlewareChain();
+    const seen: ToolCallContext[] = [];
+    chain.use({
+      name: 'audit',
+      beforeCall: (ctx) => {
+        seen.push(ctx);
+        ctx.args = { ...ctx.args, repo: 'acme/app' };
+      },
+    });
+
+    await executeTool(tool, { title: 'bug' }, { middleware: chain, source: 'bridge' });
+
+    expect(seen[0]).toMatchObject({ toolName: 'github__create_issue', source: 'bridge' });
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'create_issue', arguments: { title: 'bug', repo: 'acme/app' } },
+      undefined,
+      expect.any(Object),
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Where a tool call entered the proxy.
+ * - `mcp`: `tools/call` from the upstream client
+ * - `bridge`: `bridge_tool_request` core tool
+ * - `api`: REST or WebSocket execution in the web server
+ * @public
+ */
+export type ToolCallSource = 'mcp' | 'bridge' | 'api';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Call information handed to every hook of one tool call.
+ * @public
+ */
+export interface ToolCallContext {
+  /** Prefixed tool name, e.g. `github__create_issue` */
+  readonly toolName: string;
+  readonly serverName: string;
+  /** Arguments passed to the tool; before-call hooks may modify or replace them */
+  args: Record<string, unknown>;
+  readonly source: ToolCallSource;
+  /** Aborted when the caller cancels the call */
+  readonly signal?: AbortSignal;
+  /** Scratch space shared by the hooks of one call, e.g. for start times */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Hooks around backend and command tool calls.
+ * @public
+ * @see file:./index.ts - ToolMiddlewareChain
+ */
+export interface ToolCallMiddleware {
+  /** Identifies the middleware in logs */
+  name: string;
+  /**
+   * Runs before the call, in registration order.
+   * Returning a result skips the call and the remaining before-call hooks.
+   */
+  beforeCall?(context: ToolCallContext): MaybePromise<CallToolResult | void>;
+  /**
+   * Runs on every result returned to the caller, in reverse registration order,
+   * including error results. Returning a result replaces it.
+   */
+  afterCall?(context: ToolCallContext, result: CallToolResult): MaybePromise<CallToolResult | void>;
+  /**
+   * Runs when a before-call hook or the call throws, in reverse registration order.
+   * The first hook returning a result recovers with it; otherwise the error is rethrown.
+   */
+  onError?(context: ToolCallContext, error: unknown): MaybePromise<CallToolResult | void>;
+}
@@ -0,0 +1,81 @@
+import type { ToolEvictionZod } from '@mcp-funnel/schemas';
+import type { ToolState } from './types.js';
+import { estimateTokens } from '../utils/schema-compaction.js';
+
+/**
+ * Recency of the dynamically enabled tools of a registry, for `toolEviction`.
+ *
+ * Enabling or calling a tool makes it the most recently used one. When the enabled tools
+ * exceed the configured limits, the least recently used ones are picked for disabling;
+ * the most recently used tool is always kept.
+ * @public
+ * @see file:./index.ts - ToolRegistry
+ * @see file:./session-registry.ts - SessionToolRegistry
+ */
+export class ToolUsageTracker {
+  // Insertion order is recency order: least recently used first
+  private order = new Set<string>();
+
+  public touch(fullName: string): void {
+    this.order.delete(fullName);
+    this.order.add(fullName);
+  }
+
+  public remove(fullName: string): void {
+    this.order.delete(fullName);
+  }
+
+  /**
+   * Picks the tools to disable so that the remaining ones fit the policy. Tracked tools that
+   * are no longer enabled via discovery or toolsets are dropped on the way.
+   * @param lookup - Current state of a tracked tool
+   * @param policy - `toolEviction` setting; nothing is evicted without it
+   * @returns Prefixed names of the tools to disable, least recently used first
+   */
+  public selectEvictions(
+    lookup: (fullName: string) => ToolState | undefined,
+    policy: ToolEvictionZod | undefined,
+  ): string[] {
+    const enabled: ToolState[] = [];
+    for (const name of this.order) {
+      const tool = lookup(name);
+      if (tool && isEvictable(tool)) enabled.push(tool);
+      else this.order.delete(name);
+    }
+    if (!policy) return [];
+
+    const maxTools = policy.maxTools ?? Infinity;
+    const maxTokens = policy.maxTokens ?? Infinity;
+    let tokens = enabled.reduce((sum, tool) => sum + toolTokens(tool), 0);
+    const evicted: string[] = [];
+    for (const tool of enabled.slice(0, -1)) {
+      if (enabled.length - evicted.length <= maxTools && tokens <= maxTokens) break;
+      evicted.push(tool.fullName);
+      tokens -= toolTokens(tool);
+    }
+    return evicted;
+  }
+}
+
+/**
+ * Only tools exposed because they were enabled at runtime count against the limits.
+ * @param tool - Tool state
+ * @returns True if disabling the tool may hide it
+ * @internal
+ */
+function isEvictable(tool: ToolState): boolean {
+  return (
+    tool.enabled &&
+    (tool.enabledBy === 'discovery' || tool.enabledBy === 'toolset') &&
+    tool.exposureReason === 'enabled'
+  );
+}
+
+/**
+ * @param tool - Tool state
+ * @returns Estimated tokens of the tool's exposed definition
+ * @internal
+ */
+function toolTokens(tool: ToolState): number {
+  return tool.definition ? estimateTokens(tool.definition) : 0;
+}
@@ -3,28 +3,36 @@ import { ICommand } from '@mcp-funnel/commands-core';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
 import type { RegisterToolParams, RegistryStats, ToolState, VisibilityResult } from './types.js';
 import { ToolRegistryUtils } from './utils.js';
+import { applyToolOverrideToDefinition, resolveToolOverride } from '../utils/tool-overrides.js';
+import {
+  compactToolDefinition,
+  estimateTokens,
+  resolveSchemaCompaction,
+} from '../utils/schema-compaction.js';
+import { normalizeServers } from '../utils/normalizeServers.js';
+import { COMPOSITE_TOOL_SERVER, CompositeTool } from '../composite-tools/index.js';
+import { ToolUsageTracker } from './eviction.js';
 export type { ToolState } from './types.js';
+export { SessionToolRegistry, type ToolRegistryView } from './session-registry.js';
 
 export class ToolRegistry {
   private tools = new Map<string, ToolState>();
+  private aliases = new Map<string, string>(); // alias -> fullName, from toolOverrides
+  private usage = new ToolUsageTracker(); // Recency of dynamically enabled tools, for toolEviction
   private config: ProxyConfig;
 
   public constructor(config: ProxyConfig) {
     this.config = config;
+    this.syncCompositeTools();
   }
 
   // Discovery phase - tools found but not necessarily enabled
   public registerDiscoveredTool(params: RegisterToolParams): void {
     // Core tools bypass hideTools filtering
-    if (!params.isCoreTool) {
-      // Check if tool is hidden - if so, don't register it at all (unless alwaysVisible)
-      if (ToolRegistryUtils.matchesPatterns(params.fullName, this.config.hideTools)) {
-        // But alwaysVisibleTools overrides hideTools
-        if (!ToolRegistryUtils.matchesPatterns(params.fullName, this.config.alwaysVisibleTools)) {
-          // Tool is hidden and not alwaysVisible, act as a firewall - don't register it
-          return;
-        }
-      }
+    const tags = this.getServerTags(params.serverName);
+    if (!params.isCoreTool && this.isHidden({ fullName: params.fullName, tags })) {
+      // Tool is hidden and not alwaysVisible, act as a firewall - don't register it
+      return;
     }
 
     const existing = this.tools.get(params.fullName);
@@ -34,40 +42,57 @@ export class ToolRegistry {
       ...params,
       discovered: true,
       discoveredAt: new Date(),
+      cached: params.cached || undefined, // A live listing clears the cached flag
+      unavailable: undefined, // Listed again by the reconnected server
+      sourceDefinition: params.definition,
       description: params.definition.description,
-      enabled: existing?.enabled ?? this.isAutoEnabled(params.fullName),
+      tags,
+      category: tags?.[0],
+      enabled: existing?.enabled ?? this.isAutoEnabled({ fullName: params.fullName, tags }),
       exposed: false, // Will compute later
     });
 
+    this.applyOverrides(params.fullName);
     this.updateExposureState(params.fullName);
   }
 
   // Enable tools dynamically
   public enableTools(toolNames: string[], source: 'discovery' | 'toolset'): void {
     for (const name of toolNames) {
-      const tool = this.tools.get(name);
+      const tool = this.resolve(name);
       if (tool) {
         tool.enabled = true;
         tool.enabledBy = source;
         tool.enabledAt = new Date();
-        this.updateExposureState(name);
+        this.updateExposureState(tool.fullName);
+        this.usage.touch(tool.fullName);
       }
     }
+    this.evictTools();
   }
 
   // Disable tools
   public disableTools(toolNames: string[]): void {
     for (const name of toolNames) {
-      const tool = this.tools.get(name);
+      const tool = this.resolve(name);
       if (tool && tool.enabledBy !== 'always') {
         tool.enabled = false;
         tool.enabledBy = undefined;
         tool.enabledAt = undefined;
-        this.updateExposureState(name);
+        this.updateExposureState(tool.fullName);
+        this.usage.remove(tool.fullName);
       }
     }
   }
 
+  // Calls keep dynamically enabled tools from being evicted by toolEviction
+  public recordToolCall(name: string): void {
+    const tool = this.resolve(name);
+    if (tool?.enabledBy === 'discovery' || tool?.enabledBy === 'toolset') {
+      this.usage.touch(tool.fullName);
+    }
+  }
+
   // Remove all tools from a specific server (used for server disconnection)
   public removeToolsFromServer(serverName: string): void {
     const toolsToRemove: string[] = [];
@@ -91,6 +116,60 @@ export class ToolRegistry {
     }
   }
 
+  // Remove specific tools (used when a server no longer lists them)
+  public removeTools(toolNames: string[]): void {
+    for (const toolName of toolNames) {
+      this.tools.delete(toolName);
+    }
+  }
+
+  // Drop the client of a server's tools but keep them discoverable (used for lazy servers)
+  public detachServerTools(serverName: string): void {
+    for (const tool of this.tools.values()) {
+      if (tool.serverName === serverName) {
+        tool.client = undefined;
+        tool.cached = true;
+        tool.unavailable = undefined;
+      }
+    }
+  }
+
+  // Keep a reconnecting server's tools, with their enablement, but without a client
+  public markServerUnavailable(serverName: string): string[] {
+    const marked: string[] = [];
+    for (const tool of this.tools.values()) {
+      if (tool.serverName === serverName) {
+        tool.client = undefined;
+        tool.unavailable = true;
+        marked.push(tool.fullName);
+      }
+    }
+    return marked;
+  }
+
+  // Remove the tools a server did not list again after reconnecting (or never returned)
+  public removeUnavailableTools(serverName: string): string[] {
+    const stale = Array.from(this.tools.values())
+      .filter((tool) => tool.serverName === serverName && tool.unavailable)
+      .map((tool) => tool.fullName);
+    this.removeTools(stale);
+    return stale;
+  }
+
+  // Re-apply hideTools, toolOverrides and visibility rules after the config changed (config
+  // hot reload). Tools that became hidden are dropped; tools no longer hidden need re-discovery.
+  public applyConfigFilters(): void {
+    this.syncCompositeTools();
+    for (const [name, tool] of this.tools) {
+      if (!tool.isCoreTool && this.isHidden(tool)) {
+        this.tools.delete(name);
+        continue;
+      }
+      this.applyOverrides(name);
+      this.updateExposureState(name);
+    }
+  }
+
   // Hot-reload a command's tools (for dynamic command installation)
   public hotReloadCommand(command: ICommand): void {
     // Remove existing tools from this command
@@ -131,6 +210,35 @@ export class ToolRegistry {
     console.info(`[registry] Hot-reloaded command '${command.name}' with ${mcpDefs.length} tools`);
   }
 
+  // Disable the least recently used dynamically enabled tools beyond the toolEviction limits
+  private evictTools(): void {
+    const evicted = this.usage.selectEvictions(
+      (name) => this.tools.get(name),
+      this.config.toolEviction,
+    );
+    if (!evicted.length) return;
+    this.disableTools(evicted);
+    console.error(`[registry] Evicted least recently used tools: ${evicted.join(', ')}`);
+  }
+
+  // Register compositeTools as funnel__<name> and drop those removed from the config
+  private syncCompositeTools(): void {
+    const specs = this.config.compositeTools ?? {};
+    for (const tool of this.tools.values()) {
+      if (tool.composite && !(tool.composite.name in specs)) this.tools.delete(tool.fullName);
+    }
+    for (const [name, spec] of Object.entries(specs)) {
+      const composite = new CompositeTool(name, spec, (step) => this.resolve(step));
+      this.registerDiscoveredTool({
+        fullName: `${COMPOSITE_TOOL_SERVER}__${name}`,
+        originalName: name,
+        serverName: COMPOSITE_TOOL_SERVER,
+        definition: composite.definition,
+        composite,
+      });
+    }
+  }
+
   // Compatibility alias for older callers
   public removeServerTools(serverName: string): void {
     this.removeToolsFromServer(serverName);
@@ -147,33 +255,78 @@ export class ToolRegistry {
     tool.exposureReason = result.reason;
   }
 
+  // toolOverrides and compactSchemas shape the exposed definition; an alias may rename it
+  private applyOverrides(toolName: string): void {
+    const tool = this.tools.get(toolName);
+    if (!tool?.sourceDefinition || tool.isCoreTool) return;
+
+    tool.override = resolveToolOverride(this.config, toolName);
+    const full = applyToolOverrideToDefinition(tool.sourceDefinition, tool.override);
+    const server = normalizeServers(this.config.servers).find((s) => s.name === tool.serverName);
+    const compaction = resolveSchemaCompaction(this.config, server);
+    tool.definition = compaction ? compactToolDefinition(full, compaction) : full;
+    tool.fullDefinition = compaction ? full : undefined;
+    tool.description = full.description;
+
+    if (tool.alias) this.aliases.delete(tool.alias);
+    tool.alias = this.claimAlias(toolName, tool.override?.alias);
+  }
+
+  // An alias must not shadow another tool's name or alias
+  private claimAlias(toolName: string, alias?: string): string | undefined {
+    if (!alias) return undefined;
+    const owner = this.aliases.get(alias);
+    if ((owner && owner !== toolName && this.tools.has(owner)) || this.tools.has(alias)) {
+      console.error(`[registry] Ignoring alias ${alias} for ${toolName}: name already in use`);
+      return undefined;
+    }
+    this.aliases.set(alias, toolName);
+    return alias;
+  }
+
+  // Look up a tool by its prefixed name or its alias
+  private resolve(name: string): ToolState | undefined {
+    const alias = this.aliases.get(name);
+    return this.tools.get(name) ?? (alias ? this.tools.get(alias) : undefined);
+  }
+
   private computeVisibility(name: string, tool: ToolState): VisibilityResult {
     return ToolRegistryUtils.computeVisibility(this.config, name, tool);
   }
 
-  private isAutoEnabled(name: string): boolean {
+  // Hidden tools are never registered - unless alwaysVisibleTools overrides hideTools
+  private isHidden(tool: Pick<ToolState, 'fullName' | 'tags'>): boolean {
+    return (
+      ToolRegistryUtils.matchesPatterns(tool, this.config.hideTools) &&
+      !ToolRegistryUtils.matchesPatterns(tool, this.config.alwaysVisibleTools)
+    );
+  }
+
+  private isAutoEnabled(tool: Pick<ToolState, 'fullName' | 'tags'>): boolean {
     // Tools that should be enabled on discovery
-    return ToolRegistryUtils.matchesPatterns(name, this.config.alwaysVisibleTools);
+    return ToolRegistryUtils.matchesPatterns(tool, this.config.alwaysVisibleTools);
+  }
+
+  // Tags of the server, matched by `@tag` selectors
+  private getServerTags(serverName: string): string[] | undefined {
+    return normalizeServers(this.config.servers).find((s) => s.name === serverName)?.tags;
   }
 
   // Query methods
   public getExposedTools(): Tool[] {
     return Array.from(this.tools.values())
-      .filter((t) => t.exposed && t.definition)
-      .map((t) => ({
-        ...t.definition!,
-        name: t.fullName,
-        description: `[${t.serverName}] ${t.description || ''}`,
-      }));
+      .filter((t) => ToolRegistryUtils.isListed(this.config, t))
+      .map(ToolRegistryUtils.toExposedTool);
   }
 
+  // Both lookups accept the prefixed name or the alias of a tool
   public getToolForExecution(name: string): ToolState | undefined {
-    const tool = this.tools.get(name);
+    const tool = this.resolve(name);
     return tool?.exposed ? tool : undefined;
   }
 
   public getToolState(name: string): ToolState | undefined {
-    return this.tools.get(name);
+    return this.resolve(name);
   }
 
   public getAllTools(): ToolState[] {
@@ -187,9 +340,9 @@ export class ToolRegistry {
   // Get tool descriptions for backward compatibility
   public getToolDescriptions(): Map<string, { serverName: string; description: string }> {
     const descriptions = new Map<string, { serverName: string; description: string }>();
-    for (const [name, tool] of this.tools) {
+    for (const tool of this.tools.values()) {
       if (tool.discovered) {
-        descriptions.set(name, {
+        descriptions.set(tool.alias ?? tool.fullName, {
           serverName: tool.serverName,
           description: tool.description || '',
         });
@@ -201,9 +354,9 @@ export class ToolRegistry {
   // Get tool definitions for backward compatibility
   public getToolDefinitions(): Map<string, { serverName: string; tool: Tool }> {
     const definitions = new Map<string, { serverName: string; tool: Tool }>();
-    for (const [name, toolState] of this.tools) {
+    for (const toolState of this.tools.values()) {
       if (toolState.definition) {
-        definitions.set(name, {
+        definitions.set(toolState.alias ?? toolState.fullName, {
           serverName: toolState.serverName,
           tool: toolState.definition,
         });
@@ -212,6 +365,19 @@ export class ToolRegistry {
     return definitions;
   }
 
+  // Estimated tokens of a server's tool schemas with and without compactSchemas
+  public getSchemaCompactionReport(
+    serverName: string,
+  ): { tools: number; fullTokens: number; compactTokens: number } | undefined {
+    const tools = this.getAllTools().filter((t) => t.serverName === serverName && t.fullDefinition);
+    if (!tools.length) return undefined;
+    return {
+      tools: tools.length,
+      fullTokens: estimateTokens(tools.map((t) => t.fullDefinition)),
+      compactTokens: estimateTokens(tools.map((t) => t.definition)),
+    };
+  }
+
   // State inspection
   public getStats(): RegistryStats {
     return ToolRegistryUtils.getStats(Array.from(this.tools.values()));
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { SessionToolRegistry, ToolRegistry } from './index.js';
+
+describe('SessionToolRegistry', () => {
+  let config: ProxyConfig;
+  let shared: ToolRegistry;
+
+  const register = (fullName: string) =>
+    shared.registerDiscoveredTool({
+      fullName,
+      originalName: fullName.split('__')[1],
+      serverName: fullName.split('__')[0],
+      definition: { name: fullName, description: 'desc', inputSchema: { type: 'object' } },
+    });
+
+  beforeEach(() => {
+    config = { servers: [], exposeTools: ['memory__*'] };
+    shared = new ToolRegistry(config);
+    register('github__create_issue');
+    register('memory__store');
+  });
+
+  it('should enable tools only for its own session', () => {
+    const first = new SessionToolRegistry(shared, config);
+    const second = new SessionToolRegistry(shared, config);
+
+    first.enableTools(['github__create_issue'], 'discovery');
+
+    expect(first.getExposedTools().map((t) => t.name)).toEqual([
+      'github__create_issue',
+      'memory__store',
+    ]);
+    expect(first.getToolState('github__create_issue')).toMatchObject({
+      enabled: true,
+      enabledBy: 'discovery',
+      exposed: true,
+    });
+    expect(first.getToolForExecution('github__create_issue')).toBe(
+      shared.getToolState('github__create_issue'),
+    );
+    expect(first.getEnabledToolNames()).toEqual(['github__create_issue']);
+
+    expect(second.getExposedTools().map((t) => t.name)).toEqual(['memory__store']);
+    expect(second.getToolForExecution('github__create_issue')).toBeUndefined();
+    expect(shared.getToolState('github__create_issue')?.exposed).toBe(false);
+  });
+
+  it('should keep session enablement across re-discovery and undo it on disable', () => {
+    const session = new SessionToolRegistry(shared, config);
+    session.enableTools(['github__create_issue'], 'toolset');
+
+    shared.removeToolsFromServer('github');
+    expect(session.getToolForExecution('github__create_issue')).toBeUndefined();
+    register('github__create_issue');
+    expect(session.getToolForExecution('github__create_issue')).toBeDefined();
+
+    session.disableTools(['github__create_issue']);
+    expect(session.getToolForExecution('github__create_issue')).toBeUndefined();
+  });
+
+  it('should evict the least recently called tools beyond toolEviction.maxTools', () => {
+    config.toolEviction = { maxTools: 2 };
+    register('github__list_issues');
+    const session = new SessionToolRegistry(shared, config);
+
+    session.enableTools(['github__create_issue', 'github__list_issues'], 'discovery');
+    session.recordToolCall('github__create_issue');
+    session.enableTools(['memory__store'], 'toolset');
+
+    expect(session.getEnabledToolNames()).toEqual(['github__create_issue', 'memory__store']);
+  });
+
+  it('should rank tools exposed in the session first when searching', () => {
+    const session = new SessionToolRegistry(shared, config);
+    session.enableTools(['github__create_issue'], 'discovery');
+
+    expect(session.searchTools(['desc']).map((t) => [t.fullName, t.exposed])).toEqual([
+      ['github__create_issue', true],
+      ['memory__store', true],
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { ToolRegistry } from './index.js';
+import type { ToolState } from './types.js';
+import { ToolRegistryUtils } from './utils.js';
+import { ToolUsageTracker } from './eviction.js';
+
+/**
+ * The part of the registry handed to request handlers and core tools. Either the shared
+ * ToolRegistry or the SessionToolRegistry of one client session.
+ * @public
+ */
+export type ToolRegistryView = Pick<
+  ToolRegistry,
+  | 'enableTools'
+  | 'disableTools'
+  | 'recordToolCall'
+  | 'getExposedTools'
+  | 'getToolForExecution'
+  | 'getToolState'
+  | 'getAllTools'
+  | 'searchTools'
+  | 'getToolDescriptions'
+  | 'getToolDefinitions'
+  | 'hotReloadCommand'
+>;
+
+/**
+ * Tool state of one client session, layered on the shared registry.
+ *
+ * Discovered tools, their clients and config-driven visibility come from the shared
+ * registry. Tools enabled via discovery or toolsets are only enabled for this session;
+ * other sessions don't see them.
+ * @public
+ * @see file:../proxy/util/proxy-sessions.ts - One per session
+ */
+export class SessionToolRegistry implements ToolRegistryView {
+  private enabled = new Map<string, { by: 'discovery' | 'toolset'; at: Date }>();
+  private usage = new ToolUsageTracker();
+
+  /**
+   * @param shared - Registry of the proxy
+   * @param config - Shared proxy configuration
+   */
+  public constructor(
+    private readonly shared: ToolRegistry,
+    private readonly config: ProxyConfig,
+  ) {}
+
+  public enableTools(toolNames: string[], source: 'discovery' | 'toolset'): void {
+    for (const name of toolNames) {
+      const tool = this.shared.getToolState(name);
+      if (!tool) continue;
+      this.enabled.set(tool.fullName, { by: source, at: new Date() });
+      this.usage.touch(tool.fullName);
+    }
+    this.evictTools();
+  }
+
+  public disableTools(toolNames: string[]): void {
+    for (const name of toolNames) {
+      const tool = this.shared.getToolState(name);
+      if (!tool) continue;
+      this.enabled.delete(tool.fullName);
+      this.usage.remove(tool.fullName);
+    }
+  }
+
+  public recordToolCall(name: string): void {
+    const tool = this.shared.getToolState(name);
+    if (tool && this.enabled.has(tool.fullName)) this.usage.touch(tool.fullName);
+  }
+
+  /**
+   * @returns Prefixed names of the tools enabled in this session
+   * @public
+   */
+  public getEnabledToolNames(): string[] {
+    return Array.from(this.enabled.keys());
+  }
+
+  public getExposedTools(): Tool[] {
+    return this.getAllTools()
+      .filter((t) => ToolRegistryUtils.isListed(this.config, t))
+      .map(ToolRegistryUtils.toExposedTool);
+  }
+
+  // Returns the shared state, so lazy servers and reconnects keep updating the client
+  public getToolForExecution(name: string): ToolState | undefined {
+    const tool = this.shared.getToolState(name);
+    return tool && this.withSessionState(tool).exposed ? tool : undefined;
+  }
+
+  public getToolState(name: string): ToolState | undefined {
+    const tool = this.shared.getToolState(name);
+    return tool && this.withSessionState(tool);
+  }
+
+  public getAllTools(): ToolState[] {
+    return this.shared.getAllTools().map((tool) => this.withSessionState(tool));
+  }
+
+  public searchTools(keywords: string[], mode: 'and' | 'or' = 'and'): ToolState[] {
+    return ToolRegistryUtils.searchTools(this.getAllTools(), keywords, mode);
+  }
+
+  public getToolDescriptions(): ReturnType<ToolRegistry['getToolDescriptions']> {
+    return this.shared.getToolDescriptions();
+  }
+
+  public getToolDefinitions(): ReturnType<ToolRegistry['getToolDefinitions']> {
+    return this.shared.getToolDefinitions();
+  }
+
+  public hotReloadCommand(...args: Parameters<ToolRegistry['hotReloadCommand']>): void {
+    this.shared.hotReloadCommand(...args);
+  }
+
+  // Disable this session's least recently used tools beyond the toolEviction limits
+  private evictTools(): void {
+    const evicted = this.usage.selectEvictions(
+      (name) => this.getToolState(name),
+      this.config.toolEviction,
+    );
+    if (!evicted.length) return;
+    this.disableTools(evicted);
+    console.error(`[registry] Evicted least recently used tools: ${evicted.join(', ')}`);
+  }
+
+  // A copy of the shared state with this session's enablement applied
+  private withSessionState(tool: ToolState): ToolState {
+    const entry = this.enabled.get(tool.fullName);
+    if (!entry || tool.enabled) return tool;
+    const enabled: ToolState = { ...tool, enabled: true, enabledBy: entry.by, enabledAt: entry.at };
+    const visibility = ToolRegistryUtils.computeVisibility(this.config, tool.fullName, enabled);
+    return { ...enabled, exposed: visibility.exposed, exposureReason: visibility.reason };
+  }
+}
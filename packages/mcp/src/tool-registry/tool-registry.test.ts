@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ToolRegistry } from './index.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
@@ -170,4 +170,216 @@ describe('ToolRegistry', () => {
       expect(exposed.map((t) => t.name)).not.toContain('github__get_teams');
     });
   });
+
+  describe('applyConfigFilters', () => {
+    const register = (fullName: string) => {
+      const [serverName, originalName] = fullName.split('__');
+      registry.registerDiscoveredTool({
+        fullName,
+        originalName,
+        serverName,
+        definition: { name: originalName, inputSchema: { type: 'object' } },
+      });
+    };
+
+    it('should drop tools that became hidden after a config change', () => {
+      register('memory__store');
+      register('github__create_issue');
+
+      config.hideTools = [...(config.hideTools ?? []), 'memory__*'];
+      registry.applyConfigFilters();
+
+      expect(registry.getToolState('memory__store')).toBeUndefined();
+      expect(registry.getToolState('github__create_issue')).toBeDefined();
+    });
+
+    it('should recompute exposure when exposeTools changes', () => {
+      register('github__create_issue');
+      register('memory__store');
+
+      config.exposeTools = ['github__*'];
+      registry.applyConfigFilters();
+
+      expect(registry.getExposedTools().map((t) => t.name)).toEqual(['github__create_issue']);
+    });
+
+    it('should re-apply toolOverrides to the exposed definitions', () => {
+      registry.registerDiscoveredTool({
+        fullName: 'github__create_issue',
+        originalName: 'create_issue',
+        serverName: 'github',
+        definition: {
+          name: 'create_issue',
+          inputSchema: { type: 'object', properties: { repo: { type: 'string' } } },
+        },
+      });
+
+      config.toolOverrides = { 'github__*': { pinArgs: { repo: 'acme/web' } } };
+      registry.applyConfigFilters();
+
+      const tool = registry.getToolState('github__create_issue');
+      expect(tool?.definition?.inputSchema.properties).toEqual({});
+      expect(tool?.sourceDefinition?.inputSchema.properties).toHaveProperty('repo');
+      expect(tool?.override?.pinArgs).toEqual({ repo: 'acme/web' });
+    });
+  });
+
+  describe('server tags', () => {
+    const register = (fullName: string) => {
+      const [serverName, originalName] = fullName.split('__');
+      registry.registerDiscoveredTool({
+        fullName,
+        originalName,
+        serverName,
+        definition: { name: originalName, inputSchema: { type: 'object' } },
+      });
+    };
+
+    beforeEach(() => {
+      config.servers = [
+        { name: 'github', command: 'github-mcp', tags: ['dev', 'team-web'] },
+        { name: 'memory', command: 'memory-mcp', tags: ['ops'] },
+      ];
+    });
+
+    it('should populate tags and category from the server', () => {
+      register('github__create_issue');
+
+      expect(registry.getToolState('github__create_issue')).toMatchObject({
+        tags: ['dev', 'team-web'],
+        category: 'dev',
+      });
+    });
+
+    it('should apply @tag selectors in exposeTools and hideTools', () => {
+      config.exposeTools = ['@team-*'];
+      config.hideTools = ['@ops'];
+      register('github__create_issue');
+      register('memory__store');
+
+      expect(registry.getToolState('memory__store')).toBeUndefined();
+      expect(registry.getExposedTools().map((t) => t.name)).toEqual(['github__create_issue']);
+    });
+  });
+
+  describe('toolEviction', () => {
+    const register = (fullName: string, description = 'desc') => {
+      const [serverName, originalName] = fullName.split('__');
+      registry.registerDiscoveredTool({
+        fullName,
+        originalName,
+        serverName,
+        definition: { name: originalName, description, inputSchema: { type: 'object' } },
+      });
+    };
+    const enabledTools = () =>
+      registry
+        .getAllTools()
+        .filter((t) => t.enabled)
+        .map((t) => t.fullName);
+
+    beforeEach(() => {
+      config.exposeTools = [];
+      register('github__create_issue');
+      register('github__list_issues');
+      register('memory__store');
+    });
+
+    it('should disable the least recently called tools beyond maxTools', () => {
+      config.toolEviction = { maxTools: 2 };
+
+      registry.enableTools(['github__create_issue', 'github__list_issues'], 'discovery');
+      registry.recordToolCall('github__create_issue');
+      registry.enableTools(['memory__store'], 'toolset');
+
+      expect(enabledTools()).toEqual(['github__create_issue', 'memory__store']);
+      expect(registry.getExposedTools().map((t) => t.name)).toEqual([
+        'github__create_issue',
+        'memory__store',
+      ]);
+    });
+
+    it('should keep the estimated tokens of enabled tools within maxTokens', () => {
+      register('memory__retrieve', 'x'.repeat(400));
+      config.toolEviction = { maxTokens: 120 };
+
+      registry.enableTools(['github__create_issue', 'memory__store'], 'discovery');
+      expect(enabledTools()).toEqual(['github__create_issue', 'memory__store']);
+
+      registry.enableTools(['memory__retrieve'], 'discovery');
+      expect(enabledTools()).toEqual(['memory__retrieve']);
+    });
+  });
+
+  describe('compactSchemas', () => {
+    it('should expose compacted schemas and keep the full one', () => {
+      config.compactSchemas = { maxDescriptionLength: 20 };
+      registry.registerDiscoveredTool({
+        fullName: 'github__create_issue',
+        originalName: 'create_issue',
+        serverName: 'github',
+        definition: {
+          name: 'create_issue',
+          description: 'Create a new issue in a GitHub repository',
+          inputSchema: { type: 'object', properties: { repo: { type: 'string', title: 'Repo' } } },
+        },
+      });
+
+      const tool = registry.getToolState('github__create_issue');
+      expect(registry.getExposedTools()[0]?.description).toBe('[github] Create a new issue…');
+      expect(tool?.fullDefinition?.inputSchema.properties).toEqual({
+        repo: { type: 'string', title: 'Repo' },
+      });
+      expect(registry.getSchemaCompactionReport('github')?.tools).toBe(1);
+    });
+  });
+
+  describe('aliases', () => {
+    beforeEach(() => {
+      config.toolOverrides = {
+        github__create_issue: { alias: 'issue_create', description: 'Create an issue' },
+      };
+      registry.registerDiscoveredTool({
+        fullName: 'github__create_issue',
+        originalName: 'create_issue',
+        serverName: 'github',
+        definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+      });
+    });
+
+    it('should expose and resolve tools under their alias', () => {
+      registry.enableTools(['issue_create'], 'discovery');
+
+      expect(registry.getExposedTools()).toEqual([
+        expect.objectContaining({ name: 'issue_create', description: '[github] Create an issue' }),
+      ]);
+      const tool = registry.getToolForExecution('issue_create');
+      expect(tool?.fullName).toBe('github__create_issue');
+      expect(tool?.originalName).toBe('create_issue');
+      expect(registry.getToolDefinitions().has('issue_create')).toBe(true);
+      expect(registry.searchTools(['issue_create'])).toHaveLength(1);
+    });
+
+    it('should drop the alias when the override is removed', () => {
+      config.toolOverrides = {};
+      registry.applyConfigFilters();
+
+      expect(registry.getToolState('issue_create')).toBeUndefined();
+      expect(registry.getToolState('github__create_issue')?.alias).toBeUndefined();
+    });
+
+    it('should ignore aliases that are already taken', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      config.toolOverrides = { ...config.toolOverrides, 'memory__*': { alias: 'issue_create' } };
+      registry.registerDiscoveredTool({
+        fullName: 'memory__store',
+        originalName: 'store',
+        serverName: 'memory',
+        definition: { name: 'store', inputSchema: { type: 'object' } },
+      });
+
+      expect(registry.getToolState('memory__store')?.alias).toBeUndefined();
+      expect(registry.getToolState('issue_create')?.fullName).toBe('github__create_issue');
+    });
+  });
 });
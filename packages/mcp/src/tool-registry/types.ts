@@ -1,16 +1,21 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { ICommand } from '@mcp-funnel/commands-core';
+import type { ToolOverride } from '../utils/tool-overrides.js';
+import type { CompositeTool } from '../composite-tools/index.js';
 
 export interface ToolState {
   // Identity
   fullName: string; // e.g., "github__create_issue"
+  alias?: string; // Exposed name from toolOverrides, e.g. "issue_create"
   originalName: string; // e.g., "create_issue"
   serverName: string; // e.g., "github"
 
   // Discovery state
   discovered: boolean; // Tool has been discovered from source
   discoveredAt?: Date;
+  cached?: boolean; // Known from the on-disk manifest, not (yet) confirmed by the live server
+  unavailable?: boolean; // Server is reconnecting; state is kept until it returns
 
   // Enablement state
   enabled: boolean; // Tool is dynamically enabled
@@ -22,15 +27,19 @@ export interface ToolState {
   exposureReason?: 'always' | 'enabled' | 'allowlist' | 'default' | 'core';
 
   // Tool data
-  definition?: Tool;
+  definition?: Tool; // As exposed to clients, with toolOverrides applied
+  sourceDefinition?: Tool; // As listed by the backend
+  fullDefinition?: Tool; // With toolOverrides but without compactSchemas; set when compacted
+  override?: ToolOverride; // Merged toolOverrides entry, applied to call arguments
   description?: string;
   client?: Client;
   command?: ICommand;
+  composite?: CompositeTool; // Set for funnel__ tools from compositeTools
   isCoreTool?: boolean; // Core tools bypass exposeTools filtering
 
   // Metadata
-  tags?: string[];
-  category?: string;
+  tags?: string[]; // Tags of the tool's server, matched by `@tag` selectors
+  category?: string; // First tag of the tool's server
 }
 
 export interface RegisterToolParams {
@@ -40,7 +49,9 @@ export interface RegisterToolParams {
   definition: Tool;
   client?: Client;
   command?: ICommand;
+  composite?: CompositeTool;
   isCoreTool?: boolean; // Mark tools as core tools to bypass exposeTools filtering
+  cached?: boolean; // Registered from the on-disk manifest instead of a live listing
 }
 
 export interface RegistryStats {
@@ -1,5 +1,6 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { ToolState, VisibilityResult } from './types.js';
-import { matchesPattern } from '../utils/pattern-matcher.js';
+import { matchesToolPattern } from '../utils/pattern-matcher.js';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
 
 /**
@@ -50,7 +51,7 @@ function getStats(tools: ToolState[]) {
 /**
  * Checks if a tool matches search keywords using AND or OR logic.
  *
- * Searches across tool fullName, description, and serverName (case-insensitive).
+ * Searches across tool fullName, alias, description, and serverName (case-insensitive).
  * - AND mode: Tool must contain ALL keywords
  * - OR mode: Tool must contain at least ONE keyword
  * @param tool - Tool state to check
@@ -60,7 +61,8 @@ function getStats(tools: ToolState[]) {
  * @internal
  */
 function matchesKeywords(tool: ToolState, keywords: string[], mode: 'and' | 'or' = 'and'): boolean {
-  const searchText = `${tool.fullName} ${tool.description} ${tool.serverName}`.toLowerCase();
+  const searchText =
+    `${tool.fullName} ${tool.alias ?? ''} ${tool.description} ${tool.serverName}`.toLowerCase();
 
   if (mode === 'or') {
     // OR logic: tool must contain at least one keyword
@@ -93,15 +95,15 @@ function searchTools(tools: ToolState[], keywords: string[], mode: 'and' | 'or'
 }
 
 /**
- * Checks if a tool name matches any of the given glob patterns.
- * @param name - Tool name to check
+ * Checks if a tool matches any of the given glob patterns or `@tag` selectors.
+ * @param tool - Prefixed tool name and the tags of its server
  * @param patterns - Optional array of glob patterns
- * @returns True if name matches any pattern, false if no patterns provided
+ * @returns True if the tool matches any pattern, false if no patterns provided
  * @internal
  */
-function matchesPatterns(name: string, patterns?: string[]): boolean {
+function matchesPatterns(tool: Pick<ToolState, 'fullName' | 'tags'>, patterns?: string[]): boolean {
   if (!patterns) return false;
-  return patterns.some((p) => matchesPattern(name, p));
+  return patterns.some((p) => matchesToolPattern(tool, p));
 }
 
 /**
@@ -123,13 +125,15 @@ function matchesPatterns(name: string, patterns?: string[]): boolean {
  * @internal
  */
 function computeVisibility(config: ProxyConfig, name: string, tool: ToolState): VisibilityResult {
+  const target = { fullName: name, tags: tool.tags };
+
   // 1. Core tools - only controlled by their own registration, not by exposeTools
   if (tool.isCoreTool) {
     return { exposed: true, reason: 'core' };
   }
 
   // 2. Always visible (highest priority for regular tools)
-  if (ToolRegistryUtils.matchesPatterns(name, config.alwaysVisibleTools)) {
+  if (ToolRegistryUtils.matchesPatterns(target, config.alwaysVisibleTools)) {
     return { exposed: true, reason: 'always' };
   }
 
@@ -140,12 +144,12 @@ function computeVisibility(config: ProxyConfig, name: string, tool: ToolState):
 
   // 4. ExposeTools allowlist mode
   if (config.exposeTools !== undefined) {
-    const matches = ToolRegistryUtils.matchesPatterns(name, config.exposeTools);
+    const matches = ToolRegistryUtils.matchesPatterns(target, config.exposeTools);
     return { exposed: matches, reason: matches ? 'allowlist' : undefined };
   }
 
   // 5. HideTools denylist
-  if (ToolRegistryUtils.matchesPatterns(name, config.hideTools)) {
+  if (ToolRegistryUtils.matchesPatterns(target, config.hideTools)) {
     return { exposed: false };
   }
 
@@ -153,6 +157,38 @@ function computeVisibility(config: ProxyConfig, name: string, tool: ToolState):
   return { exposed: true, reason: 'default' };
 }
 
+/**
+ * Checks whether `tools/list` includes a tool. Tools of a reconnecting server are left
+ * out when `autoReconnect.hideUnavailableTools` is set.
+ * @param config - Proxy configuration
+ * @param tool - Tool state with computed visibility
+ * @returns True if the tool is exposed and listed
+ * @internal
+ */
+function isListed(config: ProxyConfig, tool: ToolState): boolean {
+  if (!tool.exposed || !tool.definition) return false;
+  return !(tool.unavailable && config.autoReconnect?.hideUnavailableTools);
+}
+
+/**
+ * Builds the definition a client lists for an exposed tool: named by its alias when it
+ * has one, with the server name prefixed to the description. Tools of a reconnecting
+ * server are marked as unavailable.
+ * @param tool - Exposed tool state with a definition
+ * @returns Tool definition as listed by `tools/list`
+ * @internal
+ */
+function toExposedTool(tool: ToolState): Tool {
+  const prefix = tool.unavailable
+    ? `[${tool.serverName}] (unavailable, server reconnecting)`
+    : `[${tool.serverName}]`;
+  return {
+    ...tool.definition!,
+    name: tool.alias ?? tool.fullName,
+    description: `${prefix} ${tool.definition!.description || ''}`,
+  };
+}
+
 /**
  * Utility functions for tool registry operations.
  *
@@ -170,4 +206,6 @@ export const ToolRegistryUtils = {
   searchTools,
   matchesPatterns,
   computeVisibility,
+  isListed,
+  toExposedTool,
 };
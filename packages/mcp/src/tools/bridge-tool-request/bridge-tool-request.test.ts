@@ -45,6 +45,7 @@ describe('BridgeToolRequest', () => {
         return undefined;
       }),
       enableTools: vi.fn(),
+      recordToolCall: vi.fn(),
       searchTools: vi.fn(),
       getToolState: vi.fn(),
       getAllTools: vi.fn(() => []),
@@ -150,14 +151,18 @@ describe('BridgeToolRequest', () => {
         mockContext,
       );
 
-      expect(mockClient.callTool).toHaveBeenCalledWith({
-        name: 'create_issue',
-        arguments: {
-          repository: 'test/repo',
-          title: 'Test Issue',
-          body: 'Test body',
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        {
+          name: 'create_issue',
+          arguments: {
+            repository: 'test/repo',
+            title: 'Test Issue',
+            body: 'Test body',
+          },
         },
-      });
+        undefined,
+        expect.any(Object),
+      );
       expect(result).toEqual(mockResult);
     });
 
@@ -169,10 +174,14 @@ describe('BridgeToolRequest', () => {
 
       await tool.handle({ tool: 'filesystem__read_file' }, mockContext);
 
-      expect(mockClient.callTool).toHaveBeenCalledWith({
-        name: 'read_file',
-        arguments: undefined,
-      });
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        {
+          name: 'read_file',
+          arguments: undefined,
+        },
+        undefined,
+        expect.any(Object),
+      );
     });
 
     it('should return error for non-existent tool', async () => {
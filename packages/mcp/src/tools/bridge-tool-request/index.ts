@@ -2,6 +2,7 @@ import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { CoreToolContext } from '../core-tool.interface.js';
 import { BaseCoreTool } from '../base-core-tool.js';
 import { resolveToolName } from '../../utils/tool-resolver.js';
+import { executeTool } from '../../utils/tool-executor.js';
 
 /**
  * Parameters for bridge tool request execution.
@@ -90,6 +91,7 @@ export class BridgeToolRequest extends BaseCoreTool {
       resolutionResult.toolState,
       resolutionResult.resolvedName,
       toolArguments,
+      context,
     );
   }
 
@@ -248,29 +250,21 @@ export class BridgeToolRequest extends BaseCoreTool {
    * @param toolState - The tool state containing executor information
    * @param resolvedName - The resolved tool name for error messages
    * @param toolArguments - Optional arguments to pass to the tool
+   * @param context - The core tool context carrying cancellation and progress options
    * @returns The tool execution result or an error result
    */
   private async executeTool(
     toolState: NonNullable<ReturnType<CoreToolContext['toolRegistry']['getToolForExecution']>>,
     resolvedName: string,
     toolArguments: Record<string, unknown> | undefined,
+    context: CoreToolContext,
   ): Promise<CallToolResult> {
+    context.toolRegistry.recordToolCall(toolState.fullName);
     try {
-      if (toolState.command) {
-        return (await toolState.command.executeToolViaMCP(
-          toolState.originalName,
-          toolArguments || {},
-        )) as CallToolResult;
-      }
-
-      if (toolState.client) {
-        return (await toolState.client.callTool({
-          name: toolState.originalName,
-          arguments: toolArguments,
-        })) as CallToolResult;
-      }
-
-      throw new Error(`Tool ${resolvedName} has no executor`);
+      return await executeTool(toolState, toolArguments, {
+        ...context.execution,
+        source: 'bridge',
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
@@ -1,15 +1,16 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { ICommand } from '@mcp-funnel/commands-core';
-import { ToolRegistry } from '../tool-registry/index.js';
+import type { ToolRegistryView } from '../tool-registry/index.js';
 import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { ToolExecutionOptions } from '../utils/tool-executor.js';
 
 /**
  * Context provided to core tools for accessing proxy state and capabilities
  */
 export interface CoreToolContext {
-  /** Tool registry for managing tool state */
-  toolRegistry: ToolRegistry;
+  /** Tool registry for managing tool state, scoped to the client session */
+  toolRegistry: ToolRegistryView;
 
   /** Cache of all tool descriptions from connected MCP servers */
   toolDescriptionCache: Map<string, { serverName: string; description: string }>;
@@ -37,6 +38,9 @@ export interface CoreToolContext {
 
   /** Disable tools dynamically at runtime */
   disableTools?: (toolNames: string[]) => void;
+
+  /** Cancellation signal and progress relay of the current tool call */
+  execution?: ToolExecutionOptions;
 }
 
 /**
@@ -51,6 +51,7 @@ describe('DiscoverToolsByWords', () => {
               originalName: name.split('__')[1] || name,
               serverName,
               description,
+              tags: serverName === 'filesystem' ? ['local'] : undefined,
               discovered: true,
               enabled: false,
               exposed: false,
@@ -185,6 +186,15 @@ describe('DiscoverToolsByWords', () => {
       );
     });
 
+    it('should filter matches by server tags', async () => {
+      const result = await tool.handle({ words: 'e', tags: ['local'] }, mockContext);
+
+      const textContent = result.content[0] as { type: string; text: string };
+      expect(textContent.text).toContain('Found 2 tools');
+      expect(textContent.text).toContain('filesystem__read_file [@local]:');
+      expect(textContent.text).toContain('filesystem__write_file [@local]:');
+    });
+
     it('should enable tools when enable=true', async () => {
       const result = await tool.handle({ words: 'github issue', enable: true }, mockContext);
 
@@ -2,11 +2,16 @@ import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { CoreToolContext } from '../core-tool.interface.js';
 import { BaseCoreTool } from '../base-core-tool.js';
 import { RegistryContext } from '../../mcp-registry/index.js';
+import { matchesTagFilter } from '../../utils/pattern-matcher.js';
 
 export interface ToolMatch {
   fullName: string;
+  /** Name the tool is exposed under, when aliased in toolOverrides */
+  alias?: string;
   originalName: string;
   serverName: string;
+  /** Tags of the tool's server */
+  tags?: string[];
   description?: string;
   exposed: boolean;
   enabled: boolean;
@@ -78,6 +83,11 @@ export class DiscoverToolsByWords extends BaseCoreTool {
               'If true, automatically enable ALL discovered tools. WARNING: This increases context usage. Consider discovering first (enable=false), reviewing results, then using load_toolset to enable specific tools if many matches are found.',
             default: false,
           },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only return tools of servers with any of these tags',
+          },
         },
         required: ['words'],
       },
@@ -166,7 +176,7 @@ export class DiscoverToolsByWords extends BaseCoreTool {
       return retVal;
     });
 
-    let retVal = `- ${match.fullName}: ${match.description}`;
+    let retVal = `- ${match.alias ?? match.fullName}: ${match.description}`;
     if (args.length) {
       retVal += `\n  args:`;
       for (const arg of args) {
@@ -242,7 +252,8 @@ export class DiscoverToolsByWords extends BaseCoreTool {
       .map((m) => {
         const status = m.exposed ? '✓' : m.enabled ? '◐' : '○';
         const truncatedDesc = this.truncateDescription(m.description);
-        return `${status} ${m.fullName}: ${truncatedDesc}`;
+        const tags = m.tags?.length ? ` [${m.tags.map((t) => `@${t}`).join(' ')}]` : '';
+        return `${status} ${m.alias ?? m.fullName}${tags}: ${truncatedDesc}`;
       })
       .join('\n');
 
@@ -265,7 +276,10 @@ export class DiscoverToolsByWords extends BaseCoreTool {
   ): Promise<CallToolResult> {
     const { keywords, searchMode } = this.parseWordsParameter(args.words);
     const enable = typeof args.enable === 'boolean' ? args.enable : false;
-    const matches = context.toolRegistry.searchTools(keywords, searchMode);
+    const tags = Array.isArray(args.tags) ? args.tags.map(String) : undefined;
+    const matches = context.toolRegistry
+      .searchTools(keywords, searchMode)
+      .filter((m) => !tags || matchesTagFilter(m.tags, tags));
 
     if (enable && matches.length > 0) {
       return this.handleEnableTools(matches, context);
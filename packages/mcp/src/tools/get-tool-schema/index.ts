@@ -76,8 +76,8 @@ export class GetToolSchema extends BaseCoreTool {
 
     return this.createSchemaResponse(
       resolution.toolName!,
-      resolvedTool.definition.inputSchema,
-      resolvedTool.definition.description,
+      (resolvedTool.fullDefinition ?? resolvedTool.definition).inputSchema,
+      (resolvedTool.fullDefinition ?? resolvedTool.definition).description,
     );
   }
 
@@ -104,8 +104,8 @@ export class GetToolSchema extends BaseCoreTool {
 
     return this.createSchemaResponse(
       args.tool,
-      toolState.definition.inputSchema,
-      toolState.definition.description,
+      (toolState.fullDefinition ?? toolState.definition).inputSchema,
+      (toolState.fullDefinition ?? toolState.definition).description,
     );
   }
 }
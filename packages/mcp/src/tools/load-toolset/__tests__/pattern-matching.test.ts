@@ -58,5 +58,17 @@ describe('LoadToolset', () => {
 
       expect(enabledTools).toEqual([]);
     });
+
+    it('should match @tag selectors against server tags', async () => {
+      await loadToolset.handle({ tools: ['@storage'] }, mockContext);
+
+      expect(enabledTools).toEqual(['memory__store', 'memory__retrieve']);
+    });
+
+    it('should narrow matches to servers with a matching tag', async () => {
+      await loadToolset.handle({ tools: ['*__*'], tags: ['@stor*'] }, mockContext);
+
+      expect(enabledTools).toEqual(['memory__store', 'memory__retrieve']);
+    });
   });
 });
@@ -29,6 +29,7 @@ export function createMockContext(enabledTools: string[]): CoreToolContext {
           originalName: name.split('__')[1] || name,
           serverName,
           description,
+          tags: serverName === 'memory' ? ['storage'] : undefined,
           discovered: true,
           enabled: false,
           exposed: false,
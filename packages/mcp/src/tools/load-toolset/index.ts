@@ -1,7 +1,7 @@
 import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { CoreToolContext } from '../core-tool.interface.js';
 import { BaseCoreTool } from '../base-core-tool.js';
-import { matchesPattern } from '../../utils/pattern-matcher.js';
+import { matchesTagFilter, matchesToolPattern } from '../../utils/pattern-matcher.js';
 
 export interface LoadToolsetByNameParams {
   name: string;
@@ -34,23 +34,26 @@ function isLoadByPatterns(params: unknown): params is LoadToolsetByPatternsParam
 }
 
 /**
- * Finds all discovered tools matching the given glob patterns.
+ * Finds all discovered tools matching the given glob patterns or `@tag` selectors.
  * @param patterns - Array of glob patterns to match against tool names
  * @param toolRegistry - Tool registry to search
+ * @param tags - Optional tag filter; only tools of servers with a matching tag are returned
  * @returns Array of matching tool full names
- * @internal
+ * @public
  */
-function findMatchingTools(
+export function findMatchingTools(
   patterns: string[],
-  toolRegistry: import('../../tool-registry/index.js').ToolRegistry,
+  toolRegistry: import('../../tool-registry/index.js').ToolRegistryView,
+  tags?: string[],
 ): string[] {
   const matchedTools: string[] = [];
   const allTools = toolRegistry.getAllTools();
 
   for (const tool of allTools) {
     if (!tool.discovered) continue;
+    if (tags && !matchesTagFilter(tool.tags, tags)) continue;
     for (const pattern of patterns) {
-      if (matchesPattern(tool.fullName, pattern)) {
+      if (matchesToolPattern(tool, pattern)) {
         matchedTools.push(tool.fullName);
         break; // Tool matched, no need to check other patterns
       }
@@ -164,6 +167,44 @@ function loadPatternsByTools(tools: unknown): { patterns: string[] } | { error:
   return { patterns: tools };
 }
 
+/**
+ * Resolves the tool patterns of a call: those of the named toolset, or the explicit `tools`.
+ * Shared by load_toolset and unload_toolset.
+ * @param args - Call arguments with either `name` or `tools`
+ * @param context - Core tool context
+ * @returns Patterns and the toolset name, or an error result
+ * @public
+ */
+export function resolveToolsetPatterns(
+  args: Record<string, unknown>,
+  context: CoreToolContext,
+): { patterns: string[]; toolsetName?: string } | { error: CallToolResult } {
+  // Validate mutual exclusivity
+  const validationError = validateParams(args);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  if (isLoadByName(args)) {
+    const result = loadPatternsByName(args.name, context);
+    return 'error' in result ? result : { patterns: result.patterns, toolsetName: args.name };
+  }
+  if (isLoadByPatterns(args)) {
+    return loadPatternsByTools(args.tools);
+  }
+  return {
+    error: {
+      content: [
+        {
+          type: 'text',
+          text: 'Invalid parameters',
+        },
+      ],
+      isError: true,
+    },
+  };
+}
+
 /**
  * Builds the success response for loaded tools.
  * @param matchingTools - Array of matched tool names
@@ -196,6 +237,9 @@ function buildSuccessResponse(
  * - Named toolset (defined in config.toolsets)
  * - Explicit array of glob patterns
  *
+ * Patterns may be `@tag` selectors for the tools of tagged servers, and the optional
+ * `tags` argument narrows either form to servers with a matching tag.
+ *
  * Useful for organizing tools into logical groups and enabling them together.
  * @public
  * @see file:../core-tool.interface.ts - Core tool interface
@@ -218,7 +262,13 @@ export class LoadToolset extends BaseCoreTool {
           tools: {
             type: 'array',
             items: { type: 'string' },
-            description: 'Array of tool patterns to load (mutually exclusive with name)',
+            description:
+              'Array of tool patterns to load (mutually exclusive with name). "@tag" selects all tools of servers with that tag',
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only load tools of servers with any of these tags',
           },
         },
         // Can't use oneOf at top level - will validate in handler
@@ -230,46 +280,18 @@ export class LoadToolset extends BaseCoreTool {
     args: Record<string, unknown>,
     context: CoreToolContext,
   ): Promise<CallToolResult> {
-    // Validate mutual exclusivity
-    const validationError = validateParams(args);
-    if (validationError) {
-      return validationError;
-    }
-
-    // Determine patterns and toolset name
-    let patterns: string[];
-    let toolsetName: string | undefined;
-
-    if (isLoadByName(args)) {
-      const result = loadPatternsByName(args.name, context);
-      if ('error' in result) {
-        return result.error;
-      }
-      patterns = result.patterns;
-      toolsetName = args.name;
-    } else if (isLoadByPatterns(args)) {
-      const result = loadPatternsByTools(args.tools);
-      if ('error' in result) {
-        return result.error;
-      }
-      patterns = result.patterns;
-    } else {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Invalid parameters',
-          },
-        ],
-        isError: true,
-      };
+    const resolved = resolveToolsetPatterns(args, context);
+    if ('error' in resolved) {
+      return resolved.error;
     }
+    const { patterns, toolsetName } = resolved;
 
     // Find all matching tools
-    const matchingTools = findMatchingTools(patterns, context.toolRegistry);
+    const tags = Array.isArray(args.tags) ? args.tags.map(String) : undefined;
+    const matchingTools = findMatchingTools(patterns, context.toolRegistry, tags);
 
     if (matchingTools.length === 0) {
-      const patternList = patterns.join(', ');
+      const patternList = patterns.join(', ') + (tags ? ` (tags: ${tags.join(', ')})` : '');
       return {
         content: [
           {
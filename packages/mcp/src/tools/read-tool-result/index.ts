@@ -0,0 +1,146 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { CoreToolContext } from '../core-tool.interface.js';
+import { BaseCoreTool } from '../base-core-tool.js';
+import {
+  describeRemainder,
+  isResultTruncationEnabled,
+  type StoredToolResult,
+} from '../../utils/result-store.js';
+
+export interface ReadToolResultParams {
+  handle: string;
+  offset?: number;
+  length?: number;
+  pattern?: string;
+}
+
+/**
+ * Builds a case-insensitive matcher; invalid regular expressions match literally.
+ * @param pattern - Search pattern from the model
+ * @returns Regular expression
+ * @internal
+ */
+function toRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
+
+/**
+ * Returns a page of a stored result.
+ * @param stored - Stored result
+ * @param offset - First character to return
+ * @param length - Number of characters to return
+ * @returns Page text with a note pointing to the next page
+ * @internal
+ */
+function readPage(stored: StoredToolResult, offset: number, length: number): string {
+  const end = Math.min(offset + length, stored.text.length);
+  return `${stored.text.slice(offset, end)}${describeRemainder(stored, end)}`;
+}
+
+/**
+ * Returns the lines of a stored result matching a pattern, prefixed with their line number.
+ * @param stored - Stored result
+ * @param pattern - Regular expression or plain text
+ * @param length - Maximum number of characters to return
+ * @returns Matching lines, or a note when nothing matches
+ * @internal
+ */
+function grepLines(stored: StoredToolResult, pattern: string, length: number): string {
+  const regexp = toRegExp(pattern);
+  const matches = stored.text
+    .split('\n')
+    .flatMap((line, index) => (regexp.test(line) ? [`${index + 1}: ${line}`] : []));
+  if (matches.length === 0) return `No lines match "${pattern}".`;
+
+  const output: string[] = [];
+  let size = 0;
+  for (const line of matches) {
+    if (size + line.length > length && output.length > 0) break;
+    output.push(line);
+    size += line.length + 1;
+  }
+  const omitted = matches.length - output.length;
+  return omitted > 0
+    ? `${output.join('\n')}\n\n[${omitted} more matching lines omitted; use a narrower pattern.]`
+    : output.join('\n');
+}
+
+/**
+ * Core tool reading results that were truncated to `maxResultChars`.
+ * @public
+ * @see file:../../utils/result-store.ts - Stores the full results
+ */
+export class ReadToolResult extends BaseCoreTool {
+  public readonly name = 'read_tool_result';
+
+  public get tool(): Tool {
+    return {
+      name: this.name,
+      description:
+        'Read more of a tool result that was truncated. Pass the handle from the truncation note with an offset to get the next page, or a pattern to get matching lines.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          handle: { type: 'string', description: 'Handle from the truncation note' },
+          offset: { type: 'number', description: 'First character to read (default 0)' },
+          length: {
+            type: 'number',
+            description: 'Characters to return (default: the size the result was truncated to)',
+          },
+          pattern: {
+            type: 'string',
+            description: 'Case-insensitive regular expression; returns matching lines instead',
+          },
+        },
+        required: ['handle'],
+      },
+    };
+  }
+
+  /**
+   * Only enabled when a result size limit is configured.
+   * @param config - Proxy configuration
+   * @returns True if the tool should be registered
+   * @public
+   */
+  public isEnabled(config: ProxyConfig): boolean {
+    return isResultTruncationEnabled(config) && super.isEnabled(config);
+  }
+
+  public async handle(
+    args: Record<string, unknown>,
+    context: CoreToolContext,
+  ): Promise<CallToolResult> {
+    if (typeof args.handle !== 'string') {
+      throw new Error('Missing or invalid "handle" parameter');
+    }
+
+    const store = context.execution?.resultStore;
+    const stored = store?.get(args.handle);
+    if (!store || !stored) {
+      const minutes = Math.round((store?.ttlMs ?? 0) / 60_000);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Result ${args.handle} is unknown or has expired (results are kept for ${minutes} minutes). Call the tool again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { offset, length, pattern } = args as Partial<ReadToolResultParams>;
+    const pageLength = typeof length === 'number' && length > 0 ? length : stored.pageChars;
+    const text =
+      typeof pattern === 'string' && pattern
+        ? grepLines(stored, pattern, pageLength)
+        : readPage(stored, typeof offset === 'number' && offset > 0 ? offset : 0, pageLength);
+    return { content: [{ type: 'text', text }] };
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { ReadToolResult } from './index.js';
+import { CoreToolContext } from '../core-tool.interface.js';
+import { ToolRegistry, ToolState } from '../../tool-registry/index.js';
+import { ToolResultStore } from '../../utils/result-store.js';
+
+const lines = Array.from({ length: 50 }, (_, i) => `line ${i + 1}${i % 10 === 0 ? ' ERROR' : ''}`);
+
+describe('ReadToolResult', () => {
+  let tool: ReadToolResult;
+  let context: CoreToolContext;
+  let handle: string;
+
+  const text = async (args: Record<string, unknown>) => {
+    const result = await tool.handle(args, context);
+    return result.content[0].type === 'text' ? result.content[0].text : '';
+  };
+
+  beforeEach(() => {
+    tool = new ReadToolResult();
+    const config: ProxyConfig = { servers: [], maxResultChars: 100 };
+    const resultStore = new ToolResultStore(config);
+    const state = { fullName: 'logs__tail', serverName: 'logs' } as ToolState;
+    const limited = resultStore.limit(state, {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    });
+    const first = limited.content[0].type === 'text' ? limited.content[0].text : '';
+    handle = /"handle": "(res_[0-9a-f]+)"/.exec(first)![1];
+
+    context = {
+      toolRegistry: new ToolRegistry(config),
+      toolDescriptionCache: new Map(),
+      dynamicallyEnabledTools: new Set(),
+      config,
+      configPath: './.mcp-funnel.json',
+      enableTools: () => {},
+      execution: { resultStore },
+    };
+  });
+
+  it('should only be enabled when a result limit is configured', () => {
+    expect(tool.isEnabled({ servers: [] })).toBe(false);
+    expect(tool.isEnabled({ servers: [], maxResultChars: 100 })).toBe(true);
+    expect(tool.isEnabled({ servers: [], maxResultChars: 100, exposeCoreTools: [] })).toBe(false);
+  });
+
+  it('should return the page at the given offset', async () => {
+    const page = await text({ handle, offset: 100, length: 20 });
+
+    expect(page.startsWith(lines.join('\n').slice(100, 120))).toBe(true);
+    expect(page).toContain(`{"handle": "${handle}", "offset": 120}`);
+    expect(await text({ handle, offset: 400 })).not.toContain('[Truncated');
+  });
+
+  it('should return matching lines with their line numbers', async () => {
+    expect(await text({ handle, pattern: 'error', length: 60 })).toBe(
+      '1: line 1 ERROR\n11: line 11 ERROR\n21: line 21 ERROR\n\n' +
+        '[2 more matching lines omitted; use a narrower pattern.]',
+    );
+    expect(await text({ handle, pattern: 'line 9(' })).toBe('No lines match "line 9(".');
+  });
+
+  it('should report unknown handles', async () => {
+    const result = await tool.handle({ handle: 'res_missing' }, context);
+
+    expect(result.isError).toBe(true);
+    expect(await text({ handle: 'res_missing' })).toContain('kept for 10 minutes');
+  });
+});
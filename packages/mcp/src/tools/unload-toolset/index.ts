@@ -0,0 +1,94 @@
+import { Tool, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CoreToolContext } from '../core-tool.interface.js';
+import { BaseCoreTool } from '../base-core-tool.js';
+import { findMatchingTools, resolveToolsetPatterns } from '../load-toolset/index.js';
+
+/**
+ * Core tool for disabling tools that were enabled at runtime.
+ *
+ * Counterpart of load_toolset, taking the same arguments: a named toolset or explicit glob
+ * patterns (including `@tag` selectors), optionally narrowed by `tags`. Only tools enabled
+ * via load_toolset, discover_tools_by_words or bridge_tool_request are disabled; tools exposed
+ * by alwaysVisibleTools or exposeTools stay visible.
+ * @public
+ * @see file:../load-toolset/index.ts - LoadToolset
+ */
+export class UnloadToolset extends BaseCoreTool {
+  public readonly name = 'unload_toolset';
+
+  public get tool(): Tool {
+    return {
+      name: this.name,
+      description:
+        'Disable tools that were loaded earlier to free up context. Provide EITHER "name" for a predefined toolset OR "tools" for explicit patterns.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of predefined toolset to unload (mutually exclusive with tools)',
+          },
+          tools: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Array of tool patterns to unload (mutually exclusive with name). "@tag" selects all tools of servers with that tag',
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only unload tools of servers with any of these tags',
+          },
+        },
+      },
+    };
+  }
+
+  public async handle(
+    args: Record<string, unknown>,
+    context: CoreToolContext,
+  ): Promise<CallToolResult> {
+    const resolved = resolveToolsetPatterns(args, context);
+    if ('error' in resolved) {
+      return resolved.error;
+    }
+    const { patterns, toolsetName } = resolved;
+
+    const tags = Array.isArray(args.tags) ? args.tags.map(String) : undefined;
+    const loadedTools = findMatchingTools(patterns, context.toolRegistry, tags).filter((name) => {
+      const enabledBy = context.toolRegistry.getToolState(name)?.enabledBy;
+      return enabledBy === 'discovery' || enabledBy === 'toolset';
+    });
+
+    if (loadedTools.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No loaded tools found matching patterns: ${patterns.join(', ')}`,
+          },
+        ],
+      };
+    }
+
+    // context.disableTools also sends notifications/tools/list_changed to the client
+    if (context.disableTools) {
+      context.disableTools(loadedTools);
+    } else {
+      context.toolRegistry.disableTools(loadedTools);
+      await context.sendNotification?.('notifications/tools/list_changed');
+    }
+
+    const responseText = toolsetName
+      ? `Unloaded ${loadedTools.length} tools from "${toolsetName}" toolset`
+      : `Unloaded ${loadedTools.length} tools matching specified patterns`;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: responseText,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import { UnloadToolset } from './index.js';
+import { CoreToolContext } from '../core-tool.interface.js';
+import { ToolRegistry } from '../../tool-registry/index.js';
+
+describe('UnloadToolset', () => {
+  let tool: UnloadToolset;
+  let registry: ToolRegistry;
+  let mockContext: CoreToolContext;
+
+  const exposed = () => registry.getExposedTools().map((t) => t.name);
+
+  beforeEach(() => {
+    tool = new UnloadToolset();
+    const config: ProxyConfig = {
+      servers: [{ name: 'github', command: 'github-mcp', tags: ['dev'] }],
+      exposeTools: ['memory__retrieve'],
+      toolsets: { issues: ['github__*_issue'] },
+    };
+    registry = new ToolRegistry(config);
+    for (const fullName of [
+      'github__create_issue',
+      'github__close_issue',
+      'memory__store',
+      'memory__retrieve',
+    ]) {
+      const [serverName, originalName] = fullName.split('__');
+      registry.registerDiscoveredTool({
+        fullName,
+        originalName,
+        serverName,
+        definition: { name: originalName, inputSchema: { type: 'object' } },
+      });
+    }
+    registry.enableTools(['github__create_issue', 'github__close_issue'], 'toolset');
+    registry.enableTools(['memory__store'], 'discovery');
+
+    mockContext = {
+      toolRegistry: registry,
+      toolDescriptionCache: new Map(),
+      dynamicallyEnabledTools: new Set(),
+      config,
+      configPath: './.mcp-funnel.json',
+      enableTools: vi.fn(),
+      disableTools: vi.fn((names: string[]) => registry.disableTools(names)),
+      sendNotification: vi.fn(),
+    };
+  });
+
+  it('should disable the tools of a named toolset', async () => {
+    const result = await tool.handle({ name: 'issues' }, mockContext);
+
+    expect(result.content[0]).toEqual({
+      type: 'text',
+      text: 'Unloaded 2 tools from "issues" toolset',
+    });
+    expect(exposed()).toEqual(['memory__store', 'memory__retrieve']);
+    expect(mockContext.disableTools).toHaveBeenCalledWith([
+      'github__create_issue',
+      'github__close_issue',
+    ]);
+    expect(mockContext.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the registry and notify when context.disableTools is absent', async () => {
+    mockContext.disableTools = undefined;
+
+    await tool.handle({ name: 'issues' }, mockContext);
+
+    expect(exposed()).toEqual(['memory__store', 'memory__retrieve']);
+    expect(mockContext.sendNotification).toHaveBeenCalledWith('notifications/tools/list_changed');
+  });
+
+  it('should only disable tools that were enabled at runtime', async () => {
+    const result = await tool.handle({ tools: ['memory__*'] }, mockContext);
+
+    expect(result.content[0]).toEqual({
+      type: 'text',
+      text: 'Unloaded 1 tools matching specified patterns',
+    });
+    expect(exposed()).toEqual(['github__create_issue', 'github__close_issue', 'memory__retrieve']);
+  });
+
+  it('should match @tag selectors', async () => {
+    await tool.handle({ tools: ['@dev'] }, mockContext);
+
+    expect(exposed()).toEqual(['memory__store', 'memory__retrieve']);
+  });
+
+  it('should report when no loaded tool matches', async () => {
+    const result = await tool.handle({ tools: ['memory__retrieve'] }, mockContext);
+
+    expect(result.content[0]).toEqual({
+      type: 'text',
+      text: 'No loaded tools found matching patterns: memory__retrieve',
+    });
+    expect(mockContext.disableTools).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import type { ToolState } from '../tool-registry/index.js';
+import { ToolCallLimiter, resolveExecutionLimits } from './execution-limits.js';
+import type { ToolExecutionOptions } from './tool-executor.js';
+
+const tool = (name: string, serverName = 'github'): ToolState => ({
+  fullName: `${serverName}__${name}`,
+  originalName: name,
+  serverName,
+  discovered: true,
+  enabled: true,
+  exposed: true,
+});
+
+const ok: CallToolResult = { content: [{ type: 'text', text: 'ok' }] };
+
+const deferred = () => {
+  let resolve!: (result: CallToolResult) => void;
+  const promise = new Promise<CallToolResult>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('resolveExecutionLimits', () => {
+  it('should prefer the first matching tool pattern over server limits', () => {
+    const config: ProxyConfig = {
+      servers: [],
+      toolLimits: { 'github__search_*': { timeoutMs: 500, maxConcurrent: 1 } },
+    };
+    const servers: TargetServer[] = [
+      { name: 'github', command: 'gh', timeoutMs: 2000, maxConcurrent: 4, maxQueued: 0 },
+    ];
+
+    const limits = resolveExecutionLimits(config, servers, tool('search_code'));
+
+    expect(limits.timeoutMs).toBe(500);
+    expect(limits.slots).toEqual([
+      { key: 'tool:github__search_*', maxConcurrent: 1, maxQueued: 10 },
+      { key: 'server:github', maxConcurrent: 4, maxQueued: 0 },
+    ]);
+    expect(resolveExecutionLimits(config, servers, tool('create_issue')).timeoutMs).toBe(2000);
+  });
+});
+
+describe('ToolCallLimiter', () => {
+  const servers: TargetServer[] = [
+    { name: 'github', command: 'gh', maxConcurrent: 1, maxQueued: 1 },
+  ];
+
+  it('should queue calls over the limit and reject once the queue is full', async () => {
+    const limiter = new ToolCallLimiter({ servers: [] }, servers);
+    const first = deferred();
+    const second = vi.fn().mockResolvedValue(ok);
+
+    const running = limiter.run(tool('a'), {}, () => first.promise);
+    const queued = limiter.run(tool('b'), {}, second);
+    const rejected = await limiter.run(tool('c'), {}, vi.fn());
+
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0]).toMatchObject({ text: expect.stringContaining('server:github') });
+    expect(second).not.toHaveBeenCalled();
+
+    first.resolve(ok);
+    await expect(running).resolves.toBe(ok);
+    await expect(queued).resolves.toBe(ok);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop queued calls when the caller cancels', async () => {
+    const limiter = new ToolCallLimiter({ servers: [] }, servers);
+    const first = deferred();
+    const controller = new AbortController();
+    const call = vi.fn().mockResolvedValue(ok);
+
+    const running = limiter.run(tool('a'), {}, () => first.promise);
+    const queued = limiter.run(tool('b'), { signal: controller.signal }, call);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    first.resolve(ok);
+    await running;
+    await expect(limiter.run(tool('c'), {}, call)).resolves.toBe(ok);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run calls whose signal is aborted already', async () => {
+    const limiter = new ToolCallLimiter({ servers: [] }, servers);
+    const first = deferred();
+    const call = vi.fn().mockResolvedValue(ok);
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    const running = limiter.run(tool('a'), {}, () => first.promise);
+    await expect(limiter.run(tool('b'), { signal: controller.signal }, call)).rejects.toThrow(
+      'cancelled',
+    );
+    first.resolve(ok);
+    await running;
+
+    expect(call).not.toHaveBeenCalled();
+    await expect(limiter.run(tool('c'), {}, call)).resolves.toBe(ok);
+  });
+
+  it('should hold the slot of a timed-out call until its executor settles', async () => {
+    const limiter = new ToolCallLimiter({ servers: [] }, [
+      { name: 'github', command: 'gh', timeoutMs: 20, maxConcurrent: 1, maxQueued: 1 },
+    ]);
+    const stuck = deferred();
+    const next = vi.fn().mockResolvedValue(ok);
+
+    const timedOut = await limiter.run(tool('a'), {}, () => stuck.promise);
+    const queued = limiter.run(tool('b'), {}, next);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(timedOut.isError).toBe(true);
+    expect(next).not.toHaveBeenCalled();
+    stuck.resolve(ok);
+    await expect(queued).resolves.toBe(ok);
+  });
+
+  it('should abort the backend call and return an error result on timeout', async () => {
+    const limiter = new ToolCallLimiter({ servers: [] }, [
+      { name: 'github', command: 'gh', timeoutMs: 20 },
+    ]);
+    let signal: AbortSignal | undefined;
+
+    const result = await limiter.run(tool('slow'), {}, (options: ToolExecutionOptions) => {
+      signal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+      });
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result).toEqual({
+      content: [
+        {
+          type: 'text',
+          text: 'Tool github__slow timed out after 20ms; the backend request was cancelled',
+        },
+      ],
+      isError: true,
+    });
+  });
+
+  it('should pick up limits changed by a config reload', async () => {
+    const config: ProxyConfig = { servers: [] };
+    const limiter = new ToolCallLimiter(config, servers);
+    config.toolLimits = { 'github__*': { maxConcurrent: 1, maxQueued: 0 } };
+    const first = deferred();
+
+    const running = limiter.run(tool('a'), {}, () => first.promise);
+    const rejected = await limiter.run(tool('b'), {}, vi.fn());
+
+    expect(rejected.content[0]).toMatchObject({
+      text: expect.stringContaining('tool:github__*'),
+    });
+    first.resolve(ok);
+    await running;
+  });
+});
@@ -0,0 +1,252 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+import type { ToolState } from '../tool-registry/index.js';
+import type { ToolExecutionOptions } from './tool-executor.js';
+import { matchesPattern } from './pattern-matcher.js';
+
+/**
+ * Calls allowed to wait for a slot when `maxQueued` is not configured.
+ * @public
+ */
+export const DEFAULT_MAX_QUEUED = 10;
+
+/**
+ * A concurrency slot a call has to acquire before it runs.
+ * @public
+ */
+export interface ConcurrencySlot {
+  /** `tool:<pattern>` or `server:<name>`; calls with the same key share the slots */
+  key: string;
+  maxConcurrent: number;
+  maxQueued: number;
+}
+
+/**
+ * Limits that apply to one tool call.
+ * @public
+ */
+export interface ResolvedExecutionLimits {
+  timeoutMs?: number;
+  /** Slots to acquire, tool pattern first, then server */
+  slots: ConcurrencySlot[];
+}
+
+/**
+ * Resolves the limits of a tool from `toolLimits` and its server's settings.
+ * The first `toolLimits` pattern matching the prefixed tool name wins over the server.
+ * @param config - Proxy configuration
+ * @param servers - Normalized server configurations
+ * @param tool - Tool being called
+ * @returns Timeout and concurrency slots; empty when nothing is configured
+ * @public
+ */
+export function resolveExecutionLimits(
+  config: ProxyConfig,
+  servers: TargetServer[],
+  tool: ToolState,
+): ResolvedExecutionLimits {
+  const server = servers.find((s) => s.name === tool.serverName);
+  const match = Object.entries(config.toolLimits ?? {}).find(([pattern]) =>
+    matchesPattern(tool.fullName, pattern),
+  );
+  const toolLimits = match?.[1];
+
+  const slots: ConcurrencySlot[] = [];
+  if (match && toolLimits?.maxConcurrent) {
+    slots.push({
+      key: `tool:${match[0]}`,
+      maxConcurrent: toolLimits.maxConcurrent,
+      maxQueued: toolLimits.maxQueued ?? DEFAULT_MAX_QUEUED,
+    });
+  }
+  if (server?.maxConcurrent) {
+    slots.push({
+      key: `server:${server.name}`,
+      maxConcurrent: server.maxConcurrent,
+      maxQueued: server.maxQueued ?? DEFAULT_MAX_QUEUED,
+    });
+  }
+
+  return { timeoutMs: toolLimits?.timeoutMs ?? server?.timeoutMs, slots };
+}
+
+/**
+ * Counting semaphore with a bounded FIFO queue.
+ * @internal
+ */
+class Semaphore {
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  public constructor(public slot: ConcurrencySlot) {}
+
+  /**
+   * @param signal - Removes the caller from the queue when aborted
+   * @returns False when the queue is full
+   * @throws The abort reason when the signal is aborted already or fires while queued
+   */
+  public async acquire(signal?: AbortSignal): Promise<boolean> {
+    // The abort event never fires for a signal that is aborted already
+    if (signal?.aborted) throw signal.reason;
+    if (this.active < this.slot.maxConcurrent) {
+      this.active++;
+      return true;
+    }
+    if (this.queue.length >= this.slot.maxQueued) return false;
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(grant), 1);
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.queue.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    return true;
+  }
+
+  public release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot over directly
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Enforces per-server and per-tool-pattern timeouts and concurrency limits.
+ *
+ * Calls over `maxConcurrent` wait in a bounded queue and are rejected with an error
+ * result once it is full. Timeouts abort the call's signal, which sends
+ * `notifications/cancelled` to the backend instead of just abandoning the request.
+ * A timed-out call returns right away, but keeps its slots until the executor settles.
+ * Composite tools take no slots; their timeout covers all steps.
+ * @public
+ * @see file:./tool-executor.ts - Applied by executeTool
+ */
+export class ToolCallLimiter {
+  private semaphores = new Map<string, Semaphore>();
+
+  /**
+   * @param config - Live proxy configuration (updated in place on reload)
+   * @param servers - Live normalized server list (updated in place on reload)
+   */
+  public constructor(
+    private config: ProxyConfig,
+    private servers: TargetServer[],
+  ) {}
+
+  /**
+   * Runs a call within the limits of its tool.
+   * @param tool - Tool being called
+   * @param options - Options of the current call
+   * @param call - Executes the call with the (possibly timeout-bound) options
+   * @returns The call's result, or an error result when rejected or timed out
+   * @public
+   */
+  public async run(
+    tool: ToolState,
+    options: ToolExecutionOptions,
+    call: (options: ToolExecutionOptions) => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const limits = resolveExecutionLimits(this.config, this.servers, tool);
+    // Composite tools only get the timeout: their steps take the slots, and a composite
+    // holding a slot its steps wait for would deadlock
+    const slots = tool.composite ? [] : limits.slots;
+    const acquired: Semaphore[] = [];
+    // The executor may outlive a timeout; its slots are held until it settles
+    let running: Promise<CallToolResult> | undefined;
+    const tracked = (callOptions: ToolExecutionOptions) => (running = call(callOptions));
+
+    try {
+      for (const slot of slots) {
+        const semaphore = this.getSemaphore(slot);
+        if (!(await semaphore.acquire(options.signal))) {
+          return errorResult(
+            `Tool ${tool.fullName} was rejected: ${slot.maxConcurrent} calls are running and ` +
+              `${slot.maxQueued} are queued for ${slot.key}`,
+          );
+        }
+        acquired.push(semaphore);
+      }
+
+      return limits.timeoutMs
+        ? await callWithTimeout(tool, limits.timeoutMs, options, tracked)
+        : await tracked(options);
+    } finally {
+      const release = () => {
+        for (const semaphore of acquired) {
+          semaphore.release();
+        }
+      };
+      if (running) void running.then(release, release);
+      else release();
+    }
+  }
+
+  /**
+   * @param slot - Slot definition; limits are refreshed so config reloads apply
+   * @returns Semaphore shared by all calls with the slot's key
+   * @internal
+   */
+  private getSemaphore(slot: ConcurrencySlot): Semaphore {
+    let semaphore = this.semaphores.get(slot.key);
+    if (!semaphore) {
+      semaphore = new Semaphore(slot);
+      this.semaphores.set(slot.key, semaphore);
+    }
+    semaphore.slot = slot;
+    return semaphore;
+  }
+}
+
+/**
+ * Runs a call with a deadline that aborts its signal.
+ * @param tool - Tool being called
+ * @param timeoutMs - Deadline in milliseconds
+ * @param options - Options of the current call
+ * @param call - Executes the call
+ * @returns The call's result, or an error result when the deadline passed
+ * @throws Errors of the call, including upstream cancellation
+ * @internal
+ */
+async function callWithTimeout(
+  tool: ToolState,
+  timeoutMs: number,
+  options: ToolExecutionOptions,
+  call: (options: ToolExecutionOptions) => Promise<CallToolResult>,
+): Promise<CallToolResult> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+  const timedOut = errorResult(
+    `Tool ${tool.fullName} timed out after ${timeoutMs}ms; the backend request was cancelled`,
+  );
+
+  // Executors that ignore the signal must not keep the caller waiting
+  const deadline = new Promise<CallToolResult>((resolve) => {
+    timeout.addEventListener('abort', () => resolve(timedOut), { once: true });
+  });
+
+  try {
+    return await Promise.race([call({ ...options, signal, timeoutMs }), deadline]);
+  } catch (error) {
+    if (timeout.aborted && !options.signal?.aborted) return timedOut;
+    throw error;
+  }
+}
+
+/**
+ * @param text - Error message
+ * @returns Tool error result
+ * @internal
+ */
+function errorResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { matchesPattern } from './pattern-matcher.js';
+import { matchesPattern, passesPatternFilters } from './pattern-matcher.js';
 
 describe('matchesPattern', () => {
   it('should match exact strings', () => {
@@ -46,3 +46,20 @@ describe('matchesPattern', () => {
     expect(matchesPattern('test-tool', 'test_tool')).toBe(false);
   });
 });
+
+describe('passesPatternFilters', () => {
+  it('should pass everything when no filters are configured', () => {
+    expect(passesPatternFilters('github__readme')).toBe(true);
+  });
+
+  it('should only pass allowlisted names when expose patterns are set', () => {
+    expect(passesPatternFilters('github__readme', ['github__*'])).toBe(true);
+    expect(passesPatternFilters('memory__graph', ['github__*'])).toBe(false);
+    expect(passesPatternFilters('github__readme', [])).toBe(false);
+  });
+
+  it('should let hide patterns win over expose patterns', () => {
+    expect(passesPatternFilters('github__secrets', ['github__*'], ['*__secrets'])).toBe(false);
+    expect(passesPatternFilters('github__readme', ['github__*'], ['*__secrets'])).toBe(true);
+  });
+});
@@ -19,3 +19,61 @@ export function matchesPattern(str: string, pattern: string): boolean {
   const regex = new RegExp(`^${regexPattern}$`);
   return regex.test(str);
 }
+
+/**
+ * Match a tool against a tool pattern. `@tag` patterns select the tools of servers with a
+ * matching tag (wildcards allowed, e.g. `@team-*`); other patterns match the tool name.
+ * @param tool - Prefixed tool name and the tags of its server
+ * @param pattern - Tool pattern, e.g. "github__*" or `@dev`
+ * @returns True if the tool matches the pattern
+ */
+export function matchesToolPattern(
+  tool: { fullName: string; tags?: string[] },
+  pattern: string,
+): boolean {
+  if (pattern.startsWith('@')) {
+    return hasMatchingTag(tool.tags, pattern.slice(1));
+  }
+  return matchesPattern(tool.fullName, pattern);
+}
+
+/**
+ * Check whether any tag matches a tag pattern
+ * @param tags - Tags of a server
+ * @param pattern - Tag pattern without the leading `@` (* matches any sequence of characters)
+ * @returns True if one of the tags matches
+ */
+export function hasMatchingTag(tags: string[] | undefined, pattern: string): boolean {
+  return tags?.some((tag) => matchesPattern(tag, pattern)) ?? false;
+}
+
+/**
+ * Check a tool's tags against a tag filter, as passed to load_toolset and discover_tools_by_words
+ * @param tags - Tags of the tool's server
+ * @param filter - Tag patterns, with or without the leading `@`
+ * @returns True if any tag matches any filter entry
+ */
+export function matchesTagFilter(tags: string[] | undefined, filter: string[]): boolean {
+  return filter.some((pattern) => hasMatchingTag(tags, pattern.replace(/^@/, '')));
+}
+
+/**
+ * Apply expose/hide pattern filtering to a name, mirroring the tool filtering rules
+ * @param name - The name to test (e.g. "github__repo_readme")
+ * @param exposePatterns - Allowlist patterns; when defined, only matching names pass
+ * @param hidePatterns - Denylist patterns; matching names never pass
+ * @returns True if the name passes both filters
+ */
+export function passesPatternFilters(
+  name: string,
+  exposePatterns?: string[],
+  hidePatterns?: string[],
+): boolean {
+  if (hidePatterns?.some((pattern) => matchesPattern(name, pattern))) {
+    return false;
+  }
+  if (exposePatterns !== undefined) {
+    return exposePatterns.some((pattern) => matchesPattern(name, pattern));
+  }
+  return true;
+}
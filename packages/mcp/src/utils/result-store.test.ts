@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { ToolState } from '../tool-registry/index.js';
+import { ToolResultStore, isResultTruncationEnabled } from './result-store.js';
+
+const tool: ToolState = {
+  fullName: 'github__get_file_contents',
+  originalName: 'get_file_contents',
+  serverName: 'github',
+  discovered: true,
+  enabled: true,
+  exposed: true,
+};
+
+const textResult = (text: string): CallToolResult => ({ content: [{ type: 'text', text }] });
+
+describe('ToolResultStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass results within the limit through unchanged', () => {
+    const store = new ToolResultStore({ servers: [], maxResultChars: 10 });
+    const result = textResult('short');
+
+    expect(store.limit(tool, result)).toBe(result);
+    expect(new ToolResultStore({ servers: [] }).limit(tool, textResult('x'.repeat(1e5)))).toEqual(
+      textResult('x'.repeat(1e5)),
+    );
+  });
+
+  it('should truncate text content and keep the full text under a handle', () => {
+    const store = new ToolResultStore({ servers: [], maxResultChars: 100 });
+    const image = { type: 'image' as const, data: 'AAAA', mimeType: 'image/png' };
+
+    const limited = store.limit(tool, {
+      content: [
+        { type: 'text', text: 'a'.repeat(80) },
+        image,
+        { type: 'text', text: 'b'.repeat(80) },
+      ],
+    });
+
+    const [first, second] = limited.content;
+    expect(second).toEqual(image);
+    const text = first.type === 'text' ? first.text : '';
+    expect(text.startsWith(`${'a'.repeat(80)}\n${'b'.repeat(19)}\n\n[Truncated`)).toBe(true);
+    const handle = /"handle": "(res_[0-9a-f]+)"/.exec(text)![1];
+    expect(store.get(handle)).toMatchObject({
+      toolName: 'github__get_file_contents',
+      text: `${'a'.repeat(80)}\n${'b'.repeat(80)}`,
+      pageChars: 100,
+    });
+  });
+
+  it('should prefer the tool override and expire results after the TTL', () => {
+    vi.useFakeTimers();
+    const config: ProxyConfig = { servers: [], maxResultChars: 1000, storedResultTtlMs: 5000 };
+    const store = new ToolResultStore(config);
+
+    const limited = store.limit(
+      { ...tool, override: { maxResultChars: 10 } },
+      textResult('x'.repeat(20)),
+    );
+    const text = limited.content[0].type === 'text' ? limited.content[0].text : '';
+    const handle = /"handle": "(res_[0-9a-f]+)"/.exec(text)![1];
+
+    expect(text.startsWith(`${'x'.repeat(10)}\n\n[Truncated`)).toBe(true);
+    vi.advanceTimersByTime(4999);
+    expect(store.get(handle)).toBeDefined();
+    vi.advanceTimersByTime(1);
+    expect(store.get(handle)).toBeUndefined();
+  });
+});
+
+describe('isResultTruncationEnabled', () => {
+  it('should detect global and per-tool limits', () => {
+    expect(isResultTruncationEnabled({ servers: [] })).toBe(false);
+    expect(isResultTruncationEnabled({ servers: [], maxResultChars: 5000 })).toBe(true);
+    expect(
+      isResultTruncationEnabled({
+        servers: [],
+        toolOverrides: { 'github__*': { maxResultChars: 5000 } },
+      }),
+    ).toBe(true);
+  });
+});
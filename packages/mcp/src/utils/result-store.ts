@@ -0,0 +1,144 @@
+import { randomBytes } from 'node:crypto';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig } from '@mcp-funnel/schemas';
+import type { ToolState } from '../tool-registry/index.js';
+
+/**
+ * How long truncated results stay readable when `storedResultTtlMs` is not set.
+ * @public
+ */
+export const DEFAULT_STORED_RESULT_TTL_MS = 600_000;
+
+/**
+ * Upper bound of stored results; the oldest one is dropped when it is exceeded.
+ * @internal
+ */
+const MAX_STORED_RESULTS = 50;
+
+/**
+ * Full text of a truncated tool result.
+ * @public
+ */
+export interface StoredToolResult {
+  handle: string;
+  /** Prefixed name of the tool that produced the result */
+  toolName: string;
+  /** All text content of the result, joined by newlines */
+  text: string;
+  /** Size limit the result was truncated to; also the default page size */
+  pageChars: number;
+  /** Epoch milliseconds after which the result is discarded */
+  expiresAt: number;
+}
+
+/**
+ * Whether any result size limit is configured, globally or in `toolOverrides`.
+ * @param config - Proxy configuration
+ * @returns True when tool results may be truncated
+ * @public
+ */
+export function isResultTruncationEnabled(config: ProxyConfig): boolean {
+  return (
+    config.maxResultChars !== undefined ||
+    Object.values(config.toolOverrides ?? {}).some((o) => o.maxResultChars !== undefined)
+  );
+}
+
+/**
+ * Truncates oversized text results and keeps their full text for a while, so the
+ * model can page through or search them with `read_tool_result`.
+ *
+ * The config object is read on every call, so hot-reloaded limits and TTLs apply
+ * to the next result.
+ * @public
+ * @see file:../tools/read-tool-result/index.ts - Reads stored results
+ */
+export class ToolResultStore {
+  private results = new Map<string, StoredToolResult>();
+
+  public constructor(private readonly config: ProxyConfig) {}
+
+  /**
+   * Applies the tool's `maxResultChars` to a result.
+   * All text content is joined and cut to the limit, followed by a note with the handle;
+   * other content such as images is kept after it.
+   * @param tool - Tool that produced the result
+   * @param result - Result from the backend or command
+   * @returns The result unchanged when it fits, otherwise a truncated copy
+   * @public
+   */
+  public limit(tool: ToolState, result: CallToolResult): CallToolResult {
+    const maxChars = tool.override?.maxResultChars ?? this.config.maxResultChars;
+    const content = result.content ?? [];
+    const text = content.flatMap((item) => (item.type === 'text' ? [item.text] : [])).join('\n');
+    if (!maxChars || text.length <= maxChars) return result;
+
+    const stored = this.store(tool.fullName, text, maxChars);
+    return {
+      ...result,
+      content: [
+        { type: 'text', text: `${text.slice(0, maxChars)}${describeRemainder(stored, maxChars)}` },
+        ...content.filter((item) => item.type !== 'text'),
+      ],
+    };
+  }
+
+  /**
+   * @param handle - Handle from a truncation note
+   * @returns The stored result, or undefined when it is unknown or expired
+   * @public
+   */
+  public get(handle: string): StoredToolResult | undefined {
+    this.sweep();
+    return this.results.get(handle);
+  }
+
+  /**
+   * @returns Configured TTL in milliseconds
+   * @public
+   */
+  public get ttlMs(): number {
+    return this.config.storedResultTtlMs ?? DEFAULT_STORED_RESULT_TTL_MS;
+  }
+
+  private store(toolName: string, text: string, pageChars: number): StoredToolResult {
+    this.sweep();
+    if (this.results.size >= MAX_STORED_RESULTS) {
+      const oldest = this.results.keys().next().value;
+      if (oldest !== undefined) this.results.delete(oldest);
+    }
+
+    const stored: StoredToolResult = {
+      handle: `res_${randomBytes(6).toString('hex')}`,
+      toolName,
+      text,
+      pageChars,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.results.set(stored.handle, stored);
+    return stored;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [handle, stored] of this.results) {
+      if (stored.expiresAt <= now) this.results.delete(handle);
+    }
+  }
+}
+
+/**
+ * Builds the note appended to a page of a stored result.
+ * @param stored - Stored result
+ * @param end - Offset just after the returned text
+ * @returns Note with the next offset, or an empty string when the end was reached
+ * @public
+ */
+export function describeRemainder(stored: StoredToolResult, end: number): string {
+  if (end >= stored.text.length) return '';
+  return (
+    `\n\n[Truncated: showing up to character ${end} of ${stored.text.length}. ` +
+    `Call read_tool_result with {"handle": "${stored.handle}", "offset": ${end}} for more, ` +
+    `or with "pattern" to search the full result.]`
+  );
+}
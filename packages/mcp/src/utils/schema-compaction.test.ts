@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  compactToolDefinition,
+  estimateTokens,
+  resolveSchemaCompaction,
+} from './schema-compaction.js';
+
+const options = { maxDescriptionLength: 40 };
+
+describe('compactToolDefinition', () => {
+  it('should strip annotations and shorten descriptions but keep data keywords', () => {
+    const definition: Tool = {
+      name: 'search',
+      description: 'Search issues and pull requests across every repository you can access.',
+      inputSchema: {
+        type: 'object',
+        title: 'SearchInput',
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        properties: {
+          // Property names that look like keywords must survive
+          title: { type: 'string', title: 'Title', examples: ['bug'] },
+          sort: { type: 'string', enum: ['created', 'updated'], default: 'created' },
+        },
+        required: ['title'],
+      },
+    };
+
+    const compacted = compactToolDefinition(definition, options);
+
+    expect(compacted.description).toBe('Search issues and pull requests across…');
+    expect(compacted.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        sort: { type: 'string', enum: ['created', 'updated'], default: 'created' },
+      },
+      required: ['title'],
+    });
+  });
+
+  it('should inline local refs and prune recursive ones', () => {
+    const definition = {
+      name: 'create_tree',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          owner: { $ref: '#/$defs/User', description: 'Owner' },
+          root: { $ref: '#/definitions/Node' },
+          remote: { $ref: 'https://example.com/schema.json' },
+        },
+        $defs: { User: { type: 'object', properties: { login: { type: 'string' } } } },
+        definitions: {
+          Node: {
+            type: 'object',
+            properties: { children: { type: 'array', items: { $ref: '#/definitions/Node' } } },
+          },
+        },
+      },
+    } as Tool;
+
+    const compacted = compactToolDefinition(definition, options);
+
+    expect(compacted.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        owner: { type: 'object', properties: { login: { type: 'string' } }, description: 'Owner' },
+        root: {
+          type: 'object',
+          properties: { children: { type: 'array', items: {} } },
+        },
+        remote: {},
+      },
+    });
+    expect(estimateTokens(compacted)).toBeLessThan(estimateTokens(definition));
+  });
+});
+
+describe('resolveSchemaCompaction', () => {
+  it('should let a server setting override the global one', () => {
+    const config = { servers: [], compactSchemas: { maxDescriptionLength: 80 } };
+
+    expect(resolveSchemaCompaction(config)).toEqual({ maxDescriptionLength: 80 });
+    expect(
+      resolveSchemaCompaction(config, { name: 'github', command: 'gh', compactSchemas: false }),
+    ).toBeUndefined();
+    expect(
+      resolveSchemaCompaction(
+        { servers: [] },
+        { name: 'github', command: 'gh', compactSchemas: true },
+      ),
+    ).toEqual({ maxDescriptionLength: 200 });
+  });
+});
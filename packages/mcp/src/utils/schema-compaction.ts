@@ -0,0 +1,192 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig, TargetServer } from '@mcp-funnel/schemas';
+
+/**
+ * Description length used when `compactSchemas` is `true`.
+ * @public
+ */
+export const DEFAULT_MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Keywords that only document a schema and are dropped entirely.
+ * @internal
+ */
+const STRIPPED_KEYWORDS = new Set(['title', 'examples', 'example', '$schema', '$comment', '$id']);
+
+/**
+ * Keywords whose value is a map of subschemas.
+ * @internal
+ */
+const SCHEMA_MAP_KEYWORDS = new Set(['properties', 'patternProperties', 'dependentSchemas']);
+
+/**
+ * Keywords whose value is a subschema or a list of subschemas. Anything else (`enum`,
+ * `default`, `const`, ...) is data and copied verbatim.
+ * @internal
+ */
+const SUBSCHEMA_KEYWORDS = new Set([
+  'items',
+  'prefixItems',
+  'additionalProperties',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+]);
+
+/**
+ * Effective compaction settings for one tool.
+ * @public
+ */
+export interface SchemaCompactionOptions {
+  maxDescriptionLength: number;
+}
+
+/**
+ * @internal
+ */
+interface CompactionContext extends SchemaCompactionOptions {
+  /** `$defs`/`definitions` of the root schema */
+  defs: Record<string, unknown>;
+  /** Definitions currently being inlined, to detect recursion */
+  inlining: Set<string>;
+}
+
+/**
+ * Resolves the compaction settings for a server's tools.
+ * A server's own `compactSchemas` wins over the global setting.
+ * @param config - Proxy configuration
+ * @param server - Configuration of the tool's server, if it has one
+ * @returns Settings, or undefined when compaction is off
+ * @public
+ */
+export function resolveSchemaCompaction(
+  config: ProxyConfig,
+  server?: TargetServer,
+): SchemaCompactionOptions | undefined {
+  const setting = server?.compactSchemas ?? config.compactSchemas;
+  if (!setting) return undefined;
+  return {
+    maxDescriptionLength:
+      (typeof setting === 'object' && setting.maxDescriptionLength) ||
+      DEFAULT_MAX_DESCRIPTION_LENGTH,
+  };
+}
+
+/**
+ * Shrinks a tool definition for `tools/list`.
+ *
+ * Titles, examples and similar annotations are stripped, descriptions shortened, and
+ * local `$ref`s inlined. Recursive or non-local refs are pruned to an unconstrained
+ * schema, and `$defs`/`definitions` are dropped.
+ * @param definition - Full tool definition
+ * @param options - Compaction settings
+ * @returns Compacted copy of the definition
+ * @public
+ * @see file:../tools/get-tool-schema/index.ts - Still returns the full schema
+ */
+export function compactToolDefinition(definition: Tool, options: SchemaCompactionOptions): Tool {
+  const root = definition.inputSchema as Record<string, unknown>;
+  const context: CompactionContext = {
+    ...options,
+    defs: {
+      ...(root.definitions as Record<string, unknown> | undefined),
+      ...(root.$defs as Record<string, unknown> | undefined),
+    },
+    inlining: new Set(),
+  };
+
+  return {
+    ...definition,
+    ...(definition.description && {
+      description: shortenDescription(definition.description, options.maxDescriptionLength),
+    }),
+    inputSchema: compactSchema(root, context) as Tool['inputSchema'],
+  };
+}
+
+/**
+ * Rough token estimate for a JSON value (about four characters per token).
+ * @param value - Value as sent to the client
+ * @returns Estimated token count
+ * @public
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/**
+ * Cuts a description at a word boundary.
+ * @param text - Description
+ * @param maxLength - Maximum length including the ellipsis
+ * @returns Text unchanged when short enough, otherwise shortened with `…`
+ * @internal
+ */
+function shortenDescription(text: string, maxLength: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) return trimmed;
+  const cut = trimmed.slice(0, maxLength - 1);
+  const boundary = cut.lastIndexOf(' ');
+  return `${boundary > maxLength / 2 ? cut.slice(0, boundary) : cut}…`;
+}
+
+/**
+ * @param node - Schema or subschema
+ * @param context - Compaction state
+ * @returns Compacted copy of the schema
+ * @internal
+ */
+function compactSchema(node: unknown, context: CompactionContext): unknown {
+  if (Array.isArray(node)) return node.map((item) => compactSchema(item, context));
+  if (!node || typeof node !== 'object') return node;
+
+  const schema = node as Record<string, unknown>;
+  if (typeof schema.$ref === 'string') return inlineRef(schema, context);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (STRIPPED_KEYWORDS.has(key) || key === '$defs' || key === 'definitions') continue;
+
+    if (key === 'description' && typeof value === 'string') {
+      result[key] = shortenDescription(value, context.maxDescriptionLength);
+    } else if (SCHEMA_MAP_KEYWORDS.has(key) && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, sub]) => [name, compactSchema(sub, context)]),
+      );
+    } else if (SUBSCHEMA_KEYWORDS.has(key)) {
+      result[key] = compactSchema(value, context);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Replaces a `$ref` with the compacted definition it points to.
+ * @param schema - Schema containing `$ref`; sibling keywords are kept
+ * @param context - Compaction state
+ * @returns Inlined schema, or the siblings alone when the ref cannot be inlined
+ * @internal
+ */
+function inlineRef(schema: Record<string, unknown>, context: CompactionContext): unknown {
+  const { $ref, ...siblings } = schema;
+  const name = /^#\/(?:\$defs|definitions)\/(.+)$/.exec($ref as string)?.[1];
+  const target = name !== undefined ? context.defs[name] : undefined;
+
+  if (name === undefined || !target || typeof target !== 'object' || context.inlining.has(name)) {
+    return compactSchema(siblings, context);
+  }
+
+  context.inlining.add(name);
+  try {
+    return compactSchema({ ...target, ...siblings }, context);
+  } finally {
+    context.inlining.delete(name);
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ICommand } from '@mcp-funnel/commands-core';
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolState } from '../tool-registry/index.js';
+import { createToolExecutionOptions, executeTool } from './tool-executor.js';
+import { ToolResultStore } from './result-store.js';
+import { ToolCallLimiter } from './execution-limits.js';
+
+type Extra = Parameters<typeof createToolExecutionOptions>[1];
+
+const createExtra = () => {
+  const controller = new AbortController();
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  return { controller, sendNotification, extra: { signal: controller.signal, sendNotification } };
+};
+
+const callRequest = (meta?: CallToolRequest['params']['_meta']): CallToolRequest => ({
+  method: 'tools/call',
+  params: { name: 'github__create_issue', arguments: {}, _meta: meta },
+});
+
+const backendTool = (callTool: ReturnType<typeof vi.fn>): ToolState => ({
+  fullName: 'github__create_issue',
+  originalName: 'create_issue',
+  serverName: 'github',
+  discovered: true,
+  enabled: true,
+  exposed: true,
+  client: { callTool } as unknown as Client,
+});
+
+describe('createToolExecutionOptions', () => {
+  it('should pass the abort signal without progress when no token was sent', () => {
+    const { extra, controller } = createExtra();
+    const options = createToolExecutionOptions(callRequest(), extra as unknown as Extra);
+
+    expect(options.signal).toBe(controller.signal);
+    expect(options.onprogress).toBeUndefined();
+  });
+
+  it('should relay progress upstream with the original token', () => {
+    const { extra, sendNotification } = createExtra();
+    const options = createToolExecutionOptions(
+      callRequest({ progressToken: 'upstream-42' }),
+      extra as unknown as Extra,
+    );
+
+    options.onprogress?.({ progress: 3, total: 10, message: 'indexing' });
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progress: 3, total: 10, message: 'indexing', progressToken: 'upstream-42' },
+    });
+  });
+});
+
+describe('executeTool', () => {
+  it('should forward signal and progress to the backend call', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    const signal = new AbortController().signal;
+    const onprogress = vi.fn();
+
+    await executeTool(backendTool(callTool), { title: 'Bug' }, { signal, onprogress });
+
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'create_issue', arguments: { title: 'Bug' } },
+      undefined,
+      { signal, onprogress, resetTimeoutOnProgress: true },
+    );
+  });
+
+  it('should pass timeouts above the SDK default to the backend call', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    const limiter = new ToolCallLimiter(
+      { servers: [], toolLimits: { 'github__*': { timeoutMs: 120_000 } } },
+      [],
+    );
+
+    await executeTool(backendTool(callTool), {}, { limiter });
+
+    expect(callTool).toHaveBeenCalledWith(
+      expect.anything(),
+      undefined,
+      expect.objectContaining({ timeout: 120_000 }),
+    );
+  });
+
+  it('should apply pinned and default arguments from toolOverrides', async () => {
+    const callTool = vi.fn().mockResolvedValue({ content: [] });
+    const tool: ToolState = {
+      ...backendTool(callTool),
+      override: { pinArgs: { owner: 'acme' }, defaultArgs: { labels: ['bug'] } },
+    };
+
+    await executeTool(tool, { title: 'Bug', owner: 'other' });
+
+    expect(callTool).toHaveBeenCalledWith(
+      { name: 'create_issue', arguments: { title: 'Bug', owner: 'acme', labels: ['bug'] } },
+      undefined,
+      expect.any(Object),
+    );
+  });
+
+  it('should truncate oversized results except for API calls', async () => {
+    const text = 'x'.repeat(50);
+    const callTool = vi.fn().mockResolvedValue({ content: [{ type: 'text', text }] });
+    const resultStore = new ToolResultStore({ servers: [], maxResultChars: 10 });
+
+    const limited = await executeTool(backendTool(callTool), {}, { resultStore });
+    const full = await executeTool(backendTool(callTool), {}, { resultStore, source: 'api' });
+
+    expect(limited.content[0]).toMatchObject({ text: expect.stringMatching(/^x{10}\n\n\[Trunc/) });
+    expect(full.content[0]).toEqual({ type: 'text', text });
+  });
+
+  it('should propagate backend aborts', async () => {
+    const callTool = vi.fn().mockRejectedValue(new Error('AbortError: cancelled'));
+
+    await expect(executeTool(backendTool(callTool), {})).rejects.toThrow('cancelled');
+  });
+
+  it('should pass the abort signal to commands', async () => {
+    const executeToolViaMCP = vi.fn().mockResolvedValue({ content: [] });
+    const signal = new AbortController().signal;
+    const tool: ToolState = {
+      ...backendTool(vi.fn()),
+      client: undefined,
+      command: { executeToolViaMCP } as unknown as ICommand,
+    };
+
+    await executeTool(tool, undefined, { signal });
+
+    expect(executeToolViaMCP).toHaveBeenCalledWith('create_issue', {}, { signal });
+  });
+
+  it('should return an error result for tools without executor', async () => {
+    const tool: ToolState = { ...backendTool(vi.fn()), client: undefined };
+
+    const result = await executeTool(tool, {});
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('should explain that cached tools are waiting for their server', async () => {
+    const tool: ToolState = { ...backendTool(vi.fn()), client: undefined, cached: true };
+
+    const result = await executeTool(tool, {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('not connected') });
+  });
+});
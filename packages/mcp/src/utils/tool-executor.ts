@@ -0,0 +1,225 @@
+import type {
+  RequestHandlerExtra,
+  ProgressCallback,
+} from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ToolState } from '../tool-registry/index.js';
+import type { ToolCallLimiter } from './execution-limits.js';
+import type { ToolResultStore } from './result-store.js';
+import type { AuditLog } from '../audit-log/index.js';
+import { applyToolOverrideToArgs } from './tool-overrides.js';
+import type { ToolCallSource, ToolMiddlewareChain } from '../tool-middleware/index.js';
+
+/**
+ * Per-call options threaded from the upstream request to the tool executor.
+ * @public
+ */
+export interface ToolExecutionOptions {
+  /** Aborted when the upstream client cancels the tool call */
+  signal?: AbortSignal;
+  /** Receives backend progress; only set when the upstream client asked for progress */
+  onprogress?: ProgressCallback;
+  /** Wraps backend calls, e.g. to start a lazy server first; receives the tool with a live client */
+  runOnServer?: (
+    tool: ToolState,
+    call: (tool: ToolState) => Promise<CallToolResult>,
+    options: ToolExecutionOptions,
+  ) => Promise<CallToolResult>;
+  /** Applies configured timeouts and concurrency limits */
+  limiter?: ToolCallLimiter;
+  /** Timeout set by the limiter; replaces the SDK's default request timeout of 60s */
+  timeoutMs?: number;
+  /** Hooks run around the call */
+  middleware?: ToolMiddlewareChain;
+  /** Where the call entered the proxy, reported to middleware (default `mcp`) */
+  source?: ToolCallSource;
+  /** Truncates oversized results for the model; API calls always get the full result */
+  resultStore?: ToolResultStore;
+  /** Records the call in the audit log */
+  audit?: AuditLog;
+  /** MCP client as `name/version`, for the audit log */
+  client?: string;
+}
+
+/**
+ * Derives execution options from an incoming `tools/call` request.
+ *
+ * Backend progress is relayed upstream with the caller's original `progressToken`,
+ * as a notification related to the incoming request.
+ * @param request - Incoming tools/call request
+ * @param extra - Handler extra providing the abort signal and notification channel
+ * @returns Options for {@link executeTool}
+ * @public
+ * @see file:../proxy/mcp-proxy.ts - CallTool handler
+ */
+export function createToolExecutionOptions(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): ToolExecutionOptions {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+
+  return {
+    signal: extra.signal,
+    onprogress: (progress) => {
+      void extra
+        .sendNotification({
+          method: 'notifications/progress',
+          params: { ...progress, progressToken },
+        })
+        .catch(() => {
+          // Upstream may already be gone; progress is best-effort
+        });
+    },
+  };
+}
+
+/**
+ * Executes a registered backend or command tool.
+ *
+ * Backend calls forward the abort signal (which sends `notifications/cancelled` to the
+ * backend) and progress; progress also keeps the request timeout alive. Commands
+ * receive the abort signal. Pinned and default arguments from `toolOverrides` are applied
+ * first. Middleware runs around the call; inside it, the call waits for a concurrency
+ * slot and is cancelled once its timeout passes. Results for the model are truncated
+ * to `maxResultChars` after all middleware ran. The audit log records the whole call.
+ * @param tool - Tool state from the registry
+ * @param args - Tool arguments
+ * @param options - Cancellation and progress options of the current call
+ * @returns Tool result, or an error result when the tool has no executor
+ * @throws Error when the backend call fails or is aborted
+ * @public
+ * @see file:../tools/bridge-tool-request/index.ts - Shares this path with tools/call
+ */
+export async function executeTool(
+  tool: ToolState,
+  args: Record<string, unknown> | undefined,
+  options: ToolExecutionOptions = {},
+): Promise<CallToolResult> {
+  const { limiter, middleware, resultStore, audit } = options;
+  const execute = (callArgs: Record<string, unknown> | undefined) =>
+    limiter
+      ? limiter.run(tool, options, (limited) => dispatchTool(tool, callArgs, limited))
+      : dispatchTool(tool, callArgs, options);
+
+  // Pinned arguments and defaults from toolOverrides are visible to middleware
+  const callArgs = applyToolOverrideToArgs(args, tool.override);
+  const run = async () => {
+    const result = middleware
+      ? await runMiddleware(tool, callArgs, options, execute)
+      : await execute(callArgs);
+    return resultStore && options.source !== 'api' ? resultStore.limit(tool, result) : result;
+  };
+  if (!audit) return run();
+  return audit.record(
+    {
+      tool: tool.fullName,
+      server: tool.serverName,
+      source: options.source ?? 'mcp',
+      client: options.client,
+      args: callArgs,
+    },
+    run,
+  );
+}
+
+/**
+ * Runs a call through the middleware chain.
+ * @param tool - Tool state from the registry
+ * @param args - Tool arguments with overrides applied
+ * @param options - Options of the current call; `middleware` must be set
+ * @param execute - Performs the call with the (possibly rewritten) arguments
+ * @returns Tool result
+ * @internal
+ */
+function runMiddleware(
+  tool: ToolState,
+  args: Record<string, unknown> | undefined,
+  options: ToolExecutionOptions,
+  execute: (args: Record<string, unknown> | undefined) => Promise<CallToolResult>,
+): Promise<CallToolResult> {
+  return options.middleware!.run(
+    {
+      toolName: tool.fullName,
+      serverName: tool.serverName,
+      args: { ...args },
+      source: options.source ?? 'mcp',
+      signal: options.signal,
+      state: {},
+    },
+    execute,
+  );
+}
+
+/**
+ * Routes a call to the tool's command, composite steps or backend.
+ * @param tool - Tool state from the registry
+ * @param args - Tool arguments
+ * @param options - Cancellation and progress options of the current call
+ * @returns Tool result
+ * @internal
+ */
+async function dispatchTool(
+  tool: ToolState,
+  args: Record<string, unknown> | undefined,
+  options: ToolExecutionOptions,
+): Promise<CallToolResult> {
+  if (tool.command) {
+    return tool.command.executeToolViaMCP(tool.originalName, args || {}, {
+      signal: options.signal,
+    });
+  }
+  if (tool.composite) {
+    return tool.composite.execute(args || {}, options);
+  }
+
+  const call = (target: ToolState) => callBackendTool(target, args, options);
+  return options.runOnServer ? options.runOnServer(tool, call, options) : call(tool);
+}
+
+/**
+ * Calls a tool on its backend client.
+ * @param tool - Tool state with the client to call
+ * @param args - Tool arguments
+ * @param options - Cancellation and progress options of the current call
+ * @returns Tool result, or an error result when the tool has no client (yet)
+ * @internal
+ */
+async function callBackendTool(
+  tool: ToolState,
+  args: Record<string, unknown> | undefined,
+  options: ToolExecutionOptions,
+): Promise<CallToolResult> {
+  if (tool.client) {
+    return (await tool.client.callTool({ name: tool.originalName, arguments: args }, undefined, {
+      signal: options.signal,
+      onprogress: options.onprogress,
+      resetTimeoutOnProgress: options.onprogress !== undefined,
+      timeout: options.timeoutMs,
+    })) as CallToolResult;
+  }
+
+  if (tool.cached) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Tool ${tool.fullName} is only known from the tool cache: server ${tool.serverName} is not connected`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Tool ${tool.fullName} has no executor` }],
+    isError: true,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  applyToolOverrideToArgs,
+  applyToolOverrideToDefinition,
+  resolveToolOverride,
+} from './tool-overrides.js';
+
+const createIssue: Tool = {
+  name: 'create_issue',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      owner: { type: 'string' },
+      repo: { type: 'string' },
+      title: { type: 'string' },
+      labels: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['owner', 'repo', 'title', 'labels'],
+  },
+};
+
+describe('resolveToolOverride', () => {
+  it('should merge all matching entries with later entries winning', () => {
+    const override = resolveToolOverride(
+      {
+        servers: [],
+        toolOverrides: {
+          'github__*': { pinArgs: { owner: 'acme', repo: 'web' } },
+          github__create_issue: { pinArgs: { repo: 'api' }, defaultArgs: { labels: ['bug'] } },
+          'memory__*': { pinArgs: { namespace: 'x' } },
+        },
+      },
+      'github__create_issue',
+    );
+
+    expect(override).toMatchObject({
+      pinArgs: { owner: 'acme', repo: 'api' },
+      defaultArgs: { labels: ['bug'] },
+    });
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(resolveToolOverride({ servers: [] }, 'github__create_issue')).toBeUndefined();
+  });
+});
+
+describe('applyToolOverrideToDefinition', () => {
+  it('should remove pinned properties and document defaults', () => {
+    const definition = applyToolOverrideToDefinition(createIssue, {
+      pinArgs: { owner: 'acme', repo: 'web' },
+      defaultArgs: { labels: ['bug'] },
+    });
+
+    expect(definition.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        labels: { type: 'array', items: { type: 'string' }, default: ['bug'] },
+      },
+      required: ['title'],
+    });
+    expect(createIssue.inputSchema.required).toHaveLength(4);
+  });
+
+  it('should replace the description and property descriptions', () => {
+    const definition = applyToolOverrideToDefinition(
+      {
+        ...createIssue,
+        description: 'Create a new issue in a GitHub repository. Long text.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'The title of the issue, which...' },
+            body: { type: 'string', description: 'Markdown body' },
+          },
+        },
+      },
+      { description: 'Create an issue', propertyDescriptions: { title: 'Title', body: '' } },
+    );
+
+    expect(definition.description).toBe('Create an issue');
+    expect(definition.inputSchema.properties).toEqual({
+      title: { type: 'string', description: 'Title' },
+      body: { type: 'string' },
+    });
+  });
+});
+
+describe('applyToolOverrideToArgs', () => {
+  it('should fill in defaults and let pinned values win', () => {
+    const args = applyToolOverrideToArgs(
+      { owner: 'someone-else', title: 'Crash' },
+      { pinArgs: { owner: 'acme' }, defaultArgs: { labels: ['bug'], title: 'Untitled' } },
+    );
+
+    expect(args).toEqual({ owner: 'acme', title: 'Crash', labels: ['bug'] });
+  });
+});
@@ -0,0 +1,111 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ProxyConfig, ToolOverrideZod } from '@mcp-funnel/schemas';
+import { matchesPattern } from './pattern-matcher.js';
+
+/**
+ * Override in effect for one tool, merged from all matching `toolOverrides` entries.
+ * @public
+ */
+export type ToolOverride = ToolOverrideZod;
+
+/**
+ * Merges all `toolOverrides` entries whose pattern matches a tool.
+ * Entries apply in config order; later entries override values of earlier ones.
+ * @param config - Proxy configuration
+ * @param fullName - Prefixed tool name
+ * @returns Merged override, or undefined when no entry matches
+ * @public
+ */
+export function resolveToolOverride(
+  config: ProxyConfig,
+  fullName: string,
+): ToolOverride | undefined {
+  let merged: ToolOverride | undefined;
+  for (const [pattern, override] of Object.entries(config.toolOverrides ?? {})) {
+    if (!matchesPattern(fullName, pattern)) continue;
+    merged = {
+      ...merged,
+      ...override,
+      pinArgs: { ...merged?.pinArgs, ...override.pinArgs },
+      defaultArgs: { ...merged?.defaultArgs, ...override.defaultArgs },
+      propertyDescriptions: { ...merged?.propertyDescriptions, ...override.propertyDescriptions },
+    };
+  }
+  return merged;
+}
+
+/**
+ * Adjusts a tool definition to an override: the description and property descriptions
+ * are replaced, pinned arguments are removed from the inputSchema, and defaulted
+ * arguments become optional and document their default.
+ * @param definition - Definition as listed by the backend
+ * @param override - Override of the tool
+ * @returns Definition exposed to clients; the input is not modified
+ * @public
+ */
+export function applyToolOverrideToDefinition(definition: Tool, override?: ToolOverride): Tool {
+  if (!override) return definition;
+
+  const pinned = Object.keys(override.pinArgs ?? {});
+  const defaults = override.defaultArgs ?? {};
+  const required = definition.inputSchema.required?.filter(
+    (name) => !pinned.includes(name) && !(name in defaults),
+  );
+
+  return {
+    ...definition,
+    ...(override.description !== undefined && { description: override.description }),
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: overrideProperties(definition.inputSchema.properties ?? {}, override),
+      ...(required && { required }),
+    },
+  };
+}
+
+/**
+ * @param source - inputSchema properties as listed by the backend
+ * @param override - Override of the tool
+ * @returns Properties without pinned arguments, with defaults and replaced descriptions
+ * @internal
+ */
+function overrideProperties(
+  source: Record<string, unknown>,
+  override: ToolOverride,
+): Record<string, unknown> {
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const [name, schema] of Object.entries(source)) {
+    if (override.pinArgs && name in override.pinArgs) continue;
+    properties[name] = { ...(schema as Record<string, unknown>) };
+  }
+
+  for (const [name, value] of Object.entries(override.defaultArgs ?? {})) {
+    if (properties[name]) properties[name].default = value;
+  }
+  for (const [name, description] of Object.entries(override.propertyDescriptions ?? {})) {
+    if (!properties[name]) continue;
+    if (description) {
+      properties[name].description = description;
+    } else {
+      delete properties[name].description;
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Applies an override to the arguments of a call.
+ * Defaults fill in missing arguments; pinned values always win over the caller's.
+ * @param args - Arguments sent by the caller
+ * @param override - Override of the tool
+ * @returns Arguments forwarded to the tool
+ * @public
+ */
+export function applyToolOverrideToArgs(
+  args: Record<string, unknown> | undefined,
+  override?: ToolOverride,
+): Record<string, unknown> | undefined {
+  if (!override) return args;
+  return { ...override.defaultArgs, ...args, ...override.pinArgs };
+}
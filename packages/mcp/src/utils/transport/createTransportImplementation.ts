@@ -1,6 +1,7 @@
 import type { TransportConfig } from '@mcp-funnel/models';
 import type { FactoryTransport } from '../../types/index.js';
 import {
+  ReplayClientTransport,
   SSEClientTransport,
   StdioClientTransport,
   StreamableHTTPClientTransport,
@@ -137,6 +138,29 @@ export function createStreamableHTTPTransport(
   );
 }
 
+/**
+ * Creates a replay transport that serves a recorded session fixture.
+ *
+ * Answers initialize, listTools, callTool and other requests from the recording,
+ * without starting or contacting a server.
+ * @param config - Replay transport configuration with the fixture path
+ * @param dependencies - Optional auth provider and token storage (unused for replay)
+ * @returns Wrapped replay transport instance
+ * @public
+ */
+export function createReplayTransport(
+  config: Extract<TransportConfig, { type: 'replay' }>,
+  dependencies?: TransportFactoryDependencies,
+): FactoryTransport {
+  return new TransportWrapper(
+    new ReplayClientTransport({ fixture: config.fixture }),
+    'replay',
+    config,
+    dependencies?.authProvider,
+    dependencies?.tokenStorage,
+  );
+}
+
 /**
  * Creates the appropriate transport implementation based on configuration type.
  *
@@ -161,6 +185,8 @@ export async function createTransportImplementation(
       return createWebSocketTransport(config, dependencies);
     case 'streamable-http':
       return createStreamableHTTPTransport(config, dependencies);
+    case 'replay':
+      return createReplayTransport(config, dependencies);
     default: {
       // Use exhaustive check to handle unknown transport types
       const _exhaustive: never = config;
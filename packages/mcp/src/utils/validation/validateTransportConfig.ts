@@ -1,4 +1,5 @@
 import type {
+  ReplayTransportConfig,
   SSETransportConfig,
   StdioTransportConfig,
   StreamableHTTPTransportConfig,
@@ -125,6 +126,18 @@ function validateStreamableHTTPConfig(config: StreamableHTTPTransportConfig): vo
   }
 }
 
+/**
+ * Validates replay transport configuration.
+ * @param config - Replay transport config
+ * @throws TransportError when fixture field is missing
+ * @internal
+ */
+function validateReplayConfig(config: ReplayTransportConfig): void {
+  if (!config.fixture) {
+    throw TransportError.protocolError('Fixture is required for replay transport');
+  }
+}
+
 /**
  * Validates transport configuration based on type.
  *
@@ -150,6 +163,9 @@ export function validateTransportConfig(config: TransportConfig): void {
     case 'streamable-http':
       validateStreamableHTTPConfig(config);
       break;
+    case 'replay':
+      validateReplayConfig(config);
+      break;
     default: {
       // Use exhaustive check to handle unknown transport types
       const _exhaustive: never = config;
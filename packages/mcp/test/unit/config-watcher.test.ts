@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { watchProxyConfig, type ConfigWatcher } from '../../src/config-watcher.js';
+
+describe('watchProxyConfig', () => {
+  let home: string;
+  let projectDir: string;
+  let projectConfig: string;
+  let watcher: ConfigWatcher | undefined;
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'mcpf-watch-home-'));
+    projectDir = mkdtempSync(join(tmpdir(), 'mcpf-watch-proj-'));
+    vi.stubEnv('MCP_FUNNEL_HOME', home);
+    projectConfig = join(projectDir, '.mcp-funnel.json');
+    writeFileSync(projectConfig, JSON.stringify({ servers: [] }));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    vi.unstubAllEnvs();
+    rmSync(home, { recursive: true, force: true });
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should pass the revalidated merged config on change', async () => {
+    writeFileSync(join(home, '.mcp-funnel.json'), JSON.stringify({ hideTools: ['x__*'] }));
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    watcher = watchProxyConfig(projectConfig, onChange, 20);
+
+    writeFileSync(
+      projectConfig,
+      JSON.stringify({ servers: [{ name: 'memory', command: 'mem' }], toolsets: { a: ['b'] } }),
+    );
+
+    await vi.waitFor(() =>
+      expect(onChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          servers: [{ name: 'memory', command: 'mem' }],
+          hideTools: ['x__*'],
+          toolsets: { a: ['b'] },
+        }),
+      ),
+    );
+  });
+
+  it('should ignore invalid edits', async () => {
+    const onChange = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    watcher = watchProxyConfig(projectConfig, onChange, 20);
+
+    writeFileSync(projectConfig, '{ "servers": [ ');
+    writeFileSync(join(projectDir, 'other.json'), '{}');
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring invalid configuration change'),
+    );
+  });
+});
@@ -44,6 +44,9 @@ vi.useFakeTimers();
 let mcpProxy: MCPProxy;
 let mockClient: {
   connect: ReturnType<typeof vi.fn>;
+  getServerCapabilities: ReturnType<typeof vi.fn>;
+  setNotificationHandler: ReturnType<typeof vi.fn>;
+  setRequestHandler: ReturnType<typeof vi.fn>;
   listTools: ReturnType<typeof vi.fn>;
   callTool: ReturnType<typeof vi.fn>;
 };
@@ -92,6 +95,9 @@ describe('MCPProxy Reconnection Logic - Automatic Reconnection', () => {
     // Create mock client
     mockClient = {
       connect: vi.fn().mockResolvedValue(undefined),
+      getServerCapabilities: vi.fn(),
+      setNotificationHandler: vi.fn(),
+      setRequestHandler: vi.fn(),
       listTools: vi.fn().mockResolvedValue({ tools: [] }),
       callTool: vi.fn(),
     };
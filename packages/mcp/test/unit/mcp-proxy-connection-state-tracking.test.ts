@@ -43,6 +43,9 @@ vi.useFakeTimers();
 let mcpProxy: MCPProxy;
 let mockClient: {
   connect: ReturnType<typeof vi.fn>;
+  getServerCapabilities: ReturnType<typeof vi.fn>;
+  setNotificationHandler: ReturnType<typeof vi.fn>;
+  setRequestHandler: ReturnType<typeof vi.fn>;
   listTools: ReturnType<typeof vi.fn>;
   callTool: ReturnType<typeof vi.fn>;
 };
@@ -88,6 +91,9 @@ describe('MCPProxy Reconnection Logic - Connection State Tracking', () => {
     // Create mock client
     mockClient = {
       connect: vi.fn().mockResolvedValue(undefined),
+      getServerCapabilities: vi.fn(),
+      setNotificationHandler: vi.fn(),
+      setRequestHandler: vi.fn(),
       listTools: vi.fn().mockResolvedValue({ tools: [] }),
       callTool: vi.fn(),
     };
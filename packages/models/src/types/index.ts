@@ -8,6 +8,7 @@ export type {
   WebSocketTransportConfig,
   ReconnectionConfig,
   StreamableHTTPTransportConfig,
+  ReplayTransportConfig,
   ConnectionStateChange,
 } from './transport.js';
 
@@ -16,6 +17,8 @@ export { ConnectionState } from './transport.js';
 // Server types
 export type {
   ServerStatus,
+  ServerCircuitStatus,
+  ServerReplicaStatus,
   ServerConnectedEventPayload,
   ServerDisconnectedEventPayload,
   ServerReconnectingEventPayload,
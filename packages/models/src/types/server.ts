@@ -8,6 +8,30 @@ export interface ServerStatus {
   status: 'connected' | 'disconnected' | 'error';
   connectedAt?: string;
   error?: string;
+  circuit?: ServerCircuitStatus;
+  replicas?: ServerReplicaStatus[];
+}
+
+/**
+ * Circuit breaker state of a server with health checks.
+ * An open circuit means the server is being reconnected after repeated failures.
+ */
+export interface ServerCircuitStatus {
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  lastFailure?: string;
+  openedAt?: string;
+}
+
+/**
+ * Connection state of one replica of a server with `replicas`.
+ * `endpoint` is the replica's URL, or its command for stdio replicas.
+ */
+export interface ServerReplicaStatus {
+  endpoint: string;
+  status: 'connecting' | 'connected' | 'disconnected';
+  inFlight: number;
+  error?: string;
 }
 
 /**
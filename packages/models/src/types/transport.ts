@@ -65,6 +65,14 @@ export interface StreamableHTTPTransportConfig {
   sessionId?: string;
 }
 
+/**
+ * Replay transport configuration: serves a recorded session fixture instead of a server
+ */
+export interface ReplayTransportConfig {
+  type: 'replay';
+  fixture: string;
+}
+
 /**
  * Discriminated union of all transport configuration types
  */
@@ -72,7 +80,8 @@ export type TransportConfig =
   | StdioTransportConfig
   | SSETransportConfig
   | WebSocketTransportConfig
-  | StreamableHTTPTransportConfig;
+  | StreamableHTTPTransportConfig
+  | ReplayTransportConfig;
 
 export enum ConnectionState {
   Disconnected = 'disconnected',
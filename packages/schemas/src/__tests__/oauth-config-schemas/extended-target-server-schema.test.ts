@@ -98,6 +98,20 @@ describe('ExtendedTargetServerSchema', () => {
         expect(result.transport.reconnect).toBeUndefined();
       }
     });
+
+    it('should accept replicas instead of a transport', () => {
+      const result = TargetServerSchema.parse({
+        name: 'search',
+        replicas: [
+          { type: 'streamable-http', url: 'http://search-1:8080/mcp' },
+          { type: 'streamable-http', url: 'http://search-2:8080/mcp' },
+        ],
+        loadBalancing: 'least-busy',
+      });
+
+      expect(result.replicas).toHaveLength(2);
+      expect(result.loadBalancing).toBe('least-busy');
+    });
   });
 
   describe('Combined configurations', () => {
@@ -182,7 +196,7 @@ describe('ExtendedTargetServerSchema', () => {
       };
 
       expect(() => TargetServerSchema.parse(invalidConfig)).toThrow(
-        "Server must have either 'command' or 'transport'",
+        "Server must have either 'command', 'transport' or 'replicas'",
       );
     });
 
@@ -192,7 +206,7 @@ describe('ExtendedTargetServerSchema', () => {
       };
 
       expect(() => TargetServerSchema.parse(emptyConfig)).toThrow(
-        "Server must have either 'command' or 'transport'",
+        "Server must have either 'command', 'transport' or 'replicas'",
       );
     });
 
@@ -228,6 +242,18 @@ describe('ExtendedTargetServerSchema', () => {
 
       expect(() => TargetServerSchema.parse(invalidAuthConfig)).toThrow();
     });
+
+    it('should reject replicas combined with a transport', () => {
+      const combinedConfig = {
+        name: 'search',
+        transport: { type: 'sse', url: 'http://search-1:8080/sse' },
+        replicas: [{ type: 'sse', url: 'http://search-2:8080/sse' }],
+      };
+
+      expect(() => TargetServerSchema.parse(combinedConfig)).toThrow(
+        "Server can't combine 'replicas' with 'command' or 'transport'",
+      );
+    });
   });
 
   describe('Edge cases', () => {
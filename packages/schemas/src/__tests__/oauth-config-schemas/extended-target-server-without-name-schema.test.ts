@@ -40,7 +40,7 @@ describe('ExtendedTargetServerWithoutNameSchema', () => {
     };
 
     expect(() => TargetServerWithoutNameSchema.parse(invalidConfig)).toThrow(
-      "Server must have either 'command' or 'transport'",
+      "Server must have either 'command', 'transport' or 'replicas'",
     );
   });
 });
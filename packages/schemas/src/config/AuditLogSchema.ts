@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// JSONL record of every tool call; `true` uses the defaults, `false` turns it off
+export const AuditLogSchema = z.union([
+  z.boolean(),
+  z.object({
+    // Log file, relative to the config file (default ~/.mcp-funnel/audit/tool-calls.jsonl)
+    path: z.string().optional(),
+    // Captured arguments and result text are cut to this many characters (default 2000)
+    maxFieldChars: z.number().int().nonnegative().optional(),
+    // Record the result text, not only its size and error flag (default true)
+    captureResults: z.boolean().optional(),
+    // The file is rotated once it would grow beyond this size (default 10 MB)
+    maxFileBytes: z.number().int().positive().optional(),
+    // Rotated files kept next to the log, as tool-calls.jsonl.1, .2, ... (default 5)
+    maxFiles: z.number().int().nonnegative().optional(),
+    // Additional argument keys whose values are redacted, matched against whole words of a key
+    redactKeys: z.array(z.string()).optional(),
+  }),
+]);
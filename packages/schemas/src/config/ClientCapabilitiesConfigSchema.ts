@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+// Per-server allow/deny for client capabilities the proxy forwards to the upstream client.
+// Omitted entries are allowed; `false` never advertises the capability to that server.
+export const ClientCapabilitiesConfigSchema = z.object({
+  sampling: z.boolean().optional(),
+  elicitation: z.boolean().optional(),
+  roots: z.boolean().optional(),
+});
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// An input of a composite tool; becomes a property of its inputSchema
+export const CompositeToolInputSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'object', 'array']).optional(),
+  description: z.string().optional(),
+  // Inputs are required unless this is false or a default is given
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+});
+
+// One call of a composite tool. String values in args may contain templates such as
+// "{{inputs.issue}}" or "{{steps.issue.json.title}}"
+export const CompositeToolStepSchema = z.object({
+  // Name under which later steps refer to this step's result (default "step1", "step2", ...)
+  id: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]+$/)
+    .optional(),
+  // Prefixed name of the tool to call, e.g. "github__get_issue"
+  tool: z.string().min(1),
+  args: z.record(z.string(), z.unknown()).optional(),
+});
+
+// A virtual tool exposed as "funnel__<name>" that runs its steps inside the proxy
+export const CompositeToolSchema = z.object({
+  description: z.string(),
+  inputs: z.record(z.string(), CompositeToolInputSchema).optional(),
+  steps: z.array(CompositeToolStepSchema).min(1),
+  // Template for the text result; defaults to the result of the last step
+  output: z.string().optional(),
+});
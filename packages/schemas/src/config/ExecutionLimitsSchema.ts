@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Limits applied to tool calls, per server or per tool-name pattern
+export const ExecutionLimitsSchema = z.object({
+  // Cancel the backend request after this many milliseconds
+  timeoutMs: z.number().int().positive().optional(),
+  // Calls allowed to run at the same time
+  maxConcurrent: z.number().int().positive().optional(),
+  // Calls allowed to wait for a free slot; further calls are rejected
+  maxQueued: z.number().int().nonnegative().optional(),
+});
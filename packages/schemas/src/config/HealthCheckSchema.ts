@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// MCP ping probes and circuit breaker of a server; `true` uses the defaults
+export const HealthCheckSchema = z.union([
+  z.boolean(),
+  z.object({
+    // Milliseconds between pings (default 30000)
+    intervalMs: z.number().int().positive().optional(),
+    // A ping not answered within this many milliseconds fails (default 5000)
+    timeoutMs: z.number().int().positive().optional(),
+    // Consecutive failed pings or tool calls that open the circuit (default 3)
+    failureThreshold: z.number().int().positive().optional(),
+  }),
+]);
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+
+// How tool calls are spread over a server's replicas
+export const LoadBalancingSchema = z.enum(['round-robin', 'least-busy']);
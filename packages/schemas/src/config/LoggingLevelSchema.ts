@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// MCP logging levels (RFC 5424 severities), least to most severe
+export const LoggingLevelSchema = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]);
@@ -2,6 +2,12 @@ import { z } from 'zod';
 import { TargetServerSchema } from './TargetServerSchema.js';
 import { TargetServerWithoutNameSchema } from './TargetServerWithoutNameSchema.js';
 import { SecretProviderConfigSchema } from './SecretProviders.js';
+import { ExecutionLimitsSchema } from './ExecutionLimitsSchema.js';
+import { ToolOverrideSchema } from './ToolOverrideSchema.js';
+import { SchemaCompactionSchema } from './SchemaCompactionSchema.js';
+import { CompositeToolSchema } from './CompositeToolSchema.js';
+import { AuditLogSchema } from './AuditLogSchema.js';
+import { ToolEvictionSchema } from './ToolEvictionSchema.js';
 
 export const ProxyConfigSchema = z.object({
   servers: z.union([
@@ -13,6 +19,38 @@ export const ProxyConfigSchema = z.object({
   hideTools: z.array(z.string()).optional(),
   exposeCoreTools: z.array(z.string()).optional(),
   toolsets: z.record(z.string(), z.array(z.string())).optional(),
+  // Limit on dynamically enabled tools; the least recently called ones are disabled first
+  toolEviction: ToolEvictionSchema.optional(),
+  // Timeout and concurrency limits keyed by tool pattern ("github__search_*"); the first
+  // matching pattern wins over the server's own limits, and its slots are shared by all matches
+  toolLimits: z.record(z.string(), ExecutionLimitsSchema).optional(),
+  // Pinned arguments and argument defaults keyed by tool pattern ("github__*"); all matching
+  // entries apply in order, later ones overriding values of earlier ones
+  toolOverrides: z.record(z.string(), ToolOverrideSchema).optional(),
+  // Strip examples/titles, inline $refs and shorten descriptions of exposed tool schemas;
+  // get_tool_schema still returns the full schema
+  compactSchemas: SchemaCompactionSchema.optional(),
+  // Default size limit for text results of tools/call and bridge_tool_request, in characters;
+  // toolOverrides can set maxResultChars per tool
+  maxResultChars: z.number().int().positive().optional(),
+  // How long truncated results stay readable via read_tool_result (default 600000 = 10 minutes)
+  storedResultTtlMs: z.number().int().positive().optional(),
+  // Virtual tools exposed as "funnel__<name>" that chain calls to other tools
+  compositeTools: z.record(z.string().regex(/^[A-Za-z0-9_-]+$/), CompositeToolSchema).optional(),
+  // Append one JSONL record per tool call, with secrets redacted; query with `mcp-funnel audit`
+  auditLog: AuditLogSchema.optional(),
+  // Record each backend session to "<dir>/<server>.jsonl" for replay; relative to the config file
+  recordSessions: z.string().min(1).optional(),
+  // Close Streamable HTTP client sessions after this many milliseconds without requests (default 1800000)
+  sessionIdleTimeoutMs: z.number().int().positive().optional(),
+  // Local modules exporting tool call middleware, resolved relative to the config file
+  middleware: z.array(z.string()).optional(),
+  // Resource filtering - patterns match against "serverName__resourceName"
+  exposeResources: z.array(z.string()).optional(),
+  hideResources: z.array(z.string()).optional(),
+  // Prompt filtering - patterns match against prefixed prompt names ("serverName__promptName")
+  exposePrompts: z.array(z.string()).optional(),
+  hidePrompts: z.array(z.string()).optional(),
   // Registry URLs for MCP server discovery
   registries: z.array(z.string()).optional(),
   registrySettings: z
@@ -23,6 +61,9 @@ export const ProxyConfigSchema = z.object({
   // If true, bridge_tool_request may resolve unprefixed tool names to a unique
   // fully-prefixed match (e.g., "echo" -> "mockserver__echo"). Defaults to false.
   allowShortToolNames: z.boolean().optional(),
+  // If true, each server's tool list is cached on disk and registered at startup while
+  // the servers connect; live listings are reconciled against it. Defaults to false.
+  cacheToolManifests: z.boolean().optional(),
   commands: z
     .object({
       enabled: z.boolean().default(false),
@@ -52,6 +93,12 @@ export const ProxyConfigSchema = z.object({
       backoffMultiplier: z.number().default(2),
       maxDelayMs: z.number().default(60000),
       jitter: z.number().default(0.25),
+      // Tools of a reconnecting server stay registered as unavailable; hide them from
+      // tools/list until it is back instead of listing them
+      hideUnavailableTools: z.boolean().optional(),
+      // Hold calls to unavailable tools for up to this many milliseconds, waiting for the
+      // server to return; 0 (default) fails them right away with a "retry in N s" error
+      queueCallsMs: z.number().int().nonnegative().optional(),
     })
     .optional(),
 });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const ReplayTransportConfigSchema = z.object({
+  type: z.literal('replay'),
+  // Session fixture recorded with `recordSessions`, relative to the config file
+  fixture: z.string().min(1),
+});
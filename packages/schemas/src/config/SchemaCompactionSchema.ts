@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Compaction of exposed tool schemas; `true` uses the defaults, `false` turns it off
+export const SchemaCompactionSchema = z.union([
+  z.boolean(),
+  z.object({
+    // Tool and property descriptions are shortened to this many characters (default 200)
+    maxDescriptionLength: z.number().int().positive().optional(),
+  }),
+]);
@@ -1,6 +1,12 @@
 import { z } from 'zod';
 import { TransportConfigSchema } from './TransportConfigSchema.js';
 import { AuthConfigSchema } from './AuthConfigSchema.js';
+import { ClientCapabilitiesConfigSchema } from './ClientCapabilitiesConfigSchema.js';
+import { LoggingLevelSchema } from './LoggingLevelSchema.js';
+import { ExecutionLimitsSchema } from './ExecutionLimitsSchema.js';
+import { SchemaCompactionSchema } from './SchemaCompactionSchema.js';
+import { HealthCheckSchema } from './HealthCheckSchema.js';
+import { LoadBalancingSchema } from './LoadBalancingSchema.js';
 import { SecretProviderConfigSchema } from './SecretProviders.js';
 
 // Extended target server without name (for record format)
@@ -12,7 +18,29 @@ export const TargetServerWithoutNameSchema = z
     transport: TransportConfigSchema.optional(),
     auth: AuthConfigSchema.optional(),
     secretProviders: z.array(SecretProviderConfigSchema).optional(),
+    clientCapabilities: ClientCapabilitiesConfigSchema.optional(),
+    // Overrides the log level requested by the upstream client for this server
+    logLevel: LoggingLevelSchema.optional(),
+    // Start the server on first tool use instead of at startup, serving a cached manifest
+    lazy: z.boolean().optional(),
+    // Shut a lazy server down again after this many milliseconds without tool calls
+    idleTimeoutMs: z.number().int().positive().optional(),
+    // Timeout and concurrency limits for calls to this server's tools
+    ...ExecutionLimitsSchema.shape,
+    // Overrides the global compactSchemas setting for this server's tools
+    compactSchemas: SchemaCompactionSchema.optional(),
+    // Ping the server periodically; reconnect it when pings or tool calls keep failing
+    healthCheck: HealthCheckSchema.optional(),
+    // Interchangeable endpoints serving the same tools, used instead of command/transport
+    replicas: z.array(TransportConfigSchema).min(1).optional(),
+    // Routing of calls over the replicas (default round-robin)
+    loadBalancing: LoadBalancingSchema.optional(),
+    // Group labels; `@tag` in tool patterns and toolsets selects the tools of tagged servers
+    tags: z.array(z.string()).optional(),
   })
-  .refine((data) => data.command || data.transport, {
-    message: "Server must have either 'command' or 'transport'",
+  .refine((data) => data.command || data.transport || data.replicas, {
+    message: "Server must have either 'command', 'transport' or 'replicas'",
+  })
+  .refine((data) => !data.replicas || !(data.command || data.transport), {
+    message: "Server can't combine 'replicas' with 'command' or 'transport'",
   });
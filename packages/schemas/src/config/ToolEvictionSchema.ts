@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Cap on tools enabled via discovery, toolsets or bridge_tool_request; when exceeded, the least
+// recently called of them are disabled again
+export const ToolEvictionSchema = z
+  .object({
+    // Maximum number of dynamically enabled tools
+    maxTools: z.number().int().positive().optional(),
+    // Maximum estimated tokens of their exposed definitions (characters / 4)
+    maxTokens: z.number().int().positive().optional(),
+  })
+  .refine((data) => data.maxTools !== undefined || data.maxTokens !== undefined, {
+    message: "Tool eviction needs 'maxTools' or 'maxTokens'",
+  });
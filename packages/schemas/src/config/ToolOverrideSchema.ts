@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+// Per-tool adjustments applied by the proxy, keyed by prefixed tool name or pattern
+export const ToolOverrideSchema = z.object({
+  // Argument values always sent to the tool; the properties are removed from the exposed inputSchema
+  pinArgs: z.record(z.string(), z.unknown()).optional(),
+  // Values sent for arguments the caller leaves out; shown as `default` in the inputSchema
+  defaultArgs: z.record(z.string(), z.unknown()).optional(),
+  // Name the tool is exposed under instead of "server__tool"; calls still reach the original tool
+  alias: z.string().min(1).optional(),
+  // Replaces the tool description
+  description: z.string().optional(),
+  // Replaces inputSchema property descriptions; an empty string removes the description
+  propertyDescriptions: z.record(z.string(), z.string()).optional(),
+  // Text results longer than this are truncated; the rest stays readable via read_tool_result
+  maxResultChars: z.number().int().positive().optional(),
+});
@@ -3,10 +3,12 @@ import { StdioTransportConfigSchema } from './StdioTransportConfigSchema.js';
 import { SSETransportConfigSchema } from './SSETransportConfigSchema.js';
 import { WebSocketTransportConfigSchema } from './WebSocketTransportConfigSchema.js';
 import { StreamableHTTPTransportConfigSchema } from './StreamableHTTPTransportConfigSchema.js';
+import { ReplayTransportConfigSchema } from './ReplayTransportConfigSchema.js';
 
 export const TransportConfigSchema = z.discriminatedUnion('type', [
   StdioTransportConfigSchema,
   SSETransportConfigSchema,
   WebSocketTransportConfigSchema,
   StreamableHTTPTransportConfigSchema,
+  ReplayTransportConfigSchema,
 ]);
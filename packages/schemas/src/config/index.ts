@@ -3,23 +3,53 @@ import { z } from 'zod';
 import type { TargetServerSchema } from './TargetServerSchema.js';
 import type { TargetServerWithoutNameSchema } from './TargetServerWithoutNameSchema.js';
 import type { AuthConfigSchema } from './AuthConfigSchema.js';
+import type { ClientCapabilitiesConfigSchema } from './ClientCapabilitiesConfigSchema.js';
+import type { ExecutionLimitsSchema } from './ExecutionLimitsSchema.js';
+import type { ToolOverrideSchema } from './ToolOverrideSchema.js';
+import type { SchemaCompactionSchema } from './SchemaCompactionSchema.js';
+import type { CompositeToolSchema } from './CompositeToolSchema.js';
+import type { AuditLogSchema } from './AuditLogSchema.js';
+import type { HealthCheckSchema } from './HealthCheckSchema.js';
+import type { LoadBalancingSchema } from './LoadBalancingSchema.js';
+import type { ToolEvictionSchema } from './ToolEvictionSchema.js';
 import type { StdioTransportConfigSchema } from './StdioTransportConfigSchema.js';
 import type { SSETransportConfigSchema } from './SSETransportConfigSchema.js';
 import type { WebSocketTransportConfigSchema } from './WebSocketTransportConfigSchema.js';
+import type { ReplayTransportConfigSchema } from './ReplayTransportConfigSchema.js';
 
 export { TargetServerSchema } from './TargetServerSchema.js';
 export { ProxyConfigSchema } from './ProxyConfigSchema.js';
 export { SecretProviderConfigSchema } from './SecretProviders.js';
 export { BearerAuthConfigSchema } from './BearerAuthConfigSchema.js';
 export { NoAuthConfigSchema } from './NoAuthConfigSchema.js';
+export { ClientCapabilitiesConfigSchema } from './ClientCapabilitiesConfigSchema.js';
+export { LoggingLevelSchema } from './LoggingLevelSchema.js';
+export { ExecutionLimitsSchema } from './ExecutionLimitsSchema.js';
+export { ToolOverrideSchema } from './ToolOverrideSchema.js';
+export { SchemaCompactionSchema } from './SchemaCompactionSchema.js';
+export { CompositeToolSchema } from './CompositeToolSchema.js';
+export { AuditLogSchema } from './AuditLogSchema.js';
+export { HealthCheckSchema } from './HealthCheckSchema.js';
+export { LoadBalancingSchema } from './LoadBalancingSchema.js';
+export { ToolEvictionSchema } from './ToolEvictionSchema.js';
 
 export type TargetServerWithoutName = z.infer<typeof TargetServerWithoutNameSchema>;
 export type ServersRecord = Record<string, TargetServerWithoutName>;
 export type ExtendedServersRecord = Record<string, TargetServerWithoutNameZod>;
 
 export type AuthConfigZod = z.infer<typeof AuthConfigSchema>;
+export type ClientCapabilitiesConfigZod = z.infer<typeof ClientCapabilitiesConfigSchema>;
+export type ExecutionLimitsZod = z.infer<typeof ExecutionLimitsSchema>;
+export type ToolOverrideZod = z.infer<typeof ToolOverrideSchema>;
+export type SchemaCompactionZod = z.infer<typeof SchemaCompactionSchema>;
+export type CompositeToolZod = z.infer<typeof CompositeToolSchema>;
+export type AuditLogZod = z.infer<typeof AuditLogSchema>;
+export type HealthCheckZod = z.infer<typeof HealthCheckSchema>;
+export type LoadBalancingZod = z.infer<typeof LoadBalancingSchema>;
+export type ToolEvictionZod = z.infer<typeof ToolEvictionSchema>;
 export type StdioTransportConfigZod = z.infer<typeof StdioTransportConfigSchema>;
 export type SSETransportConfigZod = z.infer<typeof SSETransportConfigSchema>;
 export type WebSocketTransportConfigZod = z.infer<typeof WebSocketTransportConfigSchema>;
+export type ReplayTransportConfigZod = z.infer<typeof ReplayTransportConfigSchema>;
 export type TargetServerZod = z.infer<typeof TargetServerSchema>;
 export type TargetServerWithoutNameZod = z.infer<typeof TargetServerWithoutNameSchema>;
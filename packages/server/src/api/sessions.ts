@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import type { MCPProxy } from 'mcp-funnel';
+
+type Variables = {
+  mcpProxy: MCPProxy;
+};
+
+export const sessionsRoute = new Hono<{ Variables: Variables }>();
+
+sessionsRoute.get('/', (c) => {
+  const mcpProxy = c.get('mcpProxy');
+  return c.json({ sessions: mcpProxy.sessions.list() });
+});
+
+sessionsRoute.delete('/:id', async (c) => {
+  const { id } = c.req.param();
+  const mcpProxy = c.get('mcpProxy');
+
+  try {
+    if (!(await mcpProxy.sessions.close(id))) {
+      return c.json(
+        {
+          error: 'Session not found',
+          message: `Session '${id}' is not open`,
+        },
+        404,
+      );
+    }
+
+    return c.json({
+      success: true,
+      message: `Closed session ${id}`,
+    });
+  } catch (error) {
+    return c.json(
+      {
+        success: false,
+        error: 'Failed to close session',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500,
+    );
+  }
+});
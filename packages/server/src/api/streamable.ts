@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { type HttpBindings } from '@hono/node-server';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { randomUUID } from 'node:crypto';
 import type { MCPProxy } from 'mcp-funnel';
 
@@ -13,7 +14,7 @@ type Bindings = HttpBindings;
 /**
  * Hono router for MCP Streamable HTTP transport endpoints.
  * @public
- * @see file:./streamable.ts:123 - Route handler implementation
+ * @see file:./streamable.ts:124 - Route handler implementation
  */
 export const streamableRoute = new Hono<{
   Variables: Variables;
@@ -21,111 +22,100 @@ export const streamableRoute = new Hono<{
 }>();
 
 /**
- * Internal bridge state connecting StreamableHTTP transport to MCPProxy.
+ * Transports of open sessions by session ID. Each is connected to the MCP server of
+ * its MCPProxy session and removed again when that session closes.
  * @internal
  */
-interface StreamableHTTPBridge {
-  transport: StreamableHTTPServerTransport;
-  mcpProxy: MCPProxy;
-  isConnected: boolean;
-}
-
-let globalStreamableBridge: StreamableHTTPBridge | null = null;
-let initializationPromise: Promise<StreamableHTTPBridge> | null = null;
+const sessionTransports = new Map<string, StreamableHTTPServerTransport>();
 
 /**
- * Initializes and connects StreamableHTTP transport to MCPProxy server.
+ * Opens an MCPProxy session for a new client and connects a transport to its server.
  *
- * Returns existing bridge if already connected. Uses promise-based locking
- * to prevent race conditions during concurrent initialization attempts.
- * @param mcpProxy - MCPProxy instance to connect transport to
- * @returns Promise resolving to connected bridge instance
- * @throws When transport connection fails (e.g., another transport already connected)
+ * Every session gets its own MCP server and dynamically enabled tools, sharing the
+ * proxy's backend connections. The session ends on a DELETE from the client, or when
+ * MCPProxy closes it after `sessionIdleTimeoutMs` without requests.
+ * @param mcpProxy - MCPProxy instance serving the session
+ * @returns Transport to handle the client's initialize request with
  * @internal
  */
-async function initializeStreamableBridge(mcpProxy: MCPProxy): Promise<StreamableHTTPBridge> {
-  // Return existing bridge if connected
-  if (globalStreamableBridge && globalStreamableBridge.isConnected) {
-    return globalStreamableBridge;
-  }
-
-  // Prevent race conditions - if already initializing, wait for that
-  if (initializationPromise) {
-    return initializationPromise;
-  }
-
-  // Start initialization with race condition protection
-  initializationPromise = (async () => {
-    try {
-      // The MCPProxy in web server mode is initialized but NOT started with any transport,
-      // which is perfect - we can connect StreamableHTTP without conflicts.
-      // If using MCPProxy standalone, it should be started with { transport: "streamable-http" }
-      // option to prevent stdio from being connected.
-
-      // Create the StreamableHTTP transport
-      const transport = new StreamableHTTPServerTransport({
-        // Generate secure session IDs for stateful connections
-        sessionIdGenerator: () => randomUUID(),
-
-        // Session lifecycle callbacks
-        onsessioninitialized: async (sessionId: string) => {
-          console.info(`StreamableHTTP session initialized: ${sessionId}`);
-        },
-
-        onsessionclosed: async (sessionId: string) => {
-          console.info(`StreamableHTTP session closed: ${sessionId}`);
-        },
+async function openSession(mcpProxy: MCPProxy): Promise<StreamableHTTPServerTransport> {
+  const sessionId = randomUUID();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+
+    // Session lifecycle callbacks
+    onsessioninitialized: async (id: string) => {
+      console.info(`StreamableHTTP session initialized: ${id}`);
+    },
 
-        // Prefer SSE streaming over JSON responses for better real-time experience
-        enableJsonResponse: false,
+    onsessionclosed: async (id: string) => {
+      console.info(`StreamableHTTP session closed: ${id}`);
+    },
 
-        // DNS rebinding protection - allow localhost and any host for development
-        // In production, this should be configured with specific allowed hosts
-        allowedHosts: ['localhost', '127.0.0.1', '0.0.0.0'],
-        allowedOrigins: ['http://localhost:3456', 'https://localhost:3456'],
-        enableDnsRebindingProtection: false, // Disabled for development, enable in production
-      });
+    // Prefer SSE streaming over JSON responses for better real-time experience
+    enableJsonResponse: false,
 
-      try {
-        // Connect the StreamableHTTP transport to the MCPProxy's existing server
-        // This gives StreamableHTTP clients full access to all MCPProxy tools and functionality
-        // NOTE: MCP SDK likely only supports one transport at a time. If this fails,
-        // it might be because another transport is already connected.
-        await mcpProxy.server.connect(transport);
+    // DNS rebinding protection - allow localhost and any host for development
+    // In production, this should be configured with specific allowed hosts
+    allowedHosts: ['localhost', '127.0.0.1', '0.0.0.0'],
+    allowedOrigins: ['http://localhost:3456', 'https://localhost:3456'],
+    enableDnsRebindingProtection: false, // Disabled for development, enable in production
+  });
 
-        console.info('StreamableHTTP transport connected to MCPProxy server');
+  // Set before connecting: the server chains its own close handling after this one
+  transport.onclose = () => {
+    sessionTransports.delete(sessionId);
+  };
+  sessionTransports.set(sessionId, transport);
 
-        const bridge: StreamableHTTPBridge = {
-          transport,
-          mcpProxy,
-          isConnected: true,
-        };
+  try {
+    await mcpProxy.sessions.open(sessionId).server.connect(transport);
+  } catch (error) {
+    sessionTransports.delete(sessionId);
+    await mcpProxy.sessions.close(sessionId);
+    throw error;
+  }
+  return transport;
+}
 
-        globalStreamableBridge = bridge;
-        return bridge;
-      } catch (error) {
-        console.error('Failed to create StreamableHTTP bridge:', error);
-        // If connection fails, it might be because stdio is already connected
-        // Make sure MCPProxy is started with { transport: "streamable-http" } option
-        throw error;
-      }
-    } finally {
-      // Clear the promise to allow retry on failure
-      initializationPromise = null;
+/**
+ * Finds the transport for a request.
+ * @param mcpProxy - MCPProxy instance
+ * @param sessionId - Value of the `Mcp-Session-Id` header
+ * @param body - Parsed POST body
+ * @returns The session's transport, a new session's transport for an initialize
+ *   request, or an HTTP status with a JSON-RPC error message
+ * @internal
+ */
+async function resolveTransport(
+  mcpProxy: MCPProxy,
+  sessionId: string | undefined,
+  body: unknown,
+): Promise<StreamableHTTPServerTransport | { status: 400 | 404; message: string }> {
+  if (sessionId) {
+    const transport = sessionTransports.get(sessionId);
+    if (!transport || !mcpProxy.sessions.touch(sessionId)) {
+      return { status: 404, message: 'Session not found' };
     }
-  })();
-
-  return initializationPromise;
+    return transport;
+  }
+  if (isInitializeRequest(body)) {
+    return openSession(mcpProxy);
+  }
+  return { status: 400, message: 'Bad Request: No valid session ID provided' };
 }
 
 /**
  * MCP protocol endpoint supporting GET (SSE streams), POST (JSON-RPC), and DELETE (session termination).
  *
- * Exposes the MCPProxy server via MCP Streamable HTTP transport protocol:
+ * Exposes MCPProxy via MCP Streamable HTTP transport protocol:
  * - GET: Establishes SSE stream for bidirectional real-time communication
  * - POST: Sends JSON-RPC messages to invoke MCP tools
  * - DELETE: Terminates active sessions
  *
+ * A POST with an initialize request and no `Mcp-Session-Id` header opens a new session;
+ * all other requests must carry the ID of an open session.
+ *
  * The handler intercepts response writes for debugging and properly bridges
  * between Hono's request/response model and Node.js IncomingMessage/ServerResponse
  * required by the MCP SDK transport.
@@ -135,9 +125,6 @@ streamableRoute.all('/mcp', async (c) => {
   const mcpProxy = c.get('mcpProxy');
 
   try {
-    // Get or initialize the StreamableHTTP bridge
-    const bridge = await initializeStreamableBridge(mcpProxy);
-
     // Convert Hono request/response to Node.js format for SDK compatibility
     const nodeReq = c.env.incoming;
     const nodeRes = c.env.outgoing;
@@ -154,6 +141,14 @@ streamableRoute.all('/mcp', async (c) => {
       }
     }
 
+    const transport = await resolveTransport(mcpProxy, c.req.header('mcp-session-id'), parsedBody);
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      return c.json(
+        { jsonrpc: '2.0', error: { code: -32000, message: transport.message }, id: null },
+        transport.status,
+      );
+    }
+
     // Intercept response writes to log what's being sent
     const originalWrite = nodeRes.write.bind(nodeRes);
 
@@ -187,24 +182,14 @@ streamableRoute.all('/mcp', async (c) => {
         console.error('Failed to parse response body:', error);
       } finally {
         nodeRes.off('finish', handleFinish);
-        nodeReq.off('close', handleClose);
       }
     };
 
-    const handleClose = () => {
-      console.info('StreamableHTTP connection closed');
-      bridge.transport.close().then(() => {
-        console.info('transport closed');
-        bridge.isConnected = false;
-      });
-    };
-
     nodeRes.on('finish', handleFinish);
-    nodeReq.on('close', handleClose);
 
-    // Handle the request using the StreamableHTTP transport
+    // Handle the request using the session's transport
     // The transport will directly write to nodeRes
-    await bridge.transport.handleRequest(nodeReq, nodeRes, parsedBody);
+    await transport.handleRequest(nodeReq, nodeRes, parsedBody);
 
     c.res = undefined; // Prevent Hono from sending its own response
     // Return an empty Response that Hono will ignore since headers are already sent
@@ -251,7 +236,8 @@ streamableRoute.get('/health', (c) => {
       },
       authentication:
         'Compatible with existing auth middleware - auth info can be passed via request headers',
-      sessionManagement: 'Stateful with UUID-based session IDs',
+      sessionManagement:
+        'Stateful with UUID-based session IDs; each session has its own MCP server and enabled tools',
     },
   });
 });
@@ -71,18 +71,12 @@ toolsRoute.post('/:name/execute', zValidator('json', ExecuteToolBodySchema), asy
 
     const startTime = Date.now();
 
-    // Execute tool through MCP proxy
-    const mapping = mcpProxy.toolMapping.get(name);
-    if (!mapping) {
+    // Execute tool through MCP proxy, including limits and middleware
+    if (!mcpProxy.registry.getToolState(name)?.discovered) {
       return c.json({ error: `Tool not found: ${name}` }, 404);
     }
 
-    if (!mapping.client) throw new Error(`No mapping client found for tool: ${name}`);
-
-    const result = await mapping.client.callTool({
-      name: mapping.originalName,
-      arguments: body.arguments,
-    });
+    const result = await mcpProxy.callTool(name, body.arguments, c.req.raw.signal);
 
     const duration = Date.now() - startTime;
 
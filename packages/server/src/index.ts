@@ -2,9 +2,9 @@
  * MCP Funnel web server providing HTTP/WebSocket/SSE APIs for MCPProxy.
  *
  * Exposes multiple transport protocols:
- * - REST API: Server and tool management endpoints
+ * - REST API: Server, tool and session management endpoints
  * - WebSocket: Real-time bidirectional communication
- * - Streamable HTTP: MCP protocol SSE transport
+ * - Streamable HTTP: MCP protocol SSE transport, one session per client
  * - OAuth: Authentication flow endpoints
  *
  * Security: Mandatory authentication by default. All API routes protected
@@ -25,6 +25,7 @@ import { toolsRoute } from './api/tools.js';
 import { configRoute } from './api/config.js';
 import { oauthRoute } from './api/oauth.js';
 import { streamableRoute } from './api/streamable.js';
+import { sessionsRoute } from './api/sessions.js';
 import { WebSocketManager } from './ws/manager.js';
 import type { MCPProxy } from 'mcp-funnel';
 import { appRoute } from './app/index.js';
@@ -130,6 +131,7 @@ async function createHonoApp(
   app.route('/api/config', configRoute);
   app.route('/api/oauth', oauthRoute);
   app.route('/api/streamable', streamableRoute);
+  app.route('/api/sessions', sessionsRoute);
   app.route('/app', appRoute);
 
   // Health check endpoint
@@ -231,7 +233,7 @@ async function handleWebSocketAuth(
  * Sets up Hono application with:
  * - CORS and request logging middleware
  * - Authentication middleware on all /api/* routes
- * - REST API routes for servers, tools, config
+ * - REST API routes for servers, tools, config and sessions
  * - WebSocket endpoint at /ws with auth validation
  * - Streamable HTTP transport at /api/streamable/mcp
  * - Optional static file serving
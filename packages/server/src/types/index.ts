@@ -6,6 +6,24 @@ export const ServerStatusSchema = z.object({
   status: z.enum(['connected', 'disconnected', 'error']),
   connectedAt: z.string().datetime().optional(),
   error: z.string().optional(),
+  circuit: z
+    .object({
+      state: z.enum(['closed', 'open', 'half-open']),
+      consecutiveFailures: z.number(),
+      lastFailure: z.string().optional(),
+      openedAt: z.string().datetime().optional(),
+    })
+    .optional(),
+  replicas: z
+    .array(
+      z.object({
+        endpoint: z.string(),
+        status: z.enum(['connecting', 'connected', 'disconnected']),
+        inFlight: z.number(),
+        error: z.string().optional(),
+      }),
+    )
+    .optional(),
 }) satisfies z.ZodType<ServerStatus>;
 
 export const ToolSchema = z.object({
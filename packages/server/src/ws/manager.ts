@@ -100,17 +100,7 @@ export class WebSocketManager {
     });
 
     try {
-      const mapping = this.mcpProxy.toolMapping.get(payload.toolName);
-      if (!mapping) {
-        throw new Error(`Tool not found: ${payload.toolName}`);
-      }
-
-      if (!mapping.client) throw new Error(`No mapping client found for tool: ${payload.toolName}`);
-
-      const result = await mapping.client.callTool({
-        name: mapping.originalName,
-        arguments: payload.arguments,
-      });
+      const result = await this.mcpProxy.callTool(payload.toolName, payload.arguments);
 
       // Send result event
       this.broadcast({
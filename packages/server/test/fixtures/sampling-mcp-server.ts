@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * MCP server whose `ask` tool asks the client for a completion via sampling/createMessage.
+ * Used to test forwarding of backend requests through the funnel.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server({ name: 'sampler', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: 'ask',
+      description: 'Answers a question using the client model',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          delayMs: { type: 'number', description: 'Wait before asking the client' },
+        },
+        required: ['question'],
+      },
+    },
+  ],
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const question = String(request.params.arguments?.question);
+  await new Promise((resolve) =>
+    setTimeout(resolve, Number(request.params.arguments?.delayMs ?? 0)),
+  );
+  const result = await server.createMessage({
+    messages: [{ role: 'user', content: { type: 'text', text: question } }],
+    maxTokens: 50,
+  });
+  const text = result.content.type === 'text' ? result.content.text : '';
+  return { content: [{ type: 'text', text }] };
+});
+
+/** Starts the server with stdio transport */
+async function main() {
+  await server.connect(new StdioServerTransport());
+  console.error('sampler connected and ready');
+}
+
+main().catch((error) => {
+  console.error('sampler fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import type { ServerType } from '@hono/node-server';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  CreateMessageRequestSchema,
+  type CreateMessageResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPProxy } from 'mcp-funnel';
+import { startWebServer } from '../../src/index.js';
+import { closeServer } from './auth-integration/test-utils.js';
+
+describe('Streamable HTTP sessions', () => {
+  let server: ServerType | null = null;
+  let proxy: MCPProxy;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    proxy = new MCPProxy({
+      // Only connected by tests calling proxy.initialize()
+      servers: [
+        {
+          name: 'sampler',
+          command: 'tsx',
+          args: [path.join(__dirname, '../fixtures/sampling-mcp-server.ts')],
+        },
+      ],
+      exposeTools: ['sampler__ask'],
+    });
+    proxy.registry.registerDiscoveredTool({
+      fullName: 'github__create_issue',
+      originalName: 'create_issue',
+      serverName: 'github',
+      definition: { name: 'create_issue', inputSchema: { type: 'object' } },
+    });
+    server = await startWebServer(proxy, {
+      port: 0,
+      host: 'localhost',
+      inboundAuth: { type: 'none' },
+    });
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await proxy.shutdown();
+    await closeServer(server);
+    server = null;
+  });
+
+  const connect = async (name: string, sample?: () => CreateMessageResult) => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/api/streamable/mcp`));
+    const client = new Client(
+      { name, version: '1.0.0' },
+      { capabilities: sample && { sampling: {} } },
+    );
+    if (sample) client.setRequestHandler(CreateMessageRequestSchema, sample);
+    await client.connect(transport);
+    clients.push(client);
+    return { client, sessionId: transport.sessionId! };
+  };
+
+  it('should give every client its own session and tool state', async () => {
+    const first = await connect('first');
+    const second = await connect('second');
+    expect(first.sessionId).not.toBe(second.sessionId);
+
+    proxy.sessions
+      .get(first.sessionId)!
+      .toolRegistry.enableTools(['github__create_issue'], 'toolset');
+
+    expect((await first.client.listTools()).tools.map((t) => t.name)).toEqual([
+      'github__create_issue',
+    ]);
+    expect((await second.client.listTools()).tools).toEqual([]);
+
+    const response = await fetch(`${baseUrl}/api/sessions`);
+    const { sessions } = await response.json();
+    expect(sessions).toEqual([
+      expect.objectContaining({ id: first.sessionId, client: 'first/1.0.0' }),
+      expect.objectContaining({ id: second.sessionId, client: 'second/1.0.0' }),
+    ]);
+  });
+
+  it('should reject requests for unknown or closed sessions', async () => {
+    const { sessionId } = await connect('first');
+
+    const deleted = await fetch(`${baseUrl}/api/sessions/${sessionId}`, { method: 'DELETE' });
+    expect(deleted.status).toBe(200);
+    expect(proxy.sessions.list()).toEqual([]);
+
+    const response = await fetch(`${baseUrl}/api/streamable/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'tools/list', id: 1 }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should forward sampling requests from backends to the session calling the tool', async () => {
+    await proxy.initialize();
+    const answer = (model: string) => (): CreateMessageResult => ({
+      role: 'assistant',
+      content: { type: 'text', text: `answered by ${model}` },
+      model,
+    });
+    const first = await connect('first', answer('first-model'));
+    const ask = (delayMs = 0) =>
+      first.client.callTool({ name: 'sampler__ask', arguments: { question: 'Hi?', delayMs } });
+
+    // The backend connected before any client, and was still given sampling
+    expect((await ask()).content).toEqual([{ type: 'text', text: 'answered by first-model' }]);
+
+    // A client initializing during the call is more recently active, but not calling
+    const call = ask(500);
+    await connect('second', answer('second-model'));
+    expect((await call).content).toEqual([{ type: 'text', text: 'answered by first-model' }]);
+  }, 30_000);
+});